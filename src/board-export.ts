@@ -0,0 +1,155 @@
+import type { MuralWidget } from './types.js';
+import { widgetBounds, sortByReadingOrder } from './geometry.js';
+import { widgetKind, widgetText, type WidgetRecord } from './widget-content.js';
+import { findParentAreas } from './outline.js';
+import { BOARD_DOCUMENT_VERSION, type BoardDocument, type BoardItem, type Point } from './board-import.js';
+
+// Widgets an export leaves out, with the reason
+export interface SkippedWidget {
+  widgetId: string;
+  type: string;
+  reason: string;
+}
+
+export interface BoardExport {
+  document: BoardDocument;
+  skipped: SkippedWidget[];
+}
+
+// Item types widgets are exported as. Images, files and comments point at content stored
+// with the source mural, so import-board cannot recreate them.
+const EXPORTED_TYPES: Record<string, BoardItem['type']> = {
+  'area': 'area',
+  'title': 'title',
+  'sticky-note': 'sticky',
+  'text-box': 'text',
+  'shape': 'shape',
+  'table': 'table',
+  'arrow': 'arrow'
+};
+
+const SHAPES = ['rectangle', 'circle', 'triangle', 'diamond'];
+
+// Hundredths of a pixel are kept, so exports of an unchanged board are identical
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Turns a mural's widgets into a board document that import-board re-creates. Positions
+// are normalized so the top-left corner of the board is (0, 0) and items inside areas are
+// nested under them with positions relative to the area. Arrows refer to their ends by
+// generated refs ("sticky-3") instead of widget IDs, and fall back to end points when an
+// end is not attached to an exported widget. Only fields the create endpoints accept are
+// written; IDs, authors, timestamps and other server-side fields are dropped.
+export function exportBoardDocument(widgets: MuralWidget[], source: NonNullable<BoardDocument['source']>): BoardExport {
+  const skipped: SkippedWidget[] = [];
+  const exported = widgets.filter(widget => {
+    if (Object.hasOwn(EXPORTED_TYPES, widgetKind(widget))) return true;
+    skipped.push({ widgetId: widget.id, type: widget.type, reason: `${widget.type || 'Unknown'} widgets cannot be re-created by import-board` });
+    return false;
+  });
+
+  const placed = exported.filter(widget => widgetKind(widget) !== 'arrow');
+  const placedIds = new Set(placed.map(widget => widget.id));
+  const arrowEnd = (arrow: WidgetRecord, end: 'start' | 'end'): { widgetId: string } | { point: Point } | undefined => {
+    const widgetId = arrow[`${end}Widget`];
+    const x = arrow[`${end}X`];
+    const y = arrow[`${end}Y`];
+    if (typeof widgetId === 'string' && placedIds.has(widgetId)) return { widgetId };
+    if (typeof x === 'number' && typeof y === 'number') return { point: { x, y } };
+    return undefined;
+  };
+
+  const arrows = sortByReadingOrder(exported.filter(widget => widgetKind(widget) === 'arrow')).flatMap(widget => {
+    const arrow = widget as WidgetRecord;
+    const start = arrowEnd(arrow, 'start');
+    const end = arrowEnd(arrow, 'end');
+    if (!start || !end) {
+      skipped.push({ widgetId: arrow.id, type: arrow.type, reason: 'The arrow has an end that is neither attached to an exported widget nor at a known point' });
+      return [];
+    }
+    return [{ arrow, start, end }];
+  });
+
+  // The top-left corner of everything exported becomes the document origin
+  const corners = [
+    ...placed.map(widget => ({ x: widget.x ?? 0, y: widget.y ?? 0 })),
+    ...arrows.flatMap(({ start, end }) => [start, end].flatMap(point => 'point' in point ? [point.point] : []))
+  ];
+  const origin = corners.length > 0
+    ? { x: Math.min(...corners.map(corner => corner.x)), y: Math.min(...corners.map(corner => corner.y)) }
+    : { x: 0, y: 0 };
+
+  const parents = findParentAreas(placed);
+  const childrenOf = (parentId: string | undefined) =>
+    sortByReadingOrder(placed.filter(widget => parents.get(widget.id) === parentId));
+
+  // Refs are only given to widgets arrows attach to, numbered by type in document order
+  const referenced = new Set(arrows.flatMap(({ start, end }) => [start, end].flatMap(point => 'widgetId' in point ? [point.widgetId] : [])));
+  const refs = new Map<string, string>();
+  const counters = new Map<string, number>();
+
+  const toItem = (widget: MuralWidget, relativeTo: Point): BoardItem => {
+    const record = widget as WidgetRecord;
+    const type = EXPORTED_TYPES[widgetKind(widget)];
+    const count = (counters.get(type) ?? 0) + 1;
+    counters.set(type, count);
+
+    const item: BoardItem = { type };
+    if (referenced.has(widget.id)) {
+      item.ref = `${type}-${count}`;
+      refs.set(widget.id, item.ref);
+    }
+    if (type === 'area') {
+      if (typeof record.title === 'string' && record.title !== '') item.title = record.title;
+    } else if (type === 'shape') {
+      if (typeof record.text === 'string' && record.text !== '') item.text = record.text;
+    } else if (type !== 'table') {
+      item.text = widgetText(widget);
+    }
+
+    const bounds = widgetBounds(widget);
+    item.x = round(bounds.x - relativeTo.x);
+    item.y = round(bounds.y - relativeTo.y);
+    if (widget.width !== undefined) item.width = round(widget.width);
+    if (widget.height !== undefined) item.height = round(widget.height);
+
+    if ((type === 'shape' || type === 'sticky') && SHAPES.includes(record.shape) && !(type === 'sticky' && record.shape === 'rectangle')) {
+      item.shape = record.shape;
+    }
+    if (type === 'table') {
+      const rows: unknown[][] = Array.isArray(record.data) ? record.data.filter(Array.isArray) : [];
+      item.data = rows.length > 0
+        ? rows.map(row => row.map(cell => String(cell ?? '')))
+        : Array.from({ length: Math.max(1, record.rows ?? 1) }, () => Array.from({ length: Math.max(1, record.columns ?? 1) }, () => ''));
+    }
+    if (record.style && typeof record.style === 'object' && Object.keys(record.style).length > 0) {
+      item.style = { ...record.style };
+    }
+
+    if (type === 'area') {
+      const children = childrenOf(widget.id).map(child => toItem(child, bounds));
+      if (children.length > 0) item.children = children;
+    }
+    return item;
+  };
+
+  const items = childrenOf(undefined).map(widget => toItem(widget, origin));
+  const relative = (point: Point): Point => ({ x: round(point.x - origin.x), y: round(point.y - origin.y) });
+  for (const { arrow, start, end } of arrows) {
+    const item: BoardItem = { type: 'arrow' };
+    if ('widgetId' in start) item.from = refs.get(start.widgetId);
+    else item.start = relative(start.point);
+    if ('widgetId' in end) item.to = refs.get(end.widgetId);
+    else item.end = relative(end.point);
+    if (arrow.style && typeof arrow.style === 'object' && Object.keys(arrow.style).length > 0) {
+      item.style = { ...arrow.style };
+    }
+    items.push(item);
+  }
+
+  return {
+    document: { version: BOARD_DOCUMENT_VERSION, source, items },
+    skipped
+  };
+}
@@ -0,0 +1,507 @@
+import { z } from 'zod';
+import type { Bounds } from './geometry.js';
+import type { WidgetEndpointType } from './mural-client.js';
+import { DEFAULT_LAYOUT_GAP } from './layout.js';
+import { MuralValidationError } from './errors.js';
+import { parseYaml } from './yaml.js';
+import { parseCsv } from './csv.js';
+
+export type BoardDocumentFormat = 'json' | 'yaml' | 'csv';
+
+// Version of the board document format written by export-board
+export const BOARD_DOCUMENT_VERSION = 1;
+
+// Most items (children included) one document may hold
+export const MAX_IMPORT_ITEMS = 1000;
+
+// Item types a document may use, and the widget endpoint each one is created through
+const ITEM_TYPES = {
+  'area': 'area',
+  'title': 'title',
+  'sticky': 'sticky-note',
+  'sticky-note': 'sticky-note',
+  'text': 'text-box',
+  'text-box': 'text-box',
+  'shape': 'shape',
+  'table': 'table',
+  'arrow': 'arrow'
+} as const satisfies Record<string, WidgetEndpointType>;
+
+type ItemType = keyof typeof ITEM_TYPES;
+
+// One item of a board document. Positions are relative: x and y are measured from the
+// top-left corner of the parent area (or the document origin), and rightOf, leftOf, below
+// and above place an item next to another one, with x and y as extra offsets. Arrows
+// connect refs with from and to, or start and end at points measured like x and y.
+export interface BoardItem {
+  type: ItemType;
+  ref?: string;               // Local name other items use to refer to this one
+  text?: string;
+  title?: string;             // Areas
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  rightOf?: string;
+  leftOf?: string;
+  below?: string;
+  above?: string;
+  gap?: number;               // Space to the neighbour, defaults to 20
+  in?: string;                // Parent area, as an alternative to nesting under children
+  shape?: 'rectangle' | 'circle' | 'triangle' | 'diamond';  // Shapes and sticky notes
+  data?: string[][];          // Table cells, row by row
+  color?: string;             // Shorthand for the background (text color for titles, line color for arrows)
+  style?: Record<string, unknown>;
+  from?: string;              // Arrows
+  to?: string;
+  start?: Point;
+  end?: Point;
+  children?: BoardItem[];     // Areas
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface BoardDocument {
+  version?: number;           // BOARD_DOCUMENT_VERSION in exported documents
+  source?: {                  // Where an exported document came from
+    muralId: string;
+    title?: string;
+    exportedAt: string;
+  };
+  items: BoardItem[];
+}
+
+// A widget ready to be created, in document coordinates until the plan is offset
+export interface PlannedWidget {
+  key: string;                // The item's ref, or its path in the document
+  ref?: string;
+  widgetType: WidgetEndpointType;
+  request: Record<string, unknown>;  // Arrows hold the keys of their ends until those exist
+  bounds?: Bounds;            // Not set for arrows
+}
+
+export interface ImportPlan {
+  widgets: PlannedWidget[];   // In creation order
+  bounds: Bounds;             // Around everything but arrows
+}
+
+const refSchema = z.string().min(1);
+const pointSchema = z.object({ x: z.number(), y: z.number() }).strict();
+const itemSchema: z.ZodType<BoardItem> = z.lazy(() => z.object({
+  type: z.enum(Object.keys(ITEM_TYPES) as [ItemType, ...ItemType[]]),
+  ref: refSchema.optional(),
+  text: z.string().optional(),
+  title: z.string().optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+  rightOf: refSchema.optional(),
+  leftOf: refSchema.optional(),
+  below: refSchema.optional(),
+  above: refSchema.optional(),
+  gap: z.number().optional(),
+  in: refSchema.optional(),
+  shape: z.enum(['rectangle', 'circle', 'triangle', 'diamond']).optional(),
+  data: z.array(z.array(z.string())).min(1).optional(),
+  color: z.string().optional(),
+  style: z.record(z.string(), z.unknown()).optional(),
+  from: refSchema.optional(),
+  to: refSchema.optional(),
+  start: pointSchema.optional(),
+  end: pointSchema.optional(),
+  children: z.array(itemSchema).optional()
+}).strict());
+
+const documentSchema = z.object({
+  version: z.literal(BOARD_DOCUMENT_VERSION).optional(),
+  source: z.object({
+    muralId: z.string(),
+    title: z.string().optional(),
+    exportedAt: z.string()
+  }).strict().optional(),
+  items: z.array(itemSchema)
+}).strict();
+
+const DEFAULT_SIZES: Record<WidgetEndpointType, { width: number; height: number }> = {
+  'sticky-note': { width: 138, height: 138 },
+  'text-box': { width: 200, height: 60 },
+  'title': { width: 300, height: 60 },
+  'shape': { width: 100, height: 100 },
+  'area': { width: 400, height: 300 },
+  'table': { width: 360, height: 120 },
+  'image': { width: 300, height: 200 },
+  'file': { width: 200, height: 120 },
+  'arrow': { width: 0, height: 0 }
+};
+
+// Space kept between an area's edges and its contents when the area is sized to fit them
+const AREA_PADDING = 40;
+
+// Areas go first so they end up behind their contents, arrows last so their ends exist
+const CREATION_ORDER: WidgetEndpointType[] = ['area', 'title', 'sticky-note', 'text-box', 'shape', 'table', 'arrow'];
+
+// CSV rows become sticky notes; rows without a position are laid out in a grid of this width
+const CSV_COLUMNS = ['text', 'ref', 'x', 'y', 'width', 'height', 'color', 'area'];
+const CSV_GRID_COLUMNS = 4;
+const CSV_AREA_HEADER = 80;
+const CSV_AREA_GAP = 60;
+
+export function detectFormat(text: string): BoardDocumentFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  const firstLine = trimmed.split(/\r?\n/, 1)[0];
+  return firstLine.includes(',') && !firstLine.includes(':') ? 'csv' : 'yaml';
+}
+
+// Turns sticky rows into a document. Rows that share an `area` value go into an area with
+// that title, sized to fit; areas are lined up left to right after any rows without one.
+export function csvToBoardDocument(rows: string[][]): BoardDocument {
+  if (rows.length === 0) {
+    throw new MuralValidationError('Invalid CSV: the document is empty');
+  }
+  const header = rows[0].map(column => column.trim().toLowerCase());
+  const unknown = header.filter(column => !CSV_COLUMNS.includes(column));
+  if (unknown.length > 0 || !header.includes('text')) {
+    throw new MuralValidationError(`Invalid CSV header: expected a "text" column and optionally ${CSV_COLUMNS.slice(1).join(', ')}${unknown.length ? `; unknown: ${unknown.join(', ')}` : ''}`);
+  }
+
+  const groups = new Map<string, BoardItem[]>();
+  rows.slice(1).forEach((row, i) => {
+    const cell = (column: string) => {
+      const index = header.indexOf(column);
+      const value = index === -1 ? '' : (row[index] ?? '').trim();
+      return value === '' ? undefined : value;
+    };
+    const number = (column: string) => {
+      const value = cell(column);
+      if (value === undefined) return undefined;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) {
+        throw new MuralValidationError(`Invalid CSV row ${i + 2}: ${column} must be a number, got "${value}"`);
+      }
+      return parsed;
+    };
+
+    const note: BoardItem = { type: 'sticky', text: cell('text') ?? '' };
+    for (const column of ['x', 'y', 'width', 'height'] as const) {
+      const value = number(column);
+      if (value !== undefined) note[column] = value;
+    }
+    const ref = cell('ref');
+    const color = cell('color');
+    if (ref) note.ref = ref;
+    if (color) note.color = color;
+
+    const area = cell('area') ?? '';
+    groups.set(area, [...(groups.get(area) ?? []), note]);
+  });
+
+  const cell = DEFAULT_SIZES['sticky-note'].width + DEFAULT_LAYOUT_GAP;
+  const grid = (notes: BoardItem[], top: number, left: number) => {
+    let slot = 0;
+    for (const note of notes) {
+      if (note.x === undefined || note.y === undefined) {
+        note.x = left + (slot % CSV_GRID_COLUMNS) * cell;
+        note.y = top + Math.floor(slot / CSV_GRID_COLUMNS) * cell;
+        slot++;
+      }
+    }
+    return slot;
+  };
+
+  const items: BoardItem[] = [];
+  let areaX = 0;
+  const loose = groups.get('');
+  if (loose) {
+    const placed = grid(loose, 0, 0);
+    items.push(...loose);
+    areaX = placed > 0 ? Math.min(placed, CSV_GRID_COLUMNS) * cell - DEFAULT_LAYOUT_GAP + CSV_AREA_GAP : 0;
+  }
+
+  let previous: string | undefined;
+  [...groups].filter(([title]) => title !== '').forEach(([title, notes], i) => {
+    grid(notes, CSV_AREA_HEADER, AREA_PADDING);
+    const ref = `area-${i + 1}`;
+    items.push({
+      type: 'area',
+      ref,
+      title,
+      ...(previous ? { rightOf: previous, gap: CSV_AREA_GAP } : { x: areaX, y: 0 }),
+      children: notes
+    });
+    previous = ref;
+  });
+
+  return { items };
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.length ? issue.path.join('.') : 'document'}: ${issue.message}`)
+    .join('; ');
+}
+
+// Parses and validates a board document. `format` is detected from the text when left out.
+export function parseBoardDocument(text: string, format: BoardDocumentFormat = detectFormat(text)): BoardDocument {
+  let data: unknown;
+  if (format === 'json') {
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new MuralValidationError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else if (format === 'yaml') {
+    data = parseYaml(text);
+  } else {
+    data = csvToBoardDocument(parseCsv(text));
+  }
+
+  // A bare list of items is a document too
+  const parsed = documentSchema.safeParse(Array.isArray(data) ? { items: data } : data);
+  if (!parsed.success) {
+    throw new MuralValidationError(`Invalid board document: ${describeIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+interface ItemNode {
+  key: string;
+  item: BoardItem;
+  widgetType: WidgetEndpointType;
+  parent?: string;
+  index: number;              // Document order
+}
+
+function styleFor(item: BoardItem, widgetType: WidgetEndpointType): Record<string, unknown> | undefined {
+  const colorKey = widgetType === 'title' ? 'textColor' : widgetType === 'arrow' ? 'color' : 'backgroundColor';
+  const style = { ...(item.color && { [colorKey]: item.color }), ...item.style };
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+// Works out where every item of a document goes and what to send to create it
+export function planBoardImport(document: BoardDocument): ImportPlan {
+  const nodes = new Map<string, ItemNode>();
+  const visit = (items: BoardItem[], path: string, parent?: string) => items.forEach((item, i) => {
+    const where = `${path}[${i}]`;
+    const key = item.ref ?? where;
+    if (nodes.has(key)) {
+      throw new MuralValidationError(`Duplicate ref "${key}" at ${where}`);
+    }
+    if (nodes.size >= MAX_IMPORT_ITEMS) {
+      throw new MuralValidationError(`A board document can hold at most ${MAX_IMPORT_ITEMS} items`);
+    }
+    if (item.children && item.type !== 'area') {
+      throw new MuralValidationError(`Only areas can have children (${where} is a ${item.type})`);
+    }
+    if (item.in && parent) {
+      throw new MuralValidationError(`${where} is nested inside an area and cannot also use "in"`);
+    }
+    nodes.set(key, { key, item, widgetType: ITEM_TYPES[item.type], parent: parent ?? item.in, index: nodes.size });
+    if (item.children) {
+      visit(item.children, `${where}.children`, key);
+    }
+  });
+  visit(document.items, 'items');
+
+  const lookup = (ref: string, from: string, field: string) => {
+    const node = nodes.get(ref);
+    if (!node) {
+      throw new MuralValidationError(`${from} refers to unknown ref "${ref}" in "${field}"`);
+    }
+    if (node.widgetType === 'arrow') {
+      throw new MuralValidationError(`${from} cannot use arrow "${ref}" in "${field}"`);
+    }
+    return node;
+  };
+  const neighbourFields = ['rightOf', 'leftOf', 'below', 'above'] as const;
+
+  for (const node of nodes.values()) {
+    const { item, key } = node;
+    if (node.parent && lookup(node.parent, key, 'in').widgetType !== 'area') {
+      throw new MuralValidationError(`${key} is placed "in" ${node.parent}, which is not an area`);
+    }
+    if (node.widgetType === 'arrow') {
+      if (!(item.from || item.start) || !(item.to || item.end) || (item.from && item.start) || (item.to && item.end)) {
+        throw new MuralValidationError(`Arrow ${key} needs "from" or "start", and "to" or "end"`);
+      }
+      if (item.from) lookup(item.from, key, 'from');
+      if (item.to) lookup(item.to, key, 'to');
+    } else {
+      if (item.from || item.to || item.start || item.end) {
+        throw new MuralValidationError(`Only arrows have "from", "to", "start" and "end" (${key} is a ${item.type})`);
+      }
+      if (['sticky-note', 'text-box', 'title'].includes(node.widgetType) && item.text === undefined) {
+        throw new MuralValidationError(`${key} needs "text"`);
+      }
+      if ((node.widgetType === 'table') !== (item.data !== undefined)) {
+        throw new MuralValidationError(node.widgetType === 'table' ? `Table ${key} needs "data"` : `Only tables have "data" (${key} is a ${item.type})`);
+      }
+      const neighbours = neighbourFields.filter(field => item[field]);
+      if (neighbours.length > 1) {
+        throw new MuralValidationError(`${key} can be placed next to one item only, found ${neighbours.join(' and ')}`);
+      }
+      neighbours.forEach(field => lookup(item[field]!, key, field));
+      if (neighbours.length === 0 && (item.x === undefined || item.y === undefined)) {
+        throw new MuralValidationError(`${key} needs x and y, or one of ${neighbourFields.join(', ')}`);
+      }
+    }
+  }
+
+  // Areas placed "in" each other would nest forever
+  for (const node of nodes.values()) {
+    const seen = new Set([node.key]);
+    for (let parent = node.parent; parent; parent = nodes.get(parent)!.parent) {
+      if (seen.has(parent)) {
+        throw new MuralValidationError(`Circular nesting around "${parent}"`);
+      }
+      seen.add(parent);
+    }
+  }
+
+  // Positions and sizes depend on each other (areas fit their children, items sit next to
+  // others), so both are worked out on demand and cycles are reported
+  const positions = new Map<string, { x: number; y: number }>();
+  const sizes = new Map<string, { width: number; height: number }>();
+  const inProgress = new Set<string>();
+  const once = <T>(cache: Map<string, T>, label: string, key: string, compute: () => T): T => {
+    if (cache.has(key)) return cache.get(key)!;
+    if (inProgress.has(`${label}:${key}`)) {
+      throw new MuralValidationError(`Circular positioning around "${key}"`);
+    }
+    inProgress.add(`${label}:${key}`);
+    try {
+      const value = compute();
+      cache.set(key, value);
+      return value;
+    } finally {
+      inProgress.delete(`${label}:${key}`);
+    }
+  };
+
+  const boundsOf = (node: ItemNode): Bounds => ({ ...positionOf(node), ...sizeOf(node) });
+
+  const positionOf = (node: ItemNode): { x: number; y: number } => once(positions, 'position', node.key, () => {
+    const { item } = node;
+    const dx = item.x ?? 0;
+    const dy = item.y ?? 0;
+    const gap = item.gap ?? DEFAULT_LAYOUT_GAP;
+    if (item.rightOf || item.below) {
+      const neighbour = boundsOf(nodes.get((item.rightOf ?? item.below)!)!);
+      return item.rightOf
+        ? { x: neighbour.x + neighbour.width + gap + dx, y: neighbour.y + dy }
+        : { x: neighbour.x + dx, y: neighbour.y + neighbour.height + gap + dy };
+    }
+    if (item.leftOf || item.above) {
+      const neighbour = boundsOf(nodes.get((item.leftOf ?? item.above)!)!);
+      const size = sizeOf(node);
+      return item.leftOf
+        ? { x: neighbour.x - gap - size.width + dx, y: neighbour.y + dy }
+        : { x: neighbour.x + dx, y: neighbour.y - gap - size.height + dy };
+    }
+    const origin = node.parent ? positionOf(nodes.get(node.parent)!) : { x: 0, y: 0 };
+    return { x: origin.x + dx, y: origin.y + dy };
+  });
+
+  const sizeOf = (node: ItemNode): { width: number; height: number } => once(sizes, 'size', node.key, () => {
+    const { item } = node;
+    const fallback = DEFAULT_SIZES[node.widgetType];
+    if (node.widgetType !== 'area' || (item.width !== undefined && item.height !== undefined)) {
+      return { width: item.width ?? fallback.width, height: item.height ?? fallback.height };
+    }
+
+    // Areas without a size fit their contents
+    const children = [...nodes.values()].filter(child => child.parent === node.key && child.widgetType !== 'arrow');
+    if (children.length === 0) {
+      return { width: item.width ?? fallback.width, height: item.height ?? fallback.height };
+    }
+    const origin = positionOf(node);
+    const contents = children.map(boundsOf);
+    return {
+      width: item.width ?? Math.max(...contents.map(bounds => bounds.x + bounds.width)) - origin.x + AREA_PADDING,
+      height: item.height ?? Math.max(...contents.map(bounds => bounds.y + bounds.height)) - origin.y + AREA_PADDING
+    };
+  });
+
+  const depth = (node: ItemNode): number => node.parent ? 1 + depth(nodes.get(node.parent)!) : 0;
+  const ordered = [...nodes.values()].sort((a, b) =>
+    CREATION_ORDER.indexOf(a.widgetType) - CREATION_ORDER.indexOf(b.widgetType) ||
+    (a.widgetType === 'area' ? depth(a) - depth(b) : 0) ||
+    a.index - b.index);
+
+  const widgets: PlannedWidget[] = ordered.map(node => {
+    const { item, key, widgetType } = node;
+    const style = styleFor(item, widgetType);
+    if (widgetType === 'arrow') {
+      const origin = node.parent ? positionOf(nodes.get(node.parent)!) : { x: 0, y: 0 };
+      const request: Record<string, unknown> = item.from
+        ? { startWidget: item.from }
+        : { startX: origin.x + item.start!.x, startY: origin.y + item.start!.y };
+      Object.assign(request, item.to
+        ? { endWidget: item.to }
+        : { endX: origin.x + item.end!.x, endY: origin.y + item.end!.y });
+      if (style) request.style = style;
+      return { key, ref: item.ref, widgetType, request };
+    }
+
+    const bounds = boundsOf(node);
+    const request: Record<string, unknown> = { ...bounds };
+    if (widgetType === 'area') {
+      const title = item.title ?? item.text;
+      if (title) request.title = title;
+    } else if (widgetType === 'shape') {
+      request.shape = item.shape ?? 'rectangle';
+      if (item.text) request.text = item.text;
+    } else if (widgetType === 'table') {
+      request.rows = item.data!.length;
+      request.columns = Math.max(...item.data!.map(row => row.length));
+      request.data = item.data;
+    } else {
+      request.text = item.text;
+      if (widgetType === 'sticky-note') request.shape = item.shape ?? 'rectangle';
+    }
+    if (style) request.style = style;
+    return { key, ref: item.ref, widgetType, request, bounds };
+  });
+
+  const placed = widgets.flatMap(widget => widget.bounds ? [widget.bounds] : []);
+  if (placed.length === 0) {
+    throw new MuralValidationError('The board document has nothing to place; arrows need widgets to connect');
+  }
+  const left = Math.min(...placed.map(bounds => bounds.x));
+  const top = Math.min(...placed.map(bounds => bounds.y));
+  return {
+    widgets,
+    bounds: {
+      x: left,
+      y: top,
+      width: Math.max(...placed.map(bounds => bounds.x + bounds.width)) - left,
+      height: Math.max(...placed.map(bounds => bounds.y + bounds.height)) - top
+    }
+  };
+}
+
+// Moves a whole plan by (dx, dy)
+export function offsetPlan(plan: ImportPlan, dx: number, dy: number): ImportPlan {
+  const move = (bounds: Bounds) => ({ ...bounds, x: bounds.x + dx, y: bounds.y + dy });
+  const movePoints = (request: Record<string, unknown>) => {
+    const moved = { ...request };
+    for (const [x, y] of [['startX', 'startY'], ['endX', 'endY']]) {
+      if (typeof moved[x] === 'number') {
+        moved[x] = (moved[x] as number) + dx;
+        moved[y] = (moved[y] as number) + dy;
+      }
+    }
+    return moved;
+  };
+  return {
+    widgets: plan.widgets.map(widget => widget.bounds
+      ? { ...widget, bounds: move(widget.bounds), request: { ...widget.request, x: widget.bounds.x + dx, y: widget.bounds.y + dy } }
+      : { ...widget, request: movePoints(widget.request) }),
+    bounds: move(plan.bounds)
+  };
+}
@@ -0,0 +1,76 @@
+import { MuralValidationError } from './errors.js';
+
+// Parses delimited text as RFC 4180 describes it: fields may be quoted, quoted fields may
+// contain delimiters, line breaks and doubled quotes. Blank lines are skipped.
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new MuralValidationError(`Invalid CSV: unterminated quoted field on line ${line}`);
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+// Text cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export interface FormatCsvOptions {
+  // Prefix text cells a spreadsheet would run as a formula with an apostrophe, so content
+  // written by anyone on a board can't run when the file is opened (default: true).
+  // Numbers are left alone, so negative values stay numeric.
+  escapeFormulas?: boolean;
+}
+
+// Writes rows as delimited text, quoting fields that hold the delimiter, quotes or line
+// breaks so parseCsv reads them back unchanged. Lines end with CRLF as RFC 4180 asks.
+export function formatCsv(rows: (string | number)[][], delimiter = ',', options: FormatCsvOptions = {}): string {
+  const { escapeFormulas = true } = options;
+  const field = (value: string | number) => {
+    const text = typeof value === 'string' && escapeFormulas && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(field).join(delimiter)).join('\r\n') + (rows.length > 0 ? '\r\n' : '');
+}
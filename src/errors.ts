@@ -0,0 +1,142 @@
+import type { ScopeCheckResult } from './types.js';
+
+// Machine-readable codes surfaced to MCP clients, so agents can branch on the kind of failure
+// instead of parsing messages
+export type MuralErrorCode =
+  | 'AUTH_ERROR'
+  | 'INSUFFICIENT_SCOPE'
+  | 'NOT_FOUND'
+  | 'VALIDATION_ERROR'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'NETWORK_ERROR'
+  | 'API_ERROR';
+
+export interface MuralApiErrorOptions {
+  status?: number;
+  endpoint?: string;
+  requestId?: string;
+  apiCode?: string;     // Error code from the Mural response body, if any
+  details?: unknown;    // Extra context, e.g. validation issues or the raw error body
+  cause?: unknown;
+}
+
+export class MuralApiError extends Error {
+  readonly code: MuralErrorCode;
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly requestId?: string;
+  readonly apiCode?: string;
+  readonly details?: unknown;
+
+  constructor(message: string, code: MuralErrorCode = 'API_ERROR', options: MuralApiErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.requestId = options.requestId;
+    this.apiCode = options.apiCode;
+    this.details = options.details;
+  }
+
+  // Whether repeating the same request may succeed; only transient failures qualify
+  get retryable(): boolean {
+    return this.code === 'SERVER_ERROR' || this.code === 'NETWORK_ERROR';
+  }
+
+  toJSON(): Record<string, unknown> {
+    const json: Record<string, unknown> = {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable
+    };
+    if (this.status !== undefined) json.status = this.status;
+    if (this.endpoint !== undefined) json.endpoint = this.endpoint;
+    if (this.requestId !== undefined) json.requestId = this.requestId;
+    if (this.apiCode !== undefined) json.apiCode = this.apiCode;
+    if (this.details !== undefined) json.details = this.details;
+    return json;
+  }
+}
+
+// Missing, expired or rejected credentials; the user has to re-authenticate
+export class MuralAuthError extends MuralApiError {
+  constructor(message: string, options: MuralApiErrorOptions = {}) {
+    super(message, 'AUTH_ERROR', options);
+  }
+}
+
+export class MuralScopeError extends MuralApiError {
+  readonly requiredScope?: string;
+  readonly availableScopes?: string[];
+
+  constructor(message: string, options: MuralApiErrorOptions & { requiredScope?: string; availableScopes?: string[] } = {}) {
+    super(message, 'INSUFFICIENT_SCOPE', options);
+    this.requiredScope = options.requiredScope;
+    this.availableScopes = options.availableScopes;
+  }
+
+  static fromScopeCheck(scopeCheck: ScopeCheckResult, options: MuralApiErrorOptions = {}): MuralScopeError {
+    return new MuralScopeError(
+      `Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has '${scopeCheck.requiredScope}' scope and re-authenticate.`,
+      { ...options, requiredScope: scopeCheck.requiredScope, availableScopes: scopeCheck.availableScopes }
+    );
+  }
+
+  toJSON(): Record<string, unknown> {
+    const json = super.toJSON();
+    if (this.requiredScope !== undefined) json.requiredScope = this.requiredScope;
+    if (this.availableScopes !== undefined) json.availableScopes = this.availableScopes;
+    return json;
+  }
+}
+
+export class MuralNotFoundError extends MuralApiError {
+  constructor(message: string, options: MuralApiErrorOptions = {}) {
+    super(message, 'NOT_FOUND', options);
+  }
+}
+
+// Rejected input, either by the API (400/422) or by local checks before a request is sent
+export class MuralValidationError extends MuralApiError {
+  constructor(message: string, options: MuralApiErrorOptions = {}) {
+    super(message, 'VALIDATION_ERROR', options);
+  }
+}
+
+export class MuralRateLimitError extends MuralApiError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: MuralApiErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, 'RATE_LIMITED', options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  toJSON(): Record<string, unknown> {
+    const json = super.toJSON();
+    if (this.retryAfterMs !== undefined) json.retryAfterMs = this.retryAfterMs;
+    return json;
+  }
+}
+
+// Maps a failed HTTP response onto the matching error class
+export function createApiError(status: number, message: string, options: Omit<MuralApiErrorOptions, 'status'> = {}): MuralApiError {
+  const errorOptions = { ...options, status };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new MuralValidationError(message, errorOptions);
+    case 401:
+      return new MuralAuthError(message, errorOptions);
+    case 403:
+      return new MuralScopeError(message, errorOptions);
+    case 404:
+      return new MuralNotFoundError(message, errorOptions);
+    case 429:
+      return new MuralRateLimitError(message, errorOptions);
+    default:
+      return new MuralApiError(message, status >= 500 ? 'SERVER_ERROR' : 'API_ERROR', errorOptions);
+  }
+}
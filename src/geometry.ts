@@ -0,0 +1,85 @@
+import type { MuralWidget } from './types.js';
+
+// Axis-aligned rectangle in mural canvas coordinates (origin top-left, y grows downwards)
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Widgets without a size (e.g. some arrows) are treated as points
+export function widgetBounds(widget: Pick<MuralWidget, 'x' | 'y' | 'width' | 'height'>): Bounds {
+  return {
+    x: widget.x ?? 0,
+    y: widget.y ?? 0,
+    width: widget.width ?? 0,
+    height: widget.height ?? 0
+  };
+}
+
+export function centerOf(bounds: Bounds): { x: number; y: number } {
+  return {
+    x: bounds.x + bounds.width / 2,
+    y: bounds.y + bounds.height / 2
+  };
+}
+
+export function boundsArea(bounds: Bounds): number {
+  return bounds.width * bounds.height;
+}
+
+export function containsPoint(bounds: Bounds, x: number, y: number): boolean {
+  return x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height;
+}
+
+export function containsBounds(outer: Bounds, inner: Bounds): boolean {
+  return inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height;
+}
+
+// Sorts widgets top-to-bottom, then left-to-right. Widgets whose top edges are within half the
+// height of the first widget in a row (at least `minRowTolerance` pixels) count as the same row,
+// so a slightly uneven line of sticky notes still reads left to right.
+export function sortByReadingOrder<T extends Pick<MuralWidget, 'x' | 'y' | 'height'>>(widgets: T[], minRowTolerance = 20): T[] {
+  const byTop = [...widgets].sort((a, b) => (a.y ?? 0) - (b.y ?? 0) || (a.x ?? 0) - (b.x ?? 0));
+  const rows: T[][] = [];
+  let rowTop = 0;
+  let rowTolerance = 0;
+
+  for (const widget of byTop) {
+    const top = widget.y ?? 0;
+    const currentRow = rows[rows.length - 1];
+    if (currentRow && top - rowTop <= rowTolerance) {
+      currentRow.push(widget);
+    } else {
+      rows.push([widget]);
+      rowTop = top;
+      rowTolerance = Math.max(minRowTolerance, (widget.height ?? 0) / 2);
+    }
+  }
+
+  return rows.flatMap(row => row.sort((a, b) => (a.x ?? 0) - (b.x ?? 0)));
+}
+
+export function intersects(a: Bounds, b: Bounds): boolean {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+// Gap between the edges of two rectangles; 0 when they touch or overlap
+export function distanceBetween(a: Bounds, b: Bounds): number {
+  const dx = Math.max(0, a.x - (b.x + b.width), b.x - (a.x + a.width));
+  const dy = Math.max(0, a.y - (b.y + b.height), b.y - (a.y + a.height));
+  return Math.hypot(dx, dy);
+}
+
+export function expandBounds(bounds: Bounds, by: number): Bounds {
+  return {
+    x: bounds.x - by,
+    y: bounds.y - by,
+    width: bounds.width + by * 2,
+    height: bounds.height + by * 2
+  };
+}
@@ -0,0 +1,124 @@
+import path from 'path';
+import os from 'os';
+import { readStateFile, StateFileWriter } from './state-file.js';
+
+const IDEMPOTENCY_FILE_PATH = path.join(os.homedir(), '.mural-mcp-idempotency.json');
+
+// Keys are remembered for a day; agents retry within minutes, not weeks
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// What a key was used for. A key is 'pending' from just before its create request is sent
+// until the widget ID is known; a pending key means an earlier attempt may or may not have
+// created the widget.
+export interface IdempotencyRecord {
+  status: 'pending' | 'created';
+  fingerprint: string;     // The content (not the position) the key was first used with
+  startedAt: number;
+  widgetId?: string;       // Set once created
+}
+
+type IdempotencyState = Record<string, IdempotencyRecord>;
+
+export class IdempotencyStore {
+  private state: IdempotencyState = {};
+  private loading?: Promise<void>;
+  private readonly writer: StateFileWriter;
+
+  constructor(
+    private readonly filePath: string = IDEMPOTENCY_FILE_PATH,
+    private readonly persist = true
+  ) {
+    this.writer = new StateFileWriter(filePath, 'idempotency keys');
+  }
+
+  private static entryKey(muralId: string, key: string): string {
+    return `${muralId}:${key}`;
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      if (!this.persist) return;
+      this.state = await readStateFile<IdempotencyState>(this.filePath, 'idempotency keys') ?? {};
+    })();
+    return this.loading;
+  }
+
+  private async save(): Promise<void> {
+    const now = Date.now();
+    for (const [entryKey, record] of Object.entries(this.state)) {
+      if (now - record.startedAt > KEY_TTL_MS) {
+        delete this.state[entryKey];
+      }
+    }
+    if (!this.persist) return;
+    await this.writer.write(this.state);
+  }
+
+  async get(muralId: string, key: string): Promise<IdempotencyRecord | undefined> {
+    await this.load();
+    const record = this.state[IdempotencyStore.entryKey(muralId, key)];
+    return record && Date.now() - record.startedAt <= KEY_TTL_MS ? record : undefined;
+  }
+
+  async markPending(muralId: string, entries: { key: string; fingerprint: string }[]): Promise<void> {
+    await this.load();
+    const startedAt = Date.now();
+    for (const { key, fingerprint } of entries) {
+      const entryKey = IdempotencyStore.entryKey(muralId, key);
+      const existing = this.state[entryKey];
+      // A retry keeps the first attempt's start time, so widgets it created still match
+      this.state[entryKey] = existing?.status === 'pending' && existing.fingerprint === fingerprint
+        ? existing
+        : { status: 'pending', fingerprint, startedAt };
+    }
+    await this.save();
+  }
+
+  async markCreated(muralId: string, entries: { key: string; widgetId: string }[]): Promise<void> {
+    await this.load();
+    for (const { key, widgetId } of entries) {
+      const record = this.state[IdempotencyStore.entryKey(muralId, key)];
+      if (record) {
+        record.status = 'created';
+        record.widgetId = widgetId;
+      }
+    }
+    await this.save();
+  }
+
+  async forget(muralId: string, keys: string[]): Promise<void> {
+    await this.load();
+    keys.forEach(key => delete this.state[IdempotencyStore.entryKey(muralId, key)]);
+    await this.save();
+  }
+
+  // Widget IDs already claimed by a key on this mural
+  async claimedWidgetIds(muralId: string): Promise<Set<string>> {
+    await this.load();
+    const prefix = `${muralId}:`;
+    return new Set(Object.entries(this.state)
+      .filter(([entryKey, record]) => entryKey.startsWith(prefix) && record.widgetId)
+      .map(([, record]) => record.widgetId!));
+  }
+}
+
+// Fields that identify what a create request asked for, and that the API echoes back on
+// the widget it creates
+const FINGERPRINT_FIELDS = ['x', 'y', 'text', 'title', 'url', 'filename', 'startWidget', 'endWidget'] as const;
+
+// A stable description of a widget's content, used to tell whether a key is being reused
+// for the same widget and to recognise a widget an earlier attempt already created. Pass
+// `fields` to describe an API widget using only the fields a create request set.
+export function widgetFingerprint(
+  widgetType: string,
+  widget: Record<string, any>,
+  fields: readonly string[] = fingerprintFields(widget)
+): string {
+  const values = fields.map(field => [field, typeof widget[field] === 'number' ? Math.round(widget[field]) : widget[field] ?? null]);
+  return JSON.stringify([widgetType, ...values]);
+}
+
+export function fingerprintFields(widget: Record<string, any>, includePosition = true): string[] {
+  return FINGERPRINT_FIELDS.filter(field =>
+    widget[field] !== undefined && widget[field] !== null && (includePosition || (field !== 'x' && field !== 'y')));
+}
@@ -0,0 +1,227 @@
+import path from 'path';
+import os from 'os';
+import { randomBytes } from 'crypto';
+import type { MuralWidget } from './types.js';
+import type { WidgetEndpointType } from './mural-client.js';
+import { normalizeWidgetKind, widgetKind, widgetText, type WidgetRecord } from './widget-content.js';
+import { MuralValidationError } from './errors.js';
+import { readStateFile, StateFileWriter } from './state-file.js';
+
+const JOURNAL_FILE_PATH = path.join(os.homedir(), '.mural-mcp-journal.json');
+
+// Older operations are dropped once a mural's journal grows past this
+export const MAX_JOURNAL_OPERATIONS = 100;
+
+export type OperationKind = 'create' | 'update' | 'delete';
+
+// One widget touched by an operation
+export interface JournalEntry {
+  widgetId: string;
+  widgetType: string;                 // As the API reports it, e.g. "sticky note"
+  before?: MuralWidget;               // update and delete: the widget before the change
+  changes?: Record<string, unknown>;  // update: the fields that were sent
+  undone?: boolean;                   // Reverted by an undo that failed for other entries
+}
+
+export interface JournalOperation {
+  id: string;
+  muralId: string;
+  kind: OperationKind;
+  summary: string;
+  timestamp: number;
+  entries: JournalEntry[];
+  undoneAt?: number;
+}
+
+// What undoing did to one widget of an operation
+export interface UndoResult {
+  widgetId: string;
+  status: 'deleted' | 'already-deleted' | 'restored' | 'recreated' | 'failed';
+  newWidgetId?: string;   // recreated: deleted widgets come back with a new ID
+  error?: unknown;        // failed
+}
+
+type JournalState = Record<string, JournalOperation[]>;
+
+function operationId(): string {
+  return `op-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+}
+
+function plural(kind: string, count: number): string {
+  const noun = kind.replace(/-/g, ' ');
+  return count === 1 ? noun : `${noun}${/(x|s|ch|sh)$/.test(noun) ? 'es' : 's'}`;
+}
+
+// e.g. "Deleted 2 sticky notes and 1 arrow"
+export function describeOperation(kind: OperationKind, entries: JournalEntry[]): string {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const type = normalizeWidgetKind(entry.widgetType) || 'widget';
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  }
+
+  const parts = Array.from(counts, ([type, count]) => `${count} ${plural(type, count)}`);
+  const verb = { create: 'Created', update: 'Updated', delete: 'Deleted' }[kind];
+  return `${verb} ${parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0]}`;
+}
+
+// A local, per-mural record of widget writes with what is needed to reverse each of them
+export class OperationJournal {
+  private state: JournalState = {};
+  private loading?: Promise<void>;
+  private readonly writer: StateFileWriter;
+
+  constructor(
+    private readonly filePath: string = JOURNAL_FILE_PATH,
+    private readonly persist = true
+  ) {
+    this.writer = new StateFileWriter(filePath, 'operation journal');
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      if (!this.persist) return;
+      this.state = await readStateFile<JournalState>(this.filePath, 'operation journal') ?? {};
+    })();
+    return this.loading;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.persist) return;
+    await this.writer.write(this.state);
+  }
+
+  // Records an operation; nothing is recorded when no widget was touched
+  async record(muralId: string, kind: OperationKind, entries: JournalEntry[]): Promise<JournalOperation | undefined> {
+    if (entries.length === 0) return undefined;
+    await this.load();
+
+    const operation: JournalOperation = {
+      id: operationId(),
+      muralId,
+      kind,
+      summary: describeOperation(kind, entries),
+      timestamp: Date.now(),
+      entries
+    };
+    const operations = [...(this.state[muralId] ?? []), operation];
+    this.state[muralId] = operations.slice(-MAX_JOURNAL_OPERATIONS);
+    await this.save();
+    return operation;
+  }
+
+  // Most recent first
+  async list(muralId: string): Promise<JournalOperation[]> {
+    await this.load();
+    return [...(this.state[muralId] ?? [])].reverse();
+  }
+
+  async get(muralId: string, id: string): Promise<JournalOperation | undefined> {
+    await this.load();
+    return this.state[muralId]?.find(operation => operation.id === id);
+  }
+
+  // Operations recorded after this one that touched any of its widgets and are still in effect
+  async laterConflicts(muralId: string, operation: JournalOperation): Promise<JournalOperation[]> {
+    await this.load();
+    const widgetIds = new Set(operation.entries.map(entry => entry.widgetId));
+    const operations = this.state[muralId] ?? [];
+    return operations
+      .slice(operations.findIndex(candidate => candidate.id === operation.id) + 1)
+      .filter(later => !later.undoneAt && later.entries.some(entry => widgetIds.has(entry.widgetId)));
+  }
+
+  // Marks the given entries (by index) as reverted; the operation counts as undone once all are
+  async markUndone(muralId: string, id: string, entryIndexes: number[]): Promise<void> {
+    await this.load();
+    const operation = this.state[muralId]?.find(candidate => candidate.id === id);
+    if (operation) {
+      entryIndexes.forEach(index => { operation.entries[index].undone = true; });
+      if (operation.entries.every(entry => entry.undone)) {
+        operation.undoneAt = Date.now();
+      }
+      await this.save();
+    }
+  }
+
+  // Deleted widgets come back with new IDs; point the rest of the journal at them
+  async replaceWidgetIds(muralId: string, replacements: Map<string, string>): Promise<void> {
+    if (replacements.size === 0) return;
+    await this.load();
+
+    for (const operation of this.state[muralId] ?? []) {
+      for (const entry of operation.entries) {
+        entry.widgetId = replacements.get(entry.widgetId) ?? entry.widgetId;
+        const before = entry.before as WidgetRecord | undefined;
+        if (before) {
+          before.id = replacements.get(before.id) ?? before.id;
+          for (const field of ['startWidget', 'endWidget']) {
+            if (typeof before[field] === 'string') {
+              before[field] = replacements.get(before[field]) ?? before[field];
+            }
+          }
+        }
+      }
+    }
+    await this.save();
+  }
+}
+
+// Fields a create request accepts, per widget endpoint
+const CREATE_FIELDS: Record<WidgetEndpointType, readonly string[]> = {
+  'sticky-note': ['x', 'y', 'text', 'shape', 'width', 'height', 'style'],
+  'text-box': ['x', 'y', 'text', 'width', 'height', 'style'],
+  'title': ['x', 'y', 'text', 'width', 'height', 'style'],
+  'shape': ['x', 'y', 'width', 'height', 'shape', 'text', 'style'],
+  'image': ['x', 'y', 'url', 'width', 'height', 'title', 'filename'],
+  'file': ['x', 'y', 'url', 'filename', 'width', 'height', 'fileSize', 'mimeType'],
+  'table': ['x', 'y', 'rows', 'columns', 'data', 'width', 'height', 'style'],
+  'area': ['x', 'y', 'width', 'height', 'title', 'style'],
+  'arrow': ['startWidget', 'endWidget', 'startX', 'startY', 'endX', 'endY', 'style']
+};
+
+// The create request that brings back a deleted widget as it was; throws for widget types
+// the API can't create
+export function recreateRequest(widget: MuralWidget): { widgetType: WidgetEndpointType; request: Record<string, unknown> } {
+  const widgetType = widgetKind(widget);
+  if (!Object.hasOwn(CREATE_FIELDS, widgetType)) {
+    throw new MuralValidationError(`Widget ${widget.id} has type "${widget.type}", which cannot be re-created`);
+  }
+
+  const record = widget as WidgetRecord;
+  const request: Record<string, unknown> = {};
+  for (const field of CREATE_FIELDS[widgetType as WidgetEndpointType]) {
+    if (record[field] !== undefined && record[field] !== null) {
+      request[field] = record[field];
+    }
+  }
+  if (widgetType === 'sticky-note') {
+    request.shape ??= 'rectangle';
+  }
+  if (['sticky-note', 'text-box', 'title'].includes(widgetType) && request.text === undefined) {
+    // Widgets that only carry HTML text come back with its plain text
+    request.text = widgetText(widget);
+  }
+  return { widgetType: widgetType as WidgetEndpointType, request };
+}
+
+// The PATCH body that puts back the values an update changed. Fields and style keys the
+// update added, which the widget didn't have before, are sent as null to clear them: left
+// out, they would survive the undo.
+export function restoreFields(before: MuralWidget, changes: Record<string, unknown>): Record<string, unknown> {
+  const record = before as WidgetRecord;
+  const restore: Record<string, unknown> = {};
+  for (const field of Object.keys(changes)) {
+    if (field === 'id') continue;
+    if (field === 'style') {
+      const style: Record<string, unknown> = { ...(record.style ?? {}) };
+      for (const key of Object.keys((changes.style ?? {}) as Record<string, unknown>)) {
+        style[key] ??= null;
+      }
+      restore.style = style;
+    } else {
+      restore[field] = record[field] ?? null;
+    }
+  }
+  return restore;
+}
@@ -0,0 +1,348 @@
+import { centerOf, expandBounds, containsBounds, type Bounds } from './geometry.js';
+import { SpatialIndex } from './spatial-index.js';
+import { MuralValidationError } from './errors.js';
+
+// grid: rows and columns; columns: one column per category; kanban: columns with a
+// header per category, including empty ones; radial: a ring around a point
+export type LayoutKind = 'grid' | 'columns' | 'kanban' | 'radial';
+
+export type LayoutAnchor =
+  | { type: 'point'; x: number; y: number }   // Top-left of the layout, or the hub of a radial layout
+  | { type: 'region'; bounds: Bounds };        // Keep the layout inside these bounds (also used for areas)
+
+export interface LayoutNote {
+  text: string;
+  category?: string;
+  width: number;
+  height: number;
+}
+
+export interface PlacedNote extends LayoutNote {
+  x: number;
+  y: number;
+}
+
+export interface PlacedHeader {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutOptions {
+  layout: LayoutKind;
+  anchor?: LayoutAnchor;        // Defaults to the nearest free spot right of the obstacles
+  obstacles?: Bounds[];         // Widgets already on the board
+  gap?: number;                 // Space between notes and around obstacles, defaults to 20
+  columns?: number;             // grid only; defaults to a square-ish grid or to the region width
+  categories?: string[];        // Column order for columns and kanban
+}
+
+export interface LayoutResult {
+  notes: PlacedNote[];          // In the same order as the input notes
+  headers: PlacedHeader[];
+  bounds: Bounds;
+}
+
+// A layout relative to its own top-left corner
+interface Arrangement {
+  notes: PlacedNote[];
+  headers: PlacedHeader[];
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_LAYOUT_GAP = 20;
+export const UNCATEGORIZED_COLUMN = 'Other';
+const HEADER_HEIGHT = 50;
+const SCAN_STEP = 20;
+const MAX_SEARCH_RINGS = 250;   // With SCAN_STEP this looks up to 5000px away from the anchor
+const MAX_RADIUS_STEPS = 100;
+
+function arrangeGrid(notes: LayoutNote[], gap: number, columns: number): Arrangement {
+  const cellWidth = Math.max(...notes.map(note => note.width));
+  const cellHeight = Math.max(...notes.map(note => note.height));
+  const rows = Math.ceil(notes.length / columns);
+
+  return {
+    notes: notes.map((note, i) => ({
+      ...note,
+      x: (i % columns) * (cellWidth + gap),
+      y: Math.floor(i / columns) * (cellHeight + gap)
+    })),
+    headers: [],
+    width: Math.min(columns, notes.length) * (cellWidth + gap) - gap,
+    height: rows * (cellHeight + gap) - gap
+  };
+}
+
+// Column order: the requested categories first, then the others in order of first appearance
+function columnOrder(notes: LayoutNote[], categories: string[], keepEmpty: boolean): string[] {
+  const used = new Set(notes.map(categoryOf));
+  const order = keepEmpty ? [...categories] : categories.filter(category => used.has(category));
+  used.forEach(category => !order.includes(category) && order.push(category));
+  return order;
+}
+
+function categoryOf(note: LayoutNote): string {
+  return note.category?.trim() || UNCATEGORIZED_COLUMN;
+}
+
+function arrangeColumns(notes: LayoutNote[], gap: number, categories: string[], withHeaders: boolean): Arrangement {
+  const defaultWidth = Math.max(...notes.map(note => note.width));
+  const top = withHeaders ? HEADER_HEIGHT + gap : 0;
+  const placed: PlacedNote[] = new Array(notes.length);
+  const headers: PlacedHeader[] = [];
+  let x = 0;
+  let height = withHeaders ? HEADER_HEIGHT : 0;
+
+  for (const category of columnOrder(notes, categories, withHeaders)) {
+    const members = notes.map((note, i) => ({ note, i })).filter(({ note }) => categoryOf(note) === category);
+    const columnWidth = members.length > 0 ? Math.max(...members.map(({ note }) => note.width)) : defaultWidth;
+    if (withHeaders) {
+      headers.push({ text: category, x, y: 0, width: columnWidth, height: HEADER_HEIGHT });
+    }
+
+    let y = top;
+    for (const { note, i } of members) {
+      placed[i] = { ...note, x, y };
+      y += note.height + gap;
+    }
+    height = Math.max(height, y - gap);
+    x += columnWidth + gap;
+  }
+
+  return { notes: placed, headers, width: x - gap, height };
+}
+
+// Notes on a circle centred on (0, 0), spaced so neighbours never touch
+function arrangeRadial(notes: LayoutNote[], radius: number): PlacedNote[] {
+  if (notes.length === 1 && radius === 0) {
+    return [{ ...notes[0], x: -notes[0].width / 2, y: -notes[0].height / 2 }];
+  }
+  return notes.map((note, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / notes.length;
+    return {
+      ...note,
+      x: Math.cos(angle) * radius - note.width / 2,
+      y: Math.sin(angle) * radius - note.height / 2
+    };
+  });
+}
+
+function minimumRadius(notes: LayoutNote[], gap: number): number {
+  const diagonal = Math.max(...notes.map(note => Math.hypot(note.width, note.height)));
+  if (notes.length === 1) return 0;
+  // Adjacent centres are 2r·sin(π/n) apart and need a note diagonal plus the gap between them
+  return Math.max(diagonal + gap, (diagonal + gap) / (2 * Math.sin(Math.PI / notes.length)));
+}
+
+function boundsOf(rects: Bounds[]): Bounds {
+  const minX = Math.min(...rects.map(rect => rect.x));
+  const minY = Math.min(...rects.map(rect => rect.y));
+  const maxX = Math.max(...rects.map(rect => rect.x + rect.width));
+  const maxY = Math.max(...rects.map(rect => rect.y + rect.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function translate<T extends { x: number; y: number }>(items: T[], dx: number, dy: number): T[] {
+  return items.map(item => ({ ...item, x: item.x + dx, y: item.y + dy }));
+}
+
+// Candidate offsets in square rings around the origin, nearest first
+function* ringOffsets(step: number): Generator<{ dx: number; dy: number }> {
+  yield { dx: 0, dy: 0 };
+  for (let ring = 1; ring <= MAX_SEARCH_RINGS; ring++) {
+    const offsets: { dx: number; dy: number }[] = [];
+    for (let i = -ring; i <= ring; i++) {
+      for (let j = -ring; j <= ring; j++) {
+        if (Math.max(Math.abs(i), Math.abs(j)) === ring) {
+          offsets.push({ dx: i * step, dy: j * step });
+        }
+      }
+    }
+    // Prefer moving right and down, where boards usually grow
+    offsets.sort((a, b) => Math.hypot(a.dx, a.dy) - Math.hypot(b.dx, b.dy) || (b.dx + b.dy) - (a.dx + a.dy));
+    yield* offsets;
+  }
+}
+
+// The empty parts of a board: everything not covered by an obstacle plus a gap around it
+export class FreeSpace {
+  private index: SpatialIndex<Bounds>;
+
+  constructor(obstacles: Bounds[], private readonly gap = DEFAULT_LAYOUT_GAP) {
+    this.index = new SpatialIndex(obstacles);
+  }
+
+  isFree(bounds: Bounds): boolean {
+    return this.index.search(expandBounds(bounds, Math.max(0, this.gap - 1))).length === 0;
+  }
+
+  allFree(rects: Bounds[]): boolean {
+    return rects.every(rect => this.isFree(rect));
+  }
+
+  // Marks a rectangle as taken, e.g. by a widget that is about to be created
+  reserve(bounds: Bounds): void {
+    this.index.insert(bounds);
+  }
+
+  // Top-left corner for a rectangle of this size: as close to a point as possible, or the first
+  // free spot in reading order inside a region
+  place(size: { width: number; height: number }, anchor: LayoutAnchor): { x: number; y: number } | undefined {
+    const { width, height } = size;
+    const fits = (x: number, y: number) => this.isFree({ x, y, width, height });
+
+    if (anchor.type === 'point') {
+      for (const { dx, dy } of ringOffsets(SCAN_STEP)) {
+        if (fits(anchor.x + dx, anchor.y + dy)) {
+          return { x: anchor.x + dx, y: anchor.y + dy };
+        }
+      }
+      return undefined;
+    }
+
+    const region = anchor.bounds;
+    for (let y = region.y + this.gap; y + height <= region.y + region.height - this.gap; y += SCAN_STEP) {
+      for (let x = region.x + this.gap; x + width <= region.x + region.width - this.gap; x += SCAN_STEP) {
+        if (fits(x, y)) {
+          return { x, y };
+        }
+      }
+    }
+    return undefined;
+  }
+}
+
+// Fills the free grid cells of a region in reading order, for regions that are already
+// partly used and have no single free block big enough for the whole grid
+function fillRegion(notes: LayoutNote[], region: Bounds, space: FreeSpace, gap: number): PlacedNote[] | undefined {
+  const cellWidth = Math.max(...notes.map(note => note.width));
+  const cellHeight = Math.max(...notes.map(note => note.height));
+  const placed: PlacedNote[] = [];
+
+  for (let y = region.y + gap; y + cellHeight <= region.y + region.height - gap && placed.length < notes.length; y += cellHeight + gap) {
+    for (let x = region.x + gap; x + cellWidth <= region.x + region.width - gap && placed.length < notes.length; x += cellWidth + gap) {
+      const note = notes[placed.length];
+      if (space.isFree({ x, y, width: cellWidth, height: cellHeight })) {
+        placed.push({ ...note, x, y });
+      }
+    }
+  }
+  return placed.length === notes.length ? placed : undefined;
+}
+
+function layoutRadial(notes: LayoutNote[], center: { x: number; y: number }, space: FreeSpace, gap: number, region?: Bounds): PlacedNote[] {
+  const minRadius = minimumRadius(notes, gap);
+  const step = Math.max(SCAN_STEP, Math.max(...notes.map(note => Math.max(note.width, note.height))) / 2);
+
+  for (let i = 0; i < MAX_RADIUS_STEPS; i++) {
+    const radius = minRadius + i * step;
+    const placed = translate(arrangeRadial(notes, radius), center.x, center.y);
+    if (region && !containsBounds(region, boundsOf(placed))) {
+      break;
+    }
+    if (space.allFree(placed)) {
+      return placed;
+    }
+  }
+  throw new MuralValidationError(
+    `Not enough free space for a radial layout of ${notes.length} sticky notes around (${Math.round(center.x)}, ${Math.round(center.y)})`
+  );
+}
+
+// Right of (or below) a rectangle, or of everything on the board; the origin on an empty board
+function besideAnchor(reference: Bounds | undefined, direction: FreeSpaceDirection, margin: number): Extract<LayoutAnchor, { type: 'point' }> {
+  if (!reference) {
+    return { type: 'point', x: 0, y: 0 };
+  }
+  return direction === 'below'
+    ? { type: 'point', x: reference.x, y: reference.y + reference.height + margin }
+    : { type: 'point', x: reference.x + reference.width + margin, y: reference.y };
+}
+
+// Computes non-overlapping positions for sticky notes. Notes keep their sizes; the layout is
+// placed at the anchor, moved to the nearest free spot when something is already there, and
+// kept inside the anchor region when one is given.
+export function layoutStickyNotes(notes: LayoutNote[], options: LayoutOptions): LayoutResult {
+  if (notes.length === 0) {
+    return { notes: [], headers: [], bounds: { x: 0, y: 0, width: 0, height: 0 } };
+  }
+
+  const gap = options.gap ?? DEFAULT_LAYOUT_GAP;
+  const obstacles = options.obstacles ?? [];
+  const space = new FreeSpace(obstacles, gap);
+  const explicitAnchor = options.anchor;
+  const anchor = explicitAnchor ?? besideAnchor(obstacles.length > 0 ? boundsOf(obstacles) : undefined, 'right', gap * 5);
+  const region = anchor.type === 'region' ? anchor.bounds : undefined;
+
+  if (options.layout === 'radial' && explicitAnchor) {
+    const center = anchor.type === 'region' ? centerOf(anchor.bounds) : { x: anchor.x, y: anchor.y };
+    const placed = layoutRadial(notes, center, space, gap, region);
+    return { notes: placed, headers: [], bounds: boundsOf(placed) };
+  }
+
+  let arrangement: Arrangement;
+  switch (options.layout) {
+    case 'columns':
+    case 'kanban':
+      arrangement = arrangeColumns(notes, gap, options.categories ?? [], options.layout === 'kanban');
+      break;
+    case 'radial': {
+      // Without an anchor the ring is treated as a block and placed like the other layouts
+      const ring = arrangeRadial(notes, minimumRadius(notes, gap));
+      const ringBounds = boundsOf(ring);
+      arrangement = { notes: translate(ring, -ringBounds.x, -ringBounds.y), headers: [], width: ringBounds.width, height: ringBounds.height };
+      break;
+    }
+    default: {
+      const cellWidth = Math.max(...notes.map(note => note.width));
+      const fitting = region ? Math.floor((region.width - gap) / (cellWidth + gap)) : undefined;
+      const columns = options.columns ?? fitting ?? Math.ceil(Math.sqrt(notes.length));
+      arrangement = arrangeGrid(notes, gap, Math.max(1, Math.min(columns, fitting ?? columns)));
+    }
+  }
+
+  const origin = space.place(arrangement, anchor);
+  if (origin) {
+    const placed = translate(arrangement.notes, origin.x, origin.y);
+    const headers = translate(arrangement.headers, origin.x, origin.y);
+    return { notes: placed, headers, bounds: { x: origin.x, y: origin.y, width: arrangement.width, height: arrangement.height } };
+  }
+
+  if (region && options.layout === 'grid') {
+    const placed = fillRegion(notes, region, space, gap);
+    if (placed) {
+      return { notes: placed, headers: [], bounds: boundsOf(placed) };
+    }
+  }
+
+  throw new MuralValidationError(anchor.type === 'region'
+    ? `Not enough free space in the ${Math.round(anchor.bounds.width)}x${Math.round(anchor.bounds.height)} region at (${Math.round(anchor.bounds.x)}, ${Math.round(anchor.bounds.y)}) for ${notes.length} sticky notes`
+    : `No free space found near (${Math.round(anchor.x)}, ${Math.round(anchor.y)}) for ${notes.length} sticky notes`);
+}
+
+export type FreeSpaceDirection = 'right' | 'below';
+
+export interface FreeSpaceRequest {
+  width: number;
+  height: number;
+  near?: Bounds;                  // Look next to this rectangle instead of next to all content
+  direction?: FreeSpaceDirection; // Which side to start looking on, defaults to 'right'
+  gap?: number;                   // Minimum distance from other widgets, defaults to 20
+}
+
+// The empty rectangle of the requested size nearest to the right of (or below) a widget or
+// the board's content
+export function findFreeSpace(obstacles: Bounds[], request: FreeSpaceRequest): Bounds {
+  const gap = request.gap ?? DEFAULT_LAYOUT_GAP;
+  const reference = request.near ?? (obstacles.length > 0 ? boundsOf(obstacles) : undefined);
+  const anchor = besideAnchor(reference, request.direction ?? 'right', gap);
+  const origin = new FreeSpace(obstacles, gap).place(request, anchor);
+  if (!origin) {
+    throw new MuralValidationError(`No free ${request.width}x${request.height} space found near (${Math.round(anchor.x)}, ${Math.round(anchor.y)})`);
+  }
+  return { x: origin.x, y: origin.y, width: request.width, height: request.height };
+}
@@ -0,0 +1,40 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { MuralValidationError } from './errors.js';
+
+// Resolves a path a tool was given: a leading ~ is the home directory and relative paths
+// start at the server's working directory
+export function resolveLocalPath(filePath: string): string {
+  return path.resolve(filePath.replace(/^~(?=$|[\\/])/, os.homedir()));
+}
+
+// Writes a file a tool was asked to produce, creating missing folders. An existing file is
+// only replaced with `overwrite`, so a mistyped path can't clobber something else.
+// Returns the resolved path.
+export async function writeLocalFile(filePath: string, contents: string, overwrite = false): Promise<string> {
+  const target = resolveLocalPath(filePath);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  try {
+    await fs.writeFile(target, contents, { encoding: 'utf8', flag: overwrite ? 'w' : 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new MuralValidationError(`${target} already exists; pass overwrite: true to replace it`);
+    }
+    throw error;
+  }
+  return target;
+}
+
+// Reads a local file a tool was pointed at
+export async function readLocalFile(filePath: string): Promise<{ path: string; contents: string }> {
+  const target = resolveLocalPath(filePath);
+  try {
+    return { path: target, contents: await fs.readFile(target, 'utf8') };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new MuralValidationError(`${target} does not exist`);
+    }
+    throw error;
+  }
+}
@@ -1,30 +1,202 @@
+import { randomBytes } from 'crypto';
 import type {
   MuralWorkspace,
   MuralBoard,
+  CreateMuralRequest,
+  UpdateMuralRequest,
+  DuplicateMuralRequest,
+  MuralRoom,
+  MuralTemplate,
+  CreateTemplateRequest,
+  CreateMuralFromTemplateRequest,
+  CreateRoomRequest,
+  UpdateRoomRequest,
   MuralUser,
   ScopeCheckResult,
   RateLimitConfig,
   MuralWidget,
   CreateStickyNoteRequest,
+  CreateTextBoxRequest,
+  CreateTitleRequest,
+  CreateShapeRequest,
+  CreateImageRequest,
+  CreateFileRequest,
+  CreateTableRequest,
+  CreateAreaRequest,
+  CreateArrowRequest,
   UpdateStickyNoteRequest,
+  UpdateTextBoxRequest,
+  UpdateTitleRequest,
+  UpdateShapeRequest,
+  UpdateImageRequest,
+  UpdateFileRequest,
+  UpdateAreaRequest,
+  UpdateArrowRequest,
+  UpdateCommentRequest,
+  UpdateWidgetRequest,
+  PaginationOptions,
+  PaginatedResult,
+  BulkItemResult,
+  BulkOptions,
+  WidgetUpdateItem,
+  Idempotent,
 } from './types.js';
 import { MuralOAuth } from './oauth.js';
+import { fetchTransport, type HttpTransport } from './transport.js';
 import { MuralRateLimiter } from './rate-limiter.js';
-
-const MURAL_API_BASE = 'https://app.mural.co/api/public/v1';
+import { settleWithConcurrency } from './concurrency.js';
+import { IdempotencyStore, widgetFingerprint, fingerprintFields } from './idempotency.js';
+import {
+  OperationJournal,
+  recreateRequest,
+  restoreFields,
+  type JournalEntry,
+  type JournalOperation,
+  type UndoResult
+} from './journal.js';
+import { SnapshotStore, type MuralSnapshot, type SnapshotInfo } from './snapshots.js';
+import { diffWidgets, type MuralDiff } from './mural-diff.js';
+import type { ImportPlan, PlannedWidget } from './board-import.js';
+import { widgetBounds, containsBounds, containsPoint } from './geometry.js';
+import {
+  layoutStickyNotes,
+  findFreeSpace,
+  FreeSpace,
+  DEFAULT_LAYOUT_GAP,
+  type LayoutAnchor,
+  type LayoutNote,
+  type LayoutOptions,
+  type LayoutResult,
+  type FreeSpaceDirection
+} from './layout.js';
+import type { Bounds } from './geometry.js';
+import {
+  MuralApiError,
+  MuralAuthError,
+  MuralScopeError,
+  MuralNotFoundError,
+  MuralValidationError,
+  MuralRateLimitError,
+  createApiError
+} from './errors.js';
+
+export const MURAL_API_BASE = 'https://app.mural.co/api/public/v1';
+
+// Where and how the client talks to Mural; every field defaults to the production API
+export interface MuralClientOptions {
+  transport?: HttpTransport;  // Used for both API and OAuth requests
+  apiBaseUrl?: string;        // Defaults to MURAL_API_BASE
+  oauthBaseUrl?: string;      // Defaults to MURAL_OAUTH_BASE
+  tokenFilePath?: string;     // Defaults to ~/.mural-mcp-tokens.json
+  idempotencyFilePath?: string; // Defaults to ~/.mural-mcp-idempotency.json
+  journalFilePath?: string;     // Defaults to ~/.mural-mcp-journal.json
+  snapshotDirectory?: string;   // Defaults to ~/.mural-mcp-snapshots
+}
+
+// Largest page size the list endpoints accept
+export const MAX_PAGE_SIZE = 100;
+
+// Maximum number of widgets accepted per creation request, keyed by widget endpoint
+export const WIDGET_BATCH_LIMITS = {
+  'sticky-note': 1000,
+  'text-box': 1000,
+  'title': 1000,
+  'shape': 1000,
+  'area': 1000,
+  'arrow': 1000,
+  'table': 100,
+  'image': 100,
+  'file': 100
+} as const;
+
+export type WidgetEndpointType = keyof typeof WIDGET_BATCH_LIMITS;
+
+// Widget endpoints that accept PATCH updates (tables cannot be updated through the API)
+export const UPDATABLE_WIDGET_TYPES = [
+  'sticky-note',
+  'text-box',
+  'title',
+  'shape',
+  'image',
+  'file',
+  'area',
+  'arrow',
+  'comment'
+] as const;
+
+export type UpdatableWidgetType = typeof UPDATABLE_WIDGET_TYPES[number];
+
+// Widgets report their type as e.g. "sticky note" while endpoints use "sticky-note"
+export function toWidgetEndpointType(widgetType: string): string {
+  return widgetType.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+// The endpoint type to PATCH a widget through; throws for types the API can't update
+export function updatableType(widget: MuralWidget): UpdatableWidgetType {
+  const widgetType = toWidgetEndpointType(widget.type || '');
+  if (!(UPDATABLE_WIDGET_TYPES as readonly string[]).includes(widgetType)) {
+    throw new MuralValidationError(`Widget ${widget.id} has type "${widget.type}", which cannot be updated. Supported types: ${UPDATABLE_WIDGET_TYPES.join(', ')}`);
+  }
+  return widgetType as UpdatableWidgetType;
+}
+
+// Bounds new widgets must keep clear of. An area containing the anchor is where the widgets
+// are meant to go, so it is a container rather than an obstacle.
+function obstaclesFor(widgets: MuralWidget[], anchor?: LayoutAnchor): Bounds[] {
+  return widgets
+    .filter(widget => {
+      if (!anchor || toWidgetEndpointType(widget.type || '') !== 'area') return true;
+      const bounds = widgetBounds(widget);
+      return anchor.type === 'point' ? !containsPoint(bounds, anchor.x, anchor.y) : !containsBounds(bounds, anchor.bounds);
+    })
+    .map(widgetBounds);
+}
 
 // Global authentication promise to prevent multiple concurrent auth flows
 let globalAuthPromise: Promise<string> | null = null;
 
+export const DEFAULT_BULK_CONCURRENCY = 5;
+
+// Gives each widget of a multi-request operation (import, layout, undo) its own idempotency
+// key, so a request that fails unclearly is retried without creating duplicates
+function withGeneratedKeys<T extends object>(prefix: string, widgets: T[]): Idempotent<T>[] {
+  const operationKey = `${prefix}-${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`;
+  return widgets.map((widget, i) => ({ ...widget, idempotencyKey: `${operationKey}-${i}` }));
+}
+
+function toBulkResults<T>(ids: string[], settled: PromiseSettledResult<T>[]): BulkItemResult<T>[] {
+  return settled.map((result, i) => result.status === 'fulfilled'
+    ? { id: ids[i], ok: true, value: result.value }
+    : { id: ids[i], ok: false, error: result.reason });
+}
+
 export class MuralClient {
   private oauth: MuralOAuth;
   private baseUrl: string;
   private rateLimiter: MuralRateLimiter;
-
-  constructor(clientId: string, clientSecret?: string, redirectUri?: string, rateLimitConfig?: Partial<RateLimitConfig>) {
-    this.oauth = new MuralOAuth(clientId, clientSecret, redirectUri);
-    this.baseUrl = MURAL_API_BASE;
+  private transport: HttpTransport;
+  private idempotencyKeys: IdempotencyStore;
+  private journal: OperationJournal;
+  private snapshots: SnapshotStore;
+
+  constructor(
+    clientId: string,
+    clientSecret?: string,
+    redirectUri?: string,
+    rateLimitConfig?: Partial<RateLimitConfig>,
+    options: MuralClientOptions = {}
+  ) {
+    this.transport = options.transport ?? fetchTransport;
+    this.oauth = new MuralOAuth(clientId, clientSecret, redirectUri, undefined, {
+      transport: this.transport,
+      oauthBaseUrl: options.oauthBaseUrl,
+      tokenFilePath: options.tokenFilePath
+    });
+    this.baseUrl = (options.apiBaseUrl ?? MURAL_API_BASE).replace(/\/+$/, '');
     this.rateLimiter = new MuralRateLimiter(rateLimitConfig);
+    this.idempotencyKeys = new IdempotencyStore(options.idempotencyFilePath);
+    this.journal = new OperationJournal(options.journalFilePath);
+    this.snapshots = new SnapshotStore(options.snapshotDirectory);
   }
 
   private async getAccessToken(): Promise<string> {
@@ -55,24 +227,39 @@ export class MuralClient {
       const rateLimitCheck = await this.rateLimiter.canMakeRequest();
       if (!rateLimitCheck.allowed) {
         if (rateLimitCheck.waitTimeMs && rateLimitCheck.waitTimeMs <= 5000) {
-          // If wait time is reasonable (≤5s), wait and retry
+          // If wait time is reasonable (≤5s), wait and try again. Nothing was sent, so this
+          // doesn't count as a retry; concurrent bulk requests can wait here several times.
           console.warn(`Rate limit hit: ${rateLimitCheck.reason}. Waiting ${rateLimitCheck.waitTimeMs}ms...`);
           await new Promise(resolve => setTimeout(resolve, rateLimitCheck.waitTimeMs!));
+          attempt--;
           continue;
         } else {
           // If wait time is too long or not available, throw error
-          throw new Error(`Rate limit exceeded: ${rateLimitCheck.reason}`);
+          throw new MuralRateLimitError(`Rate limit exceeded: ${rateLimitCheck.reason}`, {
+            endpoint,
+            retryAfterMs: rateLimitCheck.waitTimeMs
+          });
         }
       }
 
-      // Consume rate limit token
+      // Consume rate limit token. A concurrent request can take the last token between the
+      // check above and here; check again (and wait) instead of failing or using up a retry.
       const consumed = await this.rateLimiter.consumeRequest();
       if (!consumed) {
-        throw new Error('Failed to consume rate limit token');
+        attempt--;
+        continue;
       }
 
       try {
-        const accessToken = await this.getAccessToken();
+        let accessToken: string;
+        try {
+          accessToken = await this.getAccessToken();
+        } catch (error) {
+          throw new MuralAuthError(`Authentication failed: ${error instanceof Error ? error.message : String(error)}`, {
+            endpoint,
+            cause: error
+          });
+        }
 
         const url = `${this.baseUrl}${endpoint}`;
         const headers = {
@@ -82,10 +269,20 @@ export class MuralClient {
           ...options.headers
         };
 
-        const response = await fetch(url, {
-          ...options,
-          headers
-        });
+        let response: Response;
+        try {
+          response = await this.transport(url, {
+            ...options,
+            headers
+          });
+        } catch (error) {
+          throw new MuralApiError(`Network request failed: ${error instanceof Error ? error.message : String(error)}`, 'NETWORK_ERROR', {
+            endpoint,
+            cause: error
+          });
+        }
+
+        const requestId = response.headers.get('x-request-id') ?? undefined;
 
         // Handle rate limit responses from the API
         if (response.status === 429) {
@@ -97,15 +294,21 @@ export class MuralClient {
             await new Promise(resolve => setTimeout(resolve, waitTime));
             continue;
           } else {
-            throw new Error(`API rate limit exceeded (HTTP 429). Max retries reached or wait time too long.`);
+            throw new MuralRateLimitError(`API rate limit exceeded (HTTP 429). Max retries reached or wait time too long.`, {
+              status: 429,
+              endpoint,
+              requestId,
+              retryAfterMs: waitTime
+            });
           }
         }
 
         if (!response.ok) {
           let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+          let errorData: any;
 
           try {
-            const errorData = await response.json();
+            errorData = await response.json();
             if (errorData.message) {
               errorMessage += ` - ${errorData.message}`;
             }
@@ -116,32 +319,22 @@ export class MuralClient {
             // If error response isn't JSON, use status text
           }
 
-          // Don't retry on client errors (4xx except 429) or auth errors
-          if (response.status >= 400 && response.status < 500 && response.status !== 429) {
-            throw new Error(`Mural API request failed: ${errorMessage}`);
-          }
-
-          // Retry on server errors (5xx) with exponential backoff
-          if (attempt < maxRetries && response.status >= 500) {
-            const backoffTime = Math.pow(2, attempt) * 1000;
-            console.warn(`Server error (${response.status}). Retrying after ${backoffTime}ms... (attempt ${attempt + 1}/${maxRetries + 1})`);
-            await new Promise(resolve => setTimeout(resolve, backoffTime));
-            continue;
-          }
-
-          throw new Error(`Mural API request failed: ${errorMessage}`);
+          // Server errors are retryable, so the catch below backs off and tries again
+          throw createApiError(response.status, `Mural API request failed: ${errorMessage}`, {
+            endpoint,
+            requestId: requestId ?? errorData?.requestId,
+            apiCode: typeof errorData?.code === 'string' ? errorData.code : undefined,
+            details: errorData
+          });
         }
 
-        const data = await response.json();
-        return data as T;
+        // DELETE and some PATCH endpoints answer with an empty body
+        const body = await response.text();
+        return (body ? JSON.parse(body) : undefined) as T;
 
       } catch (error) {
         // If it's our last attempt or a non-retryable error, throw
-        if (attempt === maxRetries || error instanceof Error && (
-          error.message.includes('Rate limit exceeded') ||
-          error.message.includes('authentication') ||
-          error.message.includes('authorization')
-        )) {
+        if (attempt === maxRetries || (error instanceof MuralApiError && !error.retryable)) {
           throw error;
         }
 
@@ -152,25 +345,58 @@ export class MuralClient {
       }
     }
 
-    throw new Error('Max retries exceeded');
+    throw new MuralApiError('Max retries exceeded', 'API_ERROR', { endpoint });
   }
 
-  async getWorkspaces(limit?: number, offset?: number): Promise<MuralWorkspace[]> {
-    const params = new URLSearchParams();
-    if (limit !== undefined) {
-      params.append('limit', limit.toString());
-    }
-    if (offset !== undefined) {
-      params.append('offset', offset.toString());
-    }
+  // Fetches one page, or follows `next` cursors when fetchAll is set, until the API runs out of
+  // pages or the caller's limit is reached. The returned cursor resumes where this call stopped.
+  private async paginate<T>(
+    endpoint: string,
+    options: PaginationOptions = {},
+    extraParams: Record<string, string> = {}
+  ): Promise<PaginatedResult<T>> {
+    const items: T[] = [];
+    const seenCursors = new Set<string>();
+    let cursor = options.cursor;
+
+    do {
+      const params = new URLSearchParams(extraParams);
+      if (options.limit !== undefined) {
+        params.set('limit', Math.min(options.limit - items.length, MAX_PAGE_SIZE).toString());
+      }
+      if (cursor) {
+        seenCursors.add(cursor);
+        params.set('next', cursor);
+      }
+
+      const queryString = params.toString();
+      const response = await this.makeAuthenticatedRequest<any>(`${endpoint}${queryString ? `?${queryString}` : ''}`);
+
+      // The API response structure may vary, handle both direct array and wrapped response
+      const page = Array.isArray(response)
+        ? response
+        : response?.value || response?.murals || response?.widgets || [];
+      if (Array.isArray(page)) {
+        items.push(...page);
+      }
 
-    const queryString = params.toString();
-    const endpoint = `/workspaces${queryString ? `?${queryString}` : ''}`;
+      const next = !Array.isArray(response) && typeof response?.next === 'string' && response.next ? response.next : undefined;
+      // Stop on repeated cursors or empty pages so a misbehaving API can't loop us forever
+      cursor = next && !seenCursors.has(next) && (!Array.isArray(page) || page.length > 0) ? next : undefined;
+    } while (options.fetchAll && cursor && (options.limit === undefined || items.length < options.limit));
 
+    return { items, next: cursor };
+  }
+
+  async getWorkspaces(limit?: number, offset?: number): Promise<MuralWorkspace[]> {
+    const { items } = await this.getWorkspacesPage({ limit }, offset);
+    return items;
+  }
+
+  async getWorkspacesPage(options: PaginationOptions = {}, offset?: number): Promise<PaginatedResult<MuralWorkspace>> {
     try {
-      const response = await this.makeAuthenticatedRequest<any>(endpoint);
       // The API returns workspaces in a "value" property
-      return response.value && Array.isArray(response.value) ? response.value : [];
+      return await this.paginate<MuralWorkspace>('/workspaces', options, offset !== undefined ? { offset: offset.toString() } : {});
     } catch (error) {
       console.error('Failed to fetch workspaces:', error);
       throw error;
@@ -179,8 +405,8 @@ export class MuralClient {
 
   async getWorkspace(workspaceId: string): Promise<MuralWorkspace> {
     try {
-      const workspace = await this.makeAuthenticatedRequest<MuralWorkspace>(`/workspaces/${workspaceId}`);
-      return workspace;
+      const response = await this.makeAuthenticatedRequest<any>(`/workspaces/${workspaceId}`);
+      return response.value || response;
     } catch (error) {
       console.error(`Failed to fetch workspace ${workspaceId}:`, error);
       throw error;
@@ -212,26 +438,21 @@ export class MuralClient {
   }
 
   async getWorkspaceMurals(workspaceId: string): Promise<MuralBoard[]> {
+    const { items } = await this.getWorkspaceMuralsPage(workspaceId, { fetchAll: true });
+    return items;
+  }
+
+  async getWorkspaceMuralsPage(workspaceId: string, options: PaginationOptions = {}): Promise<PaginatedResult<MuralBoard>> {
     try {
-      // Check if user has required scope first
-      const scopeCheck = await this.checkScope('murals:read');
-      if (!scopeCheck.hasScope) {
-        throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:read' scope and re-authenticate.`);
-      }
+      await this.requireScope('murals:read');
 
       // Try RESTful endpoint (legacy endpoints appear to be deprecated/non-existent)
-      const response = await this.makeAuthenticatedRequest<any>(`/workspaces/${workspaceId}/murals`);
-
-      // The API response structure may vary, handle both direct array and wrapped response
-      const murals = response.value || response.murals || response;
-      return Array.isArray(murals) ? murals : [];
+      return await this.paginate<MuralBoard>(`/workspaces/${workspaceId}/murals`, options);
     } catch (error) {
-      // Check if error is scope-related and provide helpful message
-      if (error instanceof Error) {
-        if (error.message.includes('403') || error.message.includes('scope')) {
-          const scopeCheck = await this.checkScope('murals:read');
-          throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:read' scope and re-authenticate.`);
-        }
+      // A 403 from the API means the token lacks the scope; report which one and what the token has
+      if (error instanceof MuralScopeError && !error.requiredScope) {
+        const scopeCheck = await this.checkScope('murals:read');
+        throw MuralScopeError.fromScopeCheck(scopeCheck, { status: error.status, endpoint: error.endpoint, requestId: error.requestId, cause: error });
       }
       console.error(`Failed to fetch murals for workspace ${workspaceId}:`, error);
       throw error;
@@ -239,26 +460,21 @@ export class MuralClient {
   }
 
   async getRoomMurals(roomId: string): Promise<MuralBoard[]> {
+    const { items } = await this.getRoomMuralsPage(roomId, { fetchAll: true });
+    return items;
+  }
+
+  async getRoomMuralsPage(roomId: string, options: PaginationOptions = {}): Promise<PaginatedResult<MuralBoard>> {
     try {
-      // Check if user has required scope first
-      const scopeCheck = await this.checkScope('murals:read');
-      if (!scopeCheck.hasScope) {
-        throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:read' scope and re-authenticate.`);
-      }
+      await this.requireScope('murals:read');
 
       // Try RESTful endpoint (legacy endpoints appear to be deprecated/non-existent)
-      const response = await this.makeAuthenticatedRequest<any>(`/rooms/${roomId}/murals`);
-
-      // The API response structure may vary, handle both direct array and wrapped response
-      const murals = response.value || response.murals || response;
-      return Array.isArray(murals) ? murals : [];
+      return await this.paginate<MuralBoard>(`/rooms/${roomId}/murals`, options);
     } catch (error) {
-      // Check if error is scope-related and provide helpful message
-      if (error instanceof Error) {
-        if (error.message.includes('403') || error.message.includes('scope')) {
-          const scopeCheck = await this.checkScope('murals:read');
-          throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:read' scope and re-authenticate.`);
-        }
+      // A 403 from the API means the token lacks the scope; report which one and what the token has
+      if (error instanceof MuralScopeError && !error.requiredScope) {
+        const scopeCheck = await this.checkScope('murals:read');
+        throw MuralScopeError.fromScopeCheck(scopeCheck, { status: error.status, endpoint: error.endpoint, requestId: error.requestId, cause: error });
       }
       console.error(`Failed to fetch murals for room ${roomId}:`, error);
       throw error;
@@ -267,31 +483,83 @@ export class MuralClient {
 
   async getMural(muralId: string): Promise<MuralBoard> {
     try {
-      // Check if user has required scope first
-      const scopeCheck = await this.checkScope('murals:read');
-      if (!scopeCheck.hasScope) {
-        throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:read' scope and re-authenticate.`);
-      }
+      await this.requireScope('murals:read');
 
-      const mural = await this.makeAuthenticatedRequest<MuralBoard>(`/murals/${muralId}`);
-      return mural;
+      const response = await this.makeAuthenticatedRequest<any>(`/murals/${muralId}`);
+      return response.value || response;
     } catch (error) {
-      // Check if error is scope-related and provide helpful message
-      if (error instanceof Error) {
-        if (error.message.includes('403') || error.message.includes('scope')) {
-          const scopeCheck = await this.checkScope('murals:read');
-          throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:read' scope and re-authenticate.`);
-        }
+      // A 403 from the API means the token lacks the scope; report which one and what the token has
+      if (error instanceof MuralScopeError && !error.requiredScope) {
+        const scopeCheck = await this.checkScope('murals:read');
+        throw MuralScopeError.fromScopeCheck(scopeCheck, { status: error.status, endpoint: error.endpoint, requestId: error.requestId, cause: error });
       }
       console.error(`Failed to fetch mural ${muralId}:`, error);
       throw error;
     }
   }
 
+  async createMural(mural: CreateMuralRequest): Promise<MuralBoard> {
+    try {
+      await this.requireScope('murals:write');
+
+      const response = await this.makeAuthenticatedRequest<any>('/murals', {
+        method: 'POST',
+        body: JSON.stringify(mural)
+      });
+      return response.value || response;
+    } catch (error) {
+      console.error(`Failed to create mural in room ${mural.roomId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateMural(muralId: string, updates: UpdateMuralRequest): Promise<MuralBoard> {
+    try {
+      await this.requireScope('murals:write');
+
+      const response = await this.makeAuthenticatedRequest<any>(`/murals/${encodeURIComponent(muralId)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(updates)
+      });
+      return response.value || response;
+    } catch (error) {
+      console.error(`Failed to update mural ${muralId}:`, error);
+      throw error;
+    }
+  }
+
+  async duplicateMural(muralId: string, options: DuplicateMuralRequest = {}): Promise<MuralBoard> {
+    try {
+      await this.requireScope('murals:write');
+
+      const response = await this.makeAuthenticatedRequest<any>(`/murals/${encodeURIComponent(muralId)}/duplicate`, {
+        method: 'POST',
+        body: JSON.stringify(options)
+      });
+      return response.value || response;
+    } catch (error) {
+      console.error(`Failed to duplicate mural ${muralId}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteMural(muralId: string): Promise<void> {
+    try {
+      await this.requireScope('murals:write');
+
+      await this.makeAuthenticatedRequest<void>(`/murals/${encodeURIComponent(muralId)}`, {
+        method: 'DELETE'
+      });
+    } catch (error) {
+      console.error(`Failed to delete mural ${muralId}:`, error);
+      throw error;
+    }
+  }
+
   async getCurrentUser(): Promise<MuralUser> {
     try {
-      const user = await this.makeAuthenticatedRequest<MuralUser>(`/users/me`);
-      return user;
+      const response = await this.makeAuthenticatedRequest<any>(`/users/me`);
+      return response.value || response;
     } catch (error) {
       console.error('Failed to fetch current user:', error);
       throw error;
@@ -336,6 +604,14 @@ export class MuralClient {
     }
   }
 
+  // Throws a MuralScopeError naming the missing scope, before any request is made
+  private async requireScope(requiredScope: string): Promise<void> {
+    const scopeCheck = await this.checkScope(requiredScope);
+    if (!scopeCheck.hasScope) {
+      throw MuralScopeError.fromScopeCheck(scopeCheck);
+    }
+  }
+
   async checkScope(requiredScope: string): Promise<ScopeCheckResult> {
     try {
       const availableScopes = await this.getUserScopes();
@@ -370,7 +646,7 @@ export class MuralClient {
     };
 
     try {
-      const response = await fetch(url, { headers });
+      const response = await this.transport(url, { headers });
 
       const debugInfo = {
         url,
@@ -404,21 +680,168 @@ export class MuralClient {
     }
   }
 
+  // ============================================================================
+  // ROOM API METHODS
+  // ============================================================================
+
+  async getWorkspaceRooms(workspaceId: string): Promise<MuralRoom[]> {
+    const { items } = await this.getWorkspaceRoomsPage(workspaceId, { fetchAll: true });
+    return items;
+  }
+
+  async getWorkspaceRoomsPage(workspaceId: string, options: PaginationOptions = {}): Promise<PaginatedResult<MuralRoom>> {
+    try {
+      await this.requireScope('rooms:read');
+
+      return await this.paginate<MuralRoom>(`/workspaces/${encodeURIComponent(workspaceId)}/rooms`, options);
+    } catch (error) {
+      console.error(`Failed to fetch rooms for workspace ${workspaceId}:`, error);
+      throw error;
+    }
+  }
+
+  async getRoom(roomId: string): Promise<MuralRoom> {
+    try {
+      await this.requireScope('rooms:read');
+
+      const response = await this.makeAuthenticatedRequest<any>(`/rooms/${encodeURIComponent(roomId)}`);
+      return response.value || response;
+    } catch (error) {
+      console.error(`Failed to fetch room ${roomId}:`, error);
+      throw error;
+    }
+  }
+
+  async createRoom(room: CreateRoomRequest): Promise<MuralRoom> {
+    try {
+      await this.requireScope('rooms:write');
+
+      const response = await this.makeAuthenticatedRequest<any>('/rooms', {
+        method: 'POST',
+        body: JSON.stringify(room)
+      });
+      return response.value || response;
+    } catch (error) {
+      console.error(`Failed to create room in workspace ${room.workspaceId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateRoom(roomId: string, updates: UpdateRoomRequest): Promise<MuralRoom> {
+    try {
+      await this.requireScope('rooms:write');
+
+      const response = await this.makeAuthenticatedRequest<any>(`/rooms/${encodeURIComponent(roomId)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(updates)
+      });
+      return response.value || response;
+    } catch (error) {
+      console.error(`Failed to update room ${roomId}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    try {
+      await this.requireScope('rooms:write');
+
+      await this.makeAuthenticatedRequest<void>(`/rooms/${encodeURIComponent(roomId)}`, {
+        method: 'DELETE'
+      });
+    } catch (error) {
+      console.error(`Failed to delete room ${roomId}:`, error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // TEMPLATE API METHODS
+  // ============================================================================
+
+  // Without a workspace the API only returns Mural's default templates; with one it also
+  // includes the workspace's custom templates
+  async getTemplatesPage(workspaceId?: string, options: PaginationOptions = {}): Promise<PaginatedResult<MuralTemplate>> {
+    try {
+      await this.requireScope('templates:read');
+
+      const endpoint = workspaceId ? `/workspaces/${encodeURIComponent(workspaceId)}/templates` : '/templates';
+      return await this.paginate<MuralTemplate>(endpoint, options);
+    } catch (error) {
+      console.error(`Failed to fetch templates${workspaceId ? ` for workspace ${workspaceId}` : ''}:`, error);
+      throw error;
+    }
+  }
+
+  async searchTemplatesPage(workspaceId: string, query: string, options: PaginationOptions = {}): Promise<PaginatedResult<MuralTemplate>> {
+    try {
+      await this.requireScope('templates:read');
+
+      return await this.paginate<MuralTemplate>(`/search/${encodeURIComponent(workspaceId)}/templates`, options, { q: query });
+    } catch (error) {
+      console.error(`Failed to search templates in workspace ${workspaceId}:`, error);
+      throw error;
+    }
+  }
+
+  async createTemplate(template: CreateTemplateRequest): Promise<MuralTemplate> {
+    try {
+      await this.requireScope('templates:write');
+
+      const response = await this.makeAuthenticatedRequest<any>('/templates', {
+        method: 'POST',
+        body: JSON.stringify(template)
+      });
+      return response.value || response;
+    } catch (error) {
+      console.error(`Failed to create template from mural ${template.muralId}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteTemplate(templateId: string): Promise<void> {
+    try {
+      await this.requireScope('templates:write');
+
+      await this.makeAuthenticatedRequest<void>(`/templates/${encodeURIComponent(templateId)}`, {
+        method: 'DELETE'
+      });
+    } catch (error) {
+      console.error(`Failed to delete template ${templateId}:`, error);
+      throw error;
+    }
+  }
+
+  async createMuralFromTemplate(templateId: string, options: CreateMuralFromTemplateRequest): Promise<MuralBoard> {
+    try {
+      await this.requireScope('murals:write');
+
+      const response = await this.makeAuthenticatedRequest<any>(`/templates/${encodeURIComponent(templateId)}/murals`, {
+        method: 'POST',
+        body: JSON.stringify(options)
+      });
+      return response.value || response;
+    } catch (error) {
+      console.error(`Failed to create mural from template ${templateId}:`, error);
+      throw error;
+    }
+  }
+
   // ============================================================================
   // CONTENT API METHODS
   // ============================================================================
 
   // Widget operations
   async getMuralWidgets(muralId: string): Promise<MuralWidget[]> {
+    const { items } = await this.getMuralWidgetsPage(muralId, { fetchAll: true });
+    return items;
+  }
+
+  async getMuralWidgetsPage(muralId: string, options: PaginationOptions = {}): Promise<PaginatedResult<MuralWidget>> {
     try {
-      const scopeCheck = await this.checkScope('murals:read');
-      if (!scopeCheck.hasScope) {
-        throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:read' scope and re-authenticate.`);
-      }
+      await this.requireScope('murals:read');
 
-      const response = await this.makeAuthenticatedRequest<any>(`/murals/${encodeURIComponent(muralId)}/widgets`);
-      const widgets = response.value || response.widgets || response;
-      return Array.isArray(widgets) ? widgets : [];
+      return await this.paginate<MuralWidget>(`/murals/${encodeURIComponent(muralId)}/widgets`, options);
     } catch (error) {
       console.error(`Failed to fetch widgets for mural ${muralId}:`, error);
       throw error;
@@ -427,25 +850,28 @@ export class MuralClient {
 
   async getMuralWidget(muralId: string, widgetId: string): Promise<MuralWidget> {
     try {
-      const scopeCheck = await this.checkScope('murals:read');
-      if (!scopeCheck.hasScope) {
-        throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:read' scope and re-authenticate.`);
-      }
+      await this.requireScope('murals:read');
 
-      const response = await this.makeAuthenticatedRequest<MuralWidget>(`/murals/${encodeURIComponent(muralId)}/widgets/${encodeURIComponent(widgetId)}`);
-      return response;
+      const response = await this.makeAuthenticatedRequest<any>(`/murals/${encodeURIComponent(muralId)}/widgets/${encodeURIComponent(widgetId)}`);
+      return response.value || response;
     } catch (error) {
       console.error(`Failed to fetch widget ${widgetId} from mural ${muralId}:`, error);
       throw error;
     }
   }
 
+  // Takes a snapshot of the widget first so the delete can be undone
   async deleteWidget(muralId: string, widgetId: string): Promise<void> {
+    await this.requireScope('murals:write');
+
+    const before = await this.getMuralWidget(muralId, widgetId);
+    await this.removeWidget(muralId, widgetId);
+    await this.journal.record(muralId, 'delete', [{ widgetId, widgetType: before.type, before }]);
+  }
+
+  private async removeWidget(muralId: string, widgetId: string): Promise<void> {
     try {
-      const scopeCheck = await this.checkScope('murals:write');
-      if (!scopeCheck.hasScope) {
-        throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:write' scope and re-authenticate.`);
-      }
+      await this.requireScope('murals:write');
 
       await this.makeAuthenticatedRequest<void>(`/murals/${encodeURIComponent(muralId)}/widgets/${encodeURIComponent(widgetId)}`, {
         method: 'DELETE'
@@ -456,42 +882,442 @@ export class MuralClient {
     }
   }
 
+  // Deletes widgets a few at a time (every request still goes through the rate limiter).
+  // Never throws for a single widget: each gets its own result. The widgets deleted are
+  // journaled as one operation.
+  async deleteWidgets(muralId: string, widgetIds: string[], options: BulkOptions = {}): Promise<BulkItemResult<void>[]> {
+    await this.requireScope('murals:write');
+
+    const existing = new Map((await this.getMuralWidgets(muralId)).map(widget => [widget.id, widget]));
+    const settled = await settleWithConcurrency(widgetIds, options.concurrency ?? DEFAULT_BULK_CONCURRENCY, async widgetId => {
+      if (!existing.has(widgetId)) {
+        throw new MuralNotFoundError(`Widget ${widgetId} not found in mural ${muralId}`);
+      }
+      await this.removeWidget(muralId, widgetId);
+    });
+
+    const results = toBulkResults(widgetIds, settled);
+    await this.journal.record(muralId, 'delete', results
+      .filter(result => result.ok)
+      .map(({ id }) => ({ widgetId: id, widgetType: existing.get(id)!.type, before: existing.get(id) })));
+    return results;
+  }
+
+  // Updates widgets of any updatable type a few at a time. Types come from a single widget
+  // listing rather than a lookup per widget, which halves the requests compared to updateWidget.
+  async updateWidgets(
+    muralId: string,
+    items: WidgetUpdateItem[],
+    options: BulkOptions = {}
+  ): Promise<BulkItemResult<{ widget: MuralWidget; widgetType: UpdatableWidgetType }>[]> {
+    await this.requireScope('murals:write');
+
+    const existing = new Map((await this.getMuralWidgets(muralId)).map(widget => [widget.id, widget]));
+    const settled = await settleWithConcurrency(items, options.concurrency ?? DEFAULT_BULK_CONCURRENCY, async ({ widgetId, updates }) => {
+      const current = existing.get(widgetId);
+      if (!current) {
+        throw new MuralNotFoundError(`Widget ${widgetId} not found in mural ${muralId}`);
+      }
+      const widgetType = updatableType(current);
+      const widget = await this.sendPatch(muralId, widgetType, widgetId, updates, current.type);
+      return { widget, widgetType };
+    });
+
+    const results = toBulkResults(items.map(item => item.widgetId), settled);
+    await this.journal.record(muralId, 'update', items
+      .filter((_, i) => results[i].ok)
+      .map(({ widgetId, updates }) => {
+        const before = existing.get(widgetId)!;
+        return { widgetId, widgetType: before.type, before, changes: { ...updates } };
+      }));
+    return results;
+  }
+
   // Widget creation methods
-  async createStickyNotes(muralId: string, stickyNotes: CreateStickyNoteRequest[]): Promise<MuralWidget[]> {
+  // Undo re-creates deleted widgets through here with `journal` off, so undoing isn't itself
+  // recorded as an operation
+  private async createWidgets<T extends object>(
+    muralId: string,
+    widgetType: WidgetEndpointType,
+    widgets: Idempotent<T>[],
+    label: string,
+    journal = true
+  ): Promise<MuralWidget[]> {
     try {
-      const scopeCheck = await this.checkScope('murals:write');
-      if (!scopeCheck.hasScope) {
-        throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:write' scope and re-authenticate.`);
+      await this.requireScope('murals:write');
+
+      const maxPerRequest = WIDGET_BATCH_LIMITS[widgetType];
+      if (widgets.length > maxPerRequest) {
+        throw new MuralValidationError(`Maximum ${maxPerRequest} ${label} per request`);
       }
 
-      if (stickyNotes.length > 1000) {
-        throw new Error('Maximum 1000 sticky notes per request');
+      let created: MuralWidget[];
+      let reused = new Set<string>();
+      if (widgets.some(widget => widget.idempotencyKey)) {
+        ({ created, reused } = await this.createWidgetsIdempotently(muralId, widgetType, widgets));
+      } else {
+        // No automatic retries: without keys, a resent POST can't tell whether the first one
+        // created the widgets and would duplicate them
+        const response = await this.makeAuthenticatedRequest<any>(`/murals/${encodeURIComponent(muralId)}/widgets/${widgetType}`, {
+          method: 'POST',
+          body: JSON.stringify(widgets)
+        }, 0);
+        created = response.value || response || [];
       }
 
-      const response = await this.makeAuthenticatedRequest<any>(`/murals/${encodeURIComponent(muralId)}/widgets/sticky-note`, {
-        method: 'POST',
-        body: JSON.stringify(stickyNotes)
+      if (journal) {
+        // Widgets an earlier call already created (and journaled) under the same keys aren't new
+        await this.journal.record(muralId, 'create', created
+          .filter(widget => widget?.id && !reused.has(widget.id))
+          .map(widget => ({ widgetId: widget.id, widgetType: widget.type || widgetType })));
+      }
+      return created;
+    } catch (error) {
+      console.error(`Failed to create ${label} for mural ${muralId}:`, error);
+      throw error;
+    }
+  }
+
+  // Creates widgets so that neither a retry after an unclear failure (network error, 5xx)
+  // nor a repeated call with the same keys creates duplicates. Keys are recorded before the
+  // request is sent; before every retry, and for keys an earlier call left pending, the
+  // mural is checked for widgets matching the request, which are then returned instead.
+  // `reused` holds the IDs of widgets a previous call created under the same keys.
+  private async createWidgetsIdempotently<T extends object>(
+    muralId: string,
+    widgetType: WidgetEndpointType,
+    widgets: Idempotent<T>[]
+  ): Promise<{ created: MuralWidget[]; reused: Set<string> }> {
+    const keys = widgets.map(widget => widget.idempotencyKey);
+    const duplicate = keys.find((key, i) => key && keys.indexOf(key) !== i);
+    if (duplicate) {
+      throw new MuralValidationError(`Idempotency key "${duplicate}" is used more than once in the same request`);
+    }
+
+    const payload = widgets.map(({ idempotencyKey, ...widget }) => widget);
+    // Content only: a repeated call may place the same widget elsewhere (placement "auto")
+    const fingerprints = payload.map(widget => widgetFingerprint(widgetType, widget, fingerprintFields(widget, false)));
+    const results: (MuralWidget | undefined)[] = Array.from(widgets, () => undefined);
+    const since: number[] = new Array(widgets.length).fill(Date.now());
+
+    // Keys seen before: reuse what they created, or look for what a pending attempt created
+    const pending: number[] = [];
+    const reused = new Set<string>();
+    let board: Map<string, MuralWidget> | undefined;
+    for (const [i, key] of keys.entries()) {
+      const record = key ? await this.idempotencyKeys.get(muralId, key) : undefined;
+      if (!key || !record) continue;
+
+      if (record.fingerprint !== fingerprints[i]) {
+        throw new MuralValidationError(`Idempotency key "${key}" was already used for a different widget in mural ${muralId}`);
+      }
+      if (record.status === 'created') {
+        board ??= new Map((await this.getMuralWidgets(muralId)).map(widget => [widget.id, widget]));
+        results[i] = board.get(record.widgetId!);
+        if (results[i]) {
+          reused.add(record.widgetId!);
+        } else {
+          // Deleted since; the key is free to create it again
+          await this.idempotencyKeys.forget(muralId, [key]);
+        }
+      } else {
+        pending.push(i);
+        since[i] = record.startedAt;
+      }
+    }
+    if (pending.length > 0) {
+      await this.adoptCreatedWidgets(muralId, widgetType, pending, payload, since, keys, results, false);
+    }
+
+    const maxRetries = 3;
+    for (let attempt = 0; ; attempt++) {
+      const remaining = results.flatMap((result, i) => result ? [] : [i]);
+      if (remaining.length === 0) break;
+
+      const keyed = remaining.filter(i => keys[i]);
+      await this.idempotencyKeys.markPending(muralId, keyed.map(i => ({ key: keys[i]!, fingerprint: fingerprints[i] })));
+
+      try {
+        // No automatic retries: a retry must first check what the failed attempt created
+        const response = await this.makeAuthenticatedRequest<any>(`/murals/${encodeURIComponent(muralId)}/widgets/${widgetType}`, {
+          method: 'POST',
+          body: JSON.stringify(remaining.map(i => payload[i]))
+        }, 0);
+        const created: MuralWidget[] = response.value || response || [];
+        remaining.forEach((i, j) => { results[i] = created[j]; });
+        await this.idempotencyKeys.markCreated(muralId, keyed
+          .filter(i => results[i]?.id)
+          .map(i => ({ key: keys[i]!, widgetId: results[i]!.id })));
+      } catch (error) {
+        const unclear = error instanceof MuralApiError && error.retryable;
+        const throttled = error instanceof MuralRateLimitError;
+        if (attempt >= maxRetries || (!unclear && !throttled)) {
+          if (!unclear) {
+            // The request was rejected outright, so nothing was created under these keys
+            await this.idempotencyKeys.forget(muralId, keyed.map(i => keys[i]!));
+          }
+          throw error;
+        }
+
+        const waitTime = (throttled && error.retryAfterMs) || Math.pow(2, attempt) * 1000;
+        console.warn(`Creating widgets failed (${(error as Error).message}). Checking for widgets created anyway and retrying in ${waitTime}ms...`);
+        await new Promise(resolve => setTimeout(resolve, waitTime));
+        if (unclear) {
+          await this.adoptCreatedWidgets(muralId, widgetType, remaining, payload, since, keys, results, true);
+        }
+      }
+    }
+
+    return { created: results as MuralWidget[], reused };
+  }
+
+  // Fills in results for widgets an earlier attempt created: same type and content, created
+  // after the attempt started and not already claimed by another key. Positions are only
+  // compared for retries within a call, where the request is sent unchanged.
+  private async adoptCreatedWidgets(
+    muralId: string,
+    widgetType: WidgetEndpointType,
+    indices: number[],
+    requests: Record<string, any>[],
+    since: number[],
+    keys: (string | undefined)[],
+    results: (MuralWidget | undefined)[],
+    matchPosition: boolean
+  ): Promise<void> {
+    const claimed = await this.idempotencyKeys.claimedWidgetIds(muralId);
+    results.forEach(result => result && claimed.add(result.id));
+    // Allow for clock differences between this machine and the API
+    const clockSkewMs = 60000;
+
+    const candidates = (await this.getMuralWidgets(muralId))
+      .filter(widget => toWidgetEndpointType(widget.type || '') === widgetType);
+    const adopted: { key: string; widgetId: string }[] = [];
+
+    for (const i of indices) {
+      const fields = fingerprintFields(requests[i], matchPosition);
+      const wanted = widgetFingerprint(widgetType, requests[i], fields);
+      const match = candidates.find(widget => {
+        if (claimed.has(widget.id) || widgetFingerprint(widgetType, widget, fields) !== wanted) return false;
+        const createdOn = typeof widget.createdOn === 'string' ? Date.parse(widget.createdOn) : widget.createdOn;
+        return typeof createdOn !== 'number' || Number.isNaN(createdOn) || createdOn >= since[i] - clockSkewMs;
       });
+      if (match) {
+        results[i] = match;
+        claimed.add(match.id);
+        if (keys[i]) {
+          adopted.push({ key: keys[i]!, widgetId: match.id });
+        }
+      }
+    }
+    await this.idempotencyKeys.markCreated(muralId, adopted);
+  }
+
+  async createStickyNotes(muralId: string, stickyNotes: Idempotent<CreateStickyNoteRequest>[]): Promise<MuralWidget[]> {
+    return this.createWidgets(muralId, 'sticky-note', stickyNotes, 'sticky notes');
+  }
+
+  // The empty rectangle of the given size nearest to the right of (or below) a widget, or
+  // of all the content on the mural
+  async findFreeSpace(muralId: string, request: {
+    width: number;
+    height: number;
+    nearWidgetId?: string;
+    direction?: FreeSpaceDirection;
+    gap?: number;
+  }): Promise<Bounds> {
+    const widgets = await this.getMuralWidgets(muralId);
+    let near: Bounds | undefined;
+    if (request.nearWidgetId) {
+      const reference = widgets.find(widget => widget.id === request.nearWidgetId);
+      if (!reference) {
+        throw new MuralNotFoundError(`Widget ${request.nearWidgetId} not found in mural ${muralId}`);
+      }
+      near = widgetBounds(reference);
+    }
 
-      return response.value || response || [];
+    return findFreeSpace(obstaclesFor(widgets), { ...request, near });
+  }
+
+  // Positions for widgets about to be created so none of them overlaps existing content or
+  // each other. Widgets with x and y go to the nearest free spot to that point; the others
+  // go right of the previous widget in the batch, or right of the board's content.
+  async placeWidgets(
+    muralId: string,
+    widgets: { x?: number; y?: number; width: number; height: number }[],
+    gap = DEFAULT_LAYOUT_GAP
+  ): Promise<Bounds[]> {
+    const existing = await this.getMuralWidgets(muralId);
+    const everything = existing.map(widgetBounds);
+    const placed: Bounds[] = [];
+
+    for (const widget of widgets) {
+      let bounds: Bounds;
+      if (widget.x !== undefined && widget.y !== undefined) {
+        const anchor: LayoutAnchor = { type: 'point', x: widget.x, y: widget.y };
+        const space = new FreeSpace([...obstaclesFor(existing, anchor), ...placed], gap);
+        const origin = space.place(widget, anchor);
+        if (!origin) {
+          throw new MuralValidationError(`No free ${widget.width}x${widget.height} space found near (${widget.x}, ${widget.y})`);
+        }
+        bounds = { ...origin, width: widget.width, height: widget.height };
+      } else {
+        bounds = findFreeSpace([...everything, ...placed], {
+          width: widget.width,
+          height: widget.height,
+          near: placed[placed.length - 1],
+          gap
+        });
+      }
+      placed.push(bounds);
+    }
+
+    return placed;
+  }
+
+  // Creates sticky notes at positions computed by the layout engine, keeping clear of the
+  // widgets already on the mural. Kanban layouts also get a title above each column. Titles
+  // and notes are journaled as one operation; if creating the notes fails, the titles are
+  // deleted again before the error is rethrown.
+  async createStickyNoteLayout(
+    muralId: string,
+    notes: (LayoutNote & { style?: CreateStickyNoteRequest['style'] })[],
+    options: Omit<LayoutOptions, 'obstacles'>
+  ): Promise<{ stickyNotes: MuralWidget[]; headers: MuralWidget[]; bounds: LayoutResult['bounds'] }> {
+    await this.requireScope('murals:write');
+
+    const obstacles = obstaclesFor(await this.getMuralWidgets(muralId), options.anchor);
+    const layout = layoutStickyNotes(notes, { ...options, obstacles });
+    const headers = layout.headers.length > 0
+      ? await this.createWidgets(muralId, 'title', withGeneratedKeys('layout-title', layout.headers), 'titles', false)
+      : [];
+    let stickyNotes: MuralWidget[];
+    try {
+      stickyNotes = await this.createWidgets(muralId, 'sticky-note', withGeneratedKeys('layout', layout.notes.map((note, i) => ({
+        x: note.x,
+        y: note.y,
+        width: note.width,
+        height: note.height,
+        text: note.text,
+        shape: 'rectangle' as const,
+        ...(notes[i].style && { style: notes[i].style })
+      }))), 'sticky notes', false);
     } catch (error) {
-      console.error(`Failed to create sticky notes for mural ${muralId}:`, error);
+      console.error(`Sticky note layout in mural ${muralId} failed; removing the ${headers.length} column titles it created`);
+      await settleWithConcurrency(headers, DEFAULT_BULK_CONCURRENCY, header => this.removeWidget(muralId, header.id));
       throw error;
     }
+
+    await this.journal.record(muralId, 'create', [...headers, ...stickyNotes]
+      .filter(widget => widget?.id)
+      .map(widget => ({ widgetId: widget.id, widgetType: widget.type })));
+    return { stickyNotes, headers, bounds: layout.bounds };
   }
+
+  // Creates every widget of an import plan in its order: areas first, so they sit behind
+  // their contents, and arrows last, with their local refs swapped for the new widget IDs.
+  // The import is journaled as one operation; if a request fails, the widgets created so far
+  // are deleted again before the error is rethrown.
+  async importBoard(muralId: string, plan: ImportPlan): Promise<{
+    widgets: (PlannedWidget & { widget: MuralWidget })[];
+    operation?: JournalOperation;
+  }> {
+    await this.requireScope('murals:write');
+
+    const ids = new Map<string, string>();
+    const created: (PlannedWidget & { widget: MuralWidget })[] = [];
+    try {
+      for (const widgetType of new Set(plan.widgets.map(widget => widget.widgetType))) {
+        const batch = plan.widgets.filter(widget => widget.widgetType === widgetType);
+        const perRequest = WIDGET_BATCH_LIMITS[widgetType];
+        for (let start = 0; start < batch.length; start += perRequest) {
+          const chunk = batch.slice(start, start + perRequest);
+          const requests = chunk.map(({ request }) => widgetType === 'arrow'
+            ? {
+                ...request,
+                ...(request.startWidget !== undefined && { startWidget: ids.get(request.startWidget as string) }),
+                ...(request.endWidget !== undefined && { endWidget: ids.get(request.endWidget as string) })
+              }
+            : request);
+          const widgets = await this.createWidgets(muralId, widgetType, withGeneratedKeys('import', requests), `${widgetType} widgets`, false);
+          chunk.forEach((planned, i) => {
+            ids.set(planned.key, widgets[i].id);
+            created.push({ ...planned, widget: widgets[i] });
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Board import into mural ${muralId} failed; removing the ${created.length} widgets it created`);
+      await settleWithConcurrency(created, DEFAULT_BULK_CONCURRENCY, ({ widget }) => this.removeWidget(muralId, widget.id));
+      throw error;
+    }
+
+    const operation = await this.journal.record(muralId, 'create', created
+      .map(({ widget }) => ({ widgetId: widget.id, widgetType: widget.type })));
+    return { widgets: created, operation };
+  }
+
+  async createTextBoxes(muralId: string, textBoxes: Idempotent<CreateTextBoxRequest>[]): Promise<MuralWidget[]> {
+    return this.createWidgets(muralId, 'text-box', textBoxes, 'text boxes');
+  }
+
+  async createTitles(muralId: string, titles: Idempotent<CreateTitleRequest>[]): Promise<MuralWidget[]> {
+    return this.createWidgets(muralId, 'title', titles, 'titles');
+  }
+
+  async createShapes(muralId: string, shapes: Idempotent<CreateShapeRequest>[]): Promise<MuralWidget[]> {
+    return this.createWidgets(muralId, 'shape', shapes, 'shapes');
+  }
+
+  async createImages(muralId: string, images: Idempotent<CreateImageRequest>[]): Promise<MuralWidget[]> {
+    return this.createWidgets(muralId, 'image', images, 'images');
+  }
+
+  async createFiles(muralId: string, files: Idempotent<CreateFileRequest>[]): Promise<MuralWidget[]> {
+    return this.createWidgets(muralId, 'file', files, 'files');
+  }
+
+  async createTables(muralId: string, tables: Idempotent<CreateTableRequest>[]): Promise<MuralWidget[]> {
+    return this.createWidgets(muralId, 'table', tables, 'tables');
+  }
+
+  async createAreas(muralId: string, areas: Idempotent<CreateAreaRequest>[]): Promise<MuralWidget[]> {
+    return this.createWidgets(muralId, 'area', areas, 'areas');
+  }
+
+  async createArrows(muralId: string, arrows: Idempotent<CreateArrowRequest>[]): Promise<MuralWidget[]> {
+    return this.createWidgets(muralId, 'arrow', arrows, 'arrows');
+  }
+
   // ============================================================================
   // WIDGET UPDATE METHODS (PATCH OPERATIONS)
   // ============================================================================
 
-  async updateStickyNote(muralId: string, widgetId: string, updates: UpdateStickyNoteRequest): Promise<MuralWidget> {
+  // Takes a snapshot of the widget first (unless the caller already has one) so the update
+  // can be undone
+  private async patchWidget<T extends object>(
+    muralId: string,
+    widgetType: UpdatableWidgetType,
+    widgetId: string,
+    updates: T,
+    label: string,
+    before?: MuralWidget
+  ): Promise<MuralWidget> {
+    await this.requireScope('murals:write');
+
+    const snapshot = before ?? await this.getMuralWidget(muralId, widgetId);
+    const widget = await this.sendPatch(muralId, widgetType, widgetId, updates, label);
+    await this.journal.record(muralId, 'update', [
+      { widgetId, widgetType: snapshot.type, before: snapshot, changes: { ...updates } as Record<string, unknown> }
+    ]);
+    return widget;
+  }
+
+  private async sendPatch<T>(muralId: string, widgetType: UpdatableWidgetType, widgetId: string, updates: T, label: string): Promise<MuralWidget> {
     try {
-      const scopeCheck = await this.checkScope('murals:write');
-      if (!scopeCheck.hasScope) {
-        throw new Error(`Permission denied: ${scopeCheck.message}. Please ensure your Mural OAuth app has 'murals:write' scope and re-authenticate.`);
-      }
+      await this.requireScope('murals:write');
 
       const response = await this.makeAuthenticatedRequest<any>(
-        `/murals/${encodeURIComponent(muralId)}/widgets/sticky-note/${encodeURIComponent(widgetId)}`,
+        `/murals/${encodeURIComponent(muralId)}/widgets/${widgetType}/${encodeURIComponent(widgetId)}`,
         {
           method: 'PATCH',
           body: JSON.stringify(updates)
@@ -499,9 +1325,221 @@ export class MuralClient {
       );
       return response.value || response;
     } catch (error) {
-      console.error(`Failed to update sticky note ${widgetId} in mural ${muralId}:`, error);
+      console.error(`Failed to update ${label} ${widgetId} in mural ${muralId}:`, error);
       throw error;
     }
   }
 
+  async updateStickyNote(muralId: string, widgetId: string, updates: UpdateStickyNoteRequest): Promise<MuralWidget> {
+    return this.patchWidget(muralId, 'sticky-note', widgetId, updates, 'sticky note');
+  }
+
+  async updateTextBox(muralId: string, widgetId: string, updates: UpdateTextBoxRequest): Promise<MuralWidget> {
+    return this.patchWidget(muralId, 'text-box', widgetId, updates, 'text box');
+  }
+
+  async updateTitle(muralId: string, widgetId: string, updates: UpdateTitleRequest): Promise<MuralWidget> {
+    return this.patchWidget(muralId, 'title', widgetId, updates, 'title');
+  }
+
+  async updateShape(muralId: string, widgetId: string, updates: UpdateShapeRequest): Promise<MuralWidget> {
+    return this.patchWidget(muralId, 'shape', widgetId, updates, 'shape');
+  }
+
+  async updateImage(muralId: string, widgetId: string, updates: UpdateImageRequest): Promise<MuralWidget> {
+    return this.patchWidget(muralId, 'image', widgetId, updates, 'image');
+  }
+
+  async updateFile(muralId: string, widgetId: string, updates: UpdateFileRequest): Promise<MuralWidget> {
+    return this.patchWidget(muralId, 'file', widgetId, updates, 'file');
+  }
+
+  async updateArea(muralId: string, widgetId: string, updates: UpdateAreaRequest): Promise<MuralWidget> {
+    return this.patchWidget(muralId, 'area', widgetId, updates, 'area');
+  }
+
+  async updateArrow(muralId: string, widgetId: string, updates: UpdateArrowRequest): Promise<MuralWidget> {
+    return this.patchWidget(muralId, 'arrow', widgetId, updates, 'arrow');
+  }
+
+  async updateComment(muralId: string, widgetId: string, updates: UpdateCommentRequest): Promise<MuralWidget> {
+    return this.patchWidget(muralId, 'comment', widgetId, updates, 'comment');
+  }
+
+  // Looks up the widget first so the PATCH goes to the endpoint matching its type
+  async updateWidget(muralId: string, widgetId: string, updates: UpdateWidgetRequest): Promise<{ widget: MuralWidget; widgetType: UpdatableWidgetType }> {
+    const existing = await this.getMuralWidget(muralId, widgetId);
+    const widgetType = updatableType(existing);
+
+    const widget = await this.patchWidget(muralId, widgetType, widgetId, updates, existing.type, existing);
+    return { widget, widgetType };
+  }
+
+  // ============================================================================
+  // SNAPSHOTS
+  // ============================================================================
+
+  // Saves the mural's full widget list to a local snapshot file
+  async snapshotMural(muralId: string, label?: string): Promise<MuralSnapshot> {
+    const widgets = await this.getMuralWidgets(muralId);
+    return this.snapshots.save(muralId, widgets, label);
+  }
+
+  // Most recent first
+  async listMuralSnapshots(muralId: string): Promise<SnapshotInfo[]> {
+    return this.snapshots.list(muralId);
+  }
+
+  // Compares two snapshots, or a snapshot against the live board when `to` is left out. The
+  // `from` snapshot defaults to the most recent one, or the most recent one taken at or
+  // before `takenBefore` (e.g. the end of yesterday's session).
+  async diffMural(muralId: string, options: { from?: string; to?: string; takenBefore?: number } = {}): Promise<{
+    from: SnapshotInfo;
+    to?: SnapshotInfo;
+    diff: MuralDiff;
+  }> {
+    let fromId = options.from;
+    if (!fromId) {
+      const candidates = (await this.snapshots.list(muralId))
+        .filter(snapshot => options.takenBefore === undefined || snapshot.takenAt <= options.takenBefore);
+      if (candidates.length === 0) {
+        throw new MuralNotFoundError(options.takenBefore === undefined
+          ? `No snapshots found for mural ${muralId}`
+          : `No snapshots of mural ${muralId} taken before ${new Date(options.takenBefore).toISOString()}`);
+      }
+      fromId = candidates[0].id;
+    }
+
+    const { widgets: before, ...from } = await this.snapshots.load(muralId, fromId);
+    if (options.to) {
+      const { widgets: after, ...to } = await this.snapshots.load(muralId, options.to);
+      return { from, to, diff: diffWidgets(before, after) };
+    }
+    return { from, diff: diffWidgets(before, await this.getMuralWidgets(muralId)) };
+  }
+
+  // ============================================================================
+  // OPERATION JOURNAL (UNDO)
+  // ============================================================================
+
+  // Widget writes made through this server on a mural, most recent first
+  async getRecentOperations(muralId: string, limit?: number): Promise<JournalOperation[]> {
+    const operations = await this.journal.list(muralId);
+    return limit === undefined ? operations : operations.slice(0, limit);
+  }
+
+  // Reverses a journaled operation, by default the most recent one not yet undone: created
+  // widgets are deleted, updated fields get their previous values back and deleted widgets
+  // are re-created (with new IDs). Unless forced, refuses to undo an operation whose widgets
+  // a later operation changed again, since that would overwrite the later changes.
+  async undoOperation(
+    muralId: string,
+    operationId?: string,
+    options: { force?: boolean } = {}
+  ): Promise<{ operation: JournalOperation; results: UndoResult[] }> {
+    await this.requireScope('murals:write');
+
+    const operation = operationId
+      ? await this.journal.get(muralId, operationId)
+      : (await this.journal.list(muralId)).find(candidate => !candidate.undoneAt);
+    if (!operation) {
+      throw new MuralNotFoundError(operationId
+        ? `Operation ${operationId} not found in the journal for mural ${muralId}`
+        : `No operations left to undo for mural ${muralId}`);
+    }
+    if (operation.undoneAt) {
+      throw new MuralValidationError(`Operation ${operation.id} was already undone`);
+    }
+    if (!options.force) {
+      const conflicts = await this.journal.laterConflicts(muralId, operation);
+      if (conflicts.length > 0) {
+        throw new MuralValidationError(`Later operations changed the same widgets (${conflicts.map(later => later.id).join(', ')}). Undo those first, or force the undo to overwrite their changes`);
+      }
+    }
+
+    // Entries reverted by an earlier, partly failed undo are not reverted twice
+    const pending = operation.entries.flatMap((entry, index) => entry.undone ? [] : [{ entry, index }]);
+    const entries = pending.map(({ entry }) => entry);
+    const results = operation.kind === 'create'
+      ? await this.undoCreate(muralId, entries)
+      : operation.kind === 'update'
+        ? await this.undoUpdate(muralId, entries)
+        : await this.undoDelete(muralId, entries);
+    await this.journal.markUndone(muralId, operation.id,
+      pending.filter((_, i) => results[i].status !== 'failed').map(({ index }) => index));
+    return { operation, results };
+  }
+
+  private async undoCreate(muralId: string, entries: JournalEntry[]): Promise<UndoResult[]> {
+    const settled = await settleWithConcurrency(entries, DEFAULT_BULK_CONCURRENCY,
+      entry => this.removeWidget(muralId, entry.widgetId));
+    return settled.map((result, i): UndoResult => {
+      const { widgetId } = entries[i];
+      if (result.status === 'fulfilled') return { widgetId, status: 'deleted' };
+      return result.reason instanceof MuralNotFoundError
+        ? { widgetId, status: 'already-deleted' }
+        : { widgetId, status: 'failed', error: result.reason };
+    });
+  }
+
+  private async undoUpdate(muralId: string, entries: JournalEntry[]): Promise<UndoResult[]> {
+    const settled = await settleWithConcurrency(entries, DEFAULT_BULK_CONCURRENCY, async entry => {
+      const before = entry.before!;
+      await this.sendPatch(muralId, updatableType(before), entry.widgetId, restoreFields(before, entry.changes ?? {}), before.type);
+    });
+    return settled.map((result, i): UndoResult => result.status === 'fulfilled'
+      ? { widgetId: entries[i].widgetId, status: 'restored' }
+      : { widgetId: entries[i].widgetId, status: 'failed', error: result.reason });
+  }
+
+  // Re-creates deleted widgets in batches per type. Arrows go last so the ones attached to
+  // re-created widgets can be pointed at their new IDs.
+  private async undoDelete(muralId: string, entries: JournalEntry[]): Promise<UndoResult[]> {
+    const results: UndoResult[] = entries.map(entry => ({ widgetId: entry.widgetId, status: 'failed' }));
+    const batches = new Map<WidgetEndpointType, { index: number; request: Record<string, unknown> }[]>();
+    entries.forEach((entry, index) => {
+      try {
+        const { widgetType, request } = recreateRequest(entry.before!);
+        batches.set(widgetType, [...(batches.get(widgetType) ?? []), { index, request }]);
+      } catch (error) {
+        results[index].error = error;
+      }
+    });
+
+    const replacements = new Map<string, string>();
+    const remap = (request: Record<string, unknown>) => {
+      const remapped = { ...request };
+      for (const field of ['startWidget', 'endWidget']) {
+        if (typeof remapped[field] === 'string') {
+          remapped[field] = replacements.get(remapped[field] as string) ?? remapped[field];
+        }
+      }
+      return remapped;
+    };
+
+    const order = Array.from(batches.keys()).sort((a, b) => Number(a === 'arrow') - Number(b === 'arrow'));
+    for (const widgetType of order) {
+      const batch = batches.get(widgetType)!;
+      const perRequest = WIDGET_BATCH_LIMITS[widgetType];
+      for (let start = 0; start < batch.length; start += perRequest) {
+        const chunk = batch.slice(start, start + perRequest);
+        try {
+          const requests = withGeneratedKeys('undo', chunk.map(({ request }) => remap(request)));
+          const created = await this.createWidgets(muralId, widgetType, requests, `${widgetType} widgets`, false);
+          chunk.forEach(({ index }, j) => {
+            results[index] = { widgetId: entries[index].widgetId, status: 'recreated', newWidgetId: created[j]?.id };
+            if (created[j]?.id) {
+              replacements.set(entries[index].widgetId, created[j].id);
+            }
+          });
+        } catch (error) {
+          chunk.forEach(({ index }) => { results[index].error = error; });
+        }
+      }
+    }
+
+    await this.journal.replaceWidgetIds(muralId, replacements);
+    return results;
+  }
+
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import type { MuralWidget } from './types.js';
+import { sortByReadingOrder } from './geometry.js';
+import type { WidgetRecord } from './widget-content.js';
+import { searchableText } from './widget-search.js';
+
+export type WidgetChangeKind = 'moved' | 'resized' | 'restyled' | 'text';
+
+export interface WidgetChange {
+  widget: MuralWidget;          // As it is now
+  previous: MuralWidget;        // As it was
+  kinds: WidgetChangeKind[];
+  moved?: { from: { x: number; y: number }; to: { x: number; y: number } };
+  resized?: { from: { width?: number; height?: number }; to: { width?: number; height?: number } };
+  restyled?: Record<string, { from: unknown; to: unknown }>;
+  text?: { from: string; to: string };
+}
+
+export interface MuralDiff {
+  added: MuralWidget[];
+  removed: MuralWidget[];
+  changed: WidgetChange[];
+  unchanged: number;
+}
+
+// Sub-pixel differences come from the API rounding positions, not from anyone moving things
+const POSITION_TOLERANCE = 0.5;
+
+function differs(a: number | undefined, b: number | undefined): boolean {
+  if (a === undefined || b === undefined) return a !== b;
+  return Math.abs(a - b) >= POSITION_TOLERANCE;
+}
+
+function styleChanges(before: WidgetRecord, after: WidgetRecord): Record<string, { from: unknown; to: unknown }> {
+  const from: Record<string, unknown> = before.style ?? {};
+  const to: Record<string, unknown> = after.style ?? {};
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (JSON.stringify(from[key]) !== JSON.stringify(to[key])) {
+      changes[key] = { from: from[key], to: to[key] };
+    }
+  }
+  return changes;
+}
+
+// What happened to one widget between two versions of it, or undefined if nothing did
+export function compareWidget(previous: MuralWidget, widget: MuralWidget): WidgetChange | undefined {
+  const change: WidgetChange = { widget, previous, kinds: [] };
+
+  if (differs(previous.x, widget.x) || differs(previous.y, widget.y)) {
+    change.kinds.push('moved');
+    change.moved = { from: { x: previous.x, y: previous.y }, to: { x: widget.x, y: widget.y } };
+  }
+  if (differs(previous.width, widget.width) || differs(previous.height, widget.height)) {
+    change.kinds.push('resized');
+    change.resized = {
+      from: { width: previous.width, height: previous.height },
+      to: { width: widget.width, height: widget.height }
+    };
+  }
+  const restyled = styleChanges(previous as WidgetRecord, widget as WidgetRecord);
+  if (Object.keys(restyled).length > 0) {
+    change.kinds.push('restyled');
+    change.restyled = restyled;
+  }
+  const from = searchableText(previous);
+  const to = searchableText(widget);
+  if (from !== to) {
+    change.kinds.push('text');
+    change.text = { from, to };
+  }
+
+  return change.kinds.length > 0 ? change : undefined;
+}
+
+// Compares two versions of a board's widget list by widget ID. Each list comes back in
+// reading order.
+export function diffWidgets(before: MuralWidget[], after: MuralWidget[]): MuralDiff {
+  const previous = new Map(before.map(widget => [widget.id, widget]));
+  const current = new Set(after.map(widget => widget.id));
+
+  const added: MuralWidget[] = [];
+  const changed: WidgetChange[] = [];
+  let unchanged = 0;
+  for (const widget of sortByReadingOrder(after)) {
+    const old = previous.get(widget.id);
+    if (!old) {
+      added.push(widget);
+      continue;
+    }
+    const change = compareWidget(old, widget);
+    if (change) {
+      changed.push(change);
+    } else {
+      unchanged++;
+    }
+  }
+
+  return {
+    added,
+    removed: sortByReadingOrder(before.filter(widget => !current.has(widget.id))),
+    changed,
+    unchanged
+  };
+}
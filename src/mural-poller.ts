@@ -0,0 +1,194 @@
+import type { MuralClient } from './mural-client.js';
+import { MAX_PAGE_SIZE } from './mural-client.js';
+import type { MuralWidget } from './types.js';
+import { diffWidgets, type MuralDiff } from './mural-diff.js';
+import { MuralRateLimitError, MuralScopeError } from './errors.js';
+import { describeError } from './tool-registry.js';
+
+export interface MuralPollerOptions {
+  intervalMs?: number;        // Time between polls while a mural is changing
+  maxIntervalMs?: number;     // Ceiling the interval backs off to
+  backoffFactor?: number;     // Interval multiplier after a poll without changes or a failed poll
+  budgetShare?: number;       // Share of each rate limit bucket polling may use, 0-1
+}
+
+export const DEFAULT_POLL_INTERVAL_MS = 30_000;
+export const DEFAULT_MAX_POLL_INTERVAL_MS = 5 * 60_000;
+export const DEFAULT_POLL_BACKOFF_FACTOR = 2;
+export const DEFAULT_POLL_BUDGET_SHARE = 0.5;
+
+// Called with every subscribed URI of a mural whose widgets changed
+export type MuralChangeListener = (muralId: string, uris: string[], diff: MuralDiff) => void | Promise<void>;
+
+interface WatchedMural {
+  uris: Set<string>;
+  widgets?: MuralWidget[];    // The previous fetch; unset until the first poll
+  intervalMs: number;
+  nextPollAt: number;
+}
+
+// Watches subscribed murals by fetching their widgets on a timer and diffing them with the
+// previous fetch, since the API has no change notifications. Murals that stay unchanged, or
+// whose polls fail, are polled less and less often up to maxIntervalMs; a change resets the
+// interval. Polls only spend the budgetShare of the rate limiter's buckets, so polling never
+// starves tool calls: when the budget is short, polls are put off instead.
+export class MuralPoller {
+  private murals = new Map<string, WatchedMural>();
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private readonly intervalMs: number;
+  private readonly maxIntervalMs: number;
+  private readonly backoffFactor: number;
+  private readonly budgetShare: number;
+
+  constructor(
+    private readonly client: MuralClient,
+    private readonly onChange: MuralChangeListener,
+    options: MuralPollerOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.maxIntervalMs = Math.max(this.intervalMs, options.maxIntervalMs ?? DEFAULT_MAX_POLL_INTERVAL_MS);
+    this.backoffFactor = Math.max(1, options.backoffFactor ?? DEFAULT_POLL_BACKOFF_FACTOR);
+    this.budgetShare = Math.min(1, Math.max(0, options.budgetShare ?? DEFAULT_POLL_BUDGET_SHARE));
+  }
+
+  subscribe(muralId: string, uri: string): void {
+    const watched = this.murals.get(muralId);
+    if (watched) {
+      watched.uris.add(uri);
+      return;
+    }
+    // The first poll only records a baseline to compare later polls with
+    this.murals.set(muralId, { uris: new Set([uri]), intervalMs: this.intervalMs, nextPollAt: Date.now() });
+    this.schedule();
+  }
+
+  unsubscribe(uri: string): void {
+    for (const [muralId, watched] of this.murals) {
+      watched.uris.delete(uri);
+      if (watched.uris.size === 0) {
+        this.murals.delete(muralId);
+      }
+    }
+    if (this.murals.size === 0) {
+      this.stop();
+    }
+  }
+
+  // Subscribed URIs by mural, with when each mural is polled next
+  subscriptions(): { muralId: string; uris: string[]; nextPollAt: number; intervalMs: number }[] {
+    return Array.from(this.murals, ([muralId, watched]) => ({
+      muralId,
+      uris: [...watched.uris],
+      nextPollAt: watched.nextPollAt,
+      intervalMs: watched.intervalMs
+    }));
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  // Polls every mural that is due, one at a time. Runs on the timer; exposed so tests and
+  // callers can poll without waiting for it.
+  async pollDue(now: number = Date.now()): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.pollMurals(now).finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  private async pollMurals(now: number): Promise<void> {
+    const due = [...this.murals].filter(([, watched]) => watched.nextPollAt <= now);
+    for (const [muralId, watched] of due) {
+      if (this.murals.get(muralId) !== watched) continue;   // Unsubscribed meanwhile
+      await this.poll(muralId, watched, now);
+    }
+  }
+
+  private async poll(muralId: string, watched: WatchedMural, now: number): Promise<void> {
+    // A full fetch takes one request per page of widgets. The size of a mural polled before
+    // says how many pages to expect, so fetches that can't finish aren't started; every page
+    // is checked again as it goes, which also covers first polls and murals that grew.
+    const expectedPages = Math.max(1, Math.ceil((watched.widgets?.length ?? 0) / MAX_PAGE_SIZE));
+    if (!(await this.withinBudget(expectedPages))) {
+      watched.nextPollAt = now + this.intervalMs;
+      return;
+    }
+
+    let widgets: MuralWidget[] | undefined;
+    try {
+      // Polling must not start an interactive sign-in when the tokens are gone
+      const scopeCheck = await this.client.checkScope('murals:read');
+      if (!scopeCheck.hasScope) {
+        throw MuralScopeError.fromScopeCheck(scopeCheck);
+      }
+      widgets = await this.fetchWidgets(muralId);
+    } catch (error) {
+      const retryAfterMs = error instanceof MuralRateLimitError ? error.retryAfterMs ?? 0 : 0;
+      watched.intervalMs = this.backOff(watched.intervalMs);
+      watched.nextPollAt = now + Math.max(watched.intervalMs, retryAfterMs);
+      console.error(`Polling mural ${muralId} failed, next poll in ${Math.round((watched.nextPollAt - now) / 1000)}s: ${describeError(error).message}`);
+      return;
+    }
+    if (!widgets) {
+      watched.nextPollAt = now + this.intervalMs;
+      return;
+    }
+
+    const previous = watched.widgets;
+    watched.widgets = widgets;
+    const diff = previous ? diffWidgets(previous, widgets) : undefined;
+    if (diff && diff.added.length + diff.removed.length + diff.changed.length > 0) {
+      watched.intervalMs = this.intervalMs;
+      try {
+        await this.onChange(muralId, [...watched.uris], diff);
+      } catch (error) {
+        console.error(`Change listener for mural ${muralId} failed: ${describeError(error).message}`);
+      }
+    } else if (previous) {
+      watched.intervalMs = this.backOff(watched.intervalMs);
+    }
+    watched.nextPollAt = now + watched.intervalMs;
+  }
+
+  // All of a mural's widgets, a page at a time; undefined when the budget runs out part way
+  private async fetchWidgets(muralId: string): Promise<MuralWidget[] | undefined> {
+    const widgets: MuralWidget[] = [];
+    let cursor: string | undefined;
+    do {
+      if (!(await this.withinBudget(1))) return undefined;
+      const page = await this.client.getMuralWidgetsPage(muralId, { cursor, limit: MAX_PAGE_SIZE });
+      widgets.push(...page.items);
+      cursor = page.next;
+    } while (cursor);
+    return widgets;
+  }
+
+  private backOff(intervalMs: number): number {
+    return Math.min(this.maxIntervalMs, intervalMs * this.backoffFactor);
+  }
+
+  // True when spending `cost` requests leaves both rate limit buckets above the share kept for tool calls
+  private async withinBudget(cost: number): Promise<boolean> {
+    const status = await this.client.getRateLimitStatus();
+    return [status.user, status.app].every(bucket =>
+      bucket.tokensRemaining - cost >= bucket.capacity * (1 - this.budgetShare));
+  }
+
+  private schedule(): void {
+    this.stop();
+    if (this.murals.size === 0) return;
+
+    const next = Math.min(...Array.from(this.murals.values(), watched => watched.nextPollAt));
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pollDue().finally(() => this.schedule());
+    }, Math.max(0, next - Date.now()));
+    // Subscriptions alone should not keep the process alive
+    this.timer.unref();
+  }
+}
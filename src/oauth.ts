@@ -12,16 +12,26 @@ import type {
   OAuthTokens,
   OAuthError
 } from './types.js';
+import { fetchTransport, type HttpTransport } from './transport.js';
 
-const MURAL_OAUTH_BASE = 'https://app.mural.co/api/public/v1/authorization/oauth2';
+export const MURAL_OAUTH_BASE = 'https://app.mural.co/api/public/v1/authorization/oauth2';
 const TOKEN_FILE_PATH = path.join(os.homedir(), '.mural-mcp-tokens.json');
 
+export interface MuralOAuthOptions {
+  transport?: HttpTransport;
+  oauthBaseUrl?: string;   // Defaults to MURAL_OAUTH_BASE
+  tokenFilePath?: string;  // Defaults to ~/.mural-mcp-tokens.json
+}
+
 export class MuralOAuth {
   private clientId: string;
   private clientSecret?: string;
   private redirectUri: string;
   private scopes: string[];
   private authenticationPromise: Promise<OAuthTokens> | null = null;
+  private transport: HttpTransport;
+  private oauthBaseUrl: string;
+  private tokenFilePath: string;
 
   constructor(
     clientId: string,
@@ -36,12 +46,16 @@ export class MuralOAuth {
       'templates:read',
       'templates:write',
       'identity:read'
-    ]
+    ],
+    options: MuralOAuthOptions = {}
   ) {
     this.clientId = clientId;
     this.clientSecret = clientSecret;
     this.redirectUri = redirectUri;
     this.scopes = scopes;
+    this.transport = options.transport ?? fetchTransport;
+    this.oauthBaseUrl = options.oauthBaseUrl ?? MURAL_OAUTH_BASE;
+    this.tokenFilePath = options.tokenFilePath ?? TOKEN_FILE_PATH;
   }
 
   private generatePKCEChallenge(): PKCEChallenge {
@@ -68,7 +82,7 @@ export class MuralOAuth {
       ...(state && { state })
     };
 
-    const url = new URL(MURAL_OAUTH_BASE);
+    const url = new URL(this.oauthBaseUrl);
     Object.entries(params).forEach(([key, value]) => {
       url.searchParams.append(key, value);
     });
@@ -89,7 +103,7 @@ export class MuralOAuth {
       redirect_uri: this.redirectUri
     };
 
-    const response = await fetch(`${MURAL_OAUTH_BASE}/token`, {
+    const response = await this.transport(`${this.oauthBaseUrl}/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -121,7 +135,7 @@ export class MuralOAuth {
       grant_type: 'refresh_token'
     };
 
-    const response = await fetch(`${MURAL_OAUTH_BASE}/token`, {
+    const response = await this.transport(`${this.oauthBaseUrl}/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -147,7 +161,7 @@ export class MuralOAuth {
 
   private async saveTokens(tokens: OAuthTokens): Promise<void> {
     try {
-      await fs.writeFile(TOKEN_FILE_PATH, JSON.stringify(tokens, null, 2));
+      await fs.writeFile(this.tokenFilePath, JSON.stringify(tokens, null, 2));
     } catch (error) {
       console.error('Failed to save tokens:', error);
       throw new Error('Failed to save authentication tokens');
@@ -156,7 +170,7 @@ export class MuralOAuth {
 
   private async loadTokens(): Promise<OAuthTokens | null> {
     try {
-      const data = await fs.readFile(TOKEN_FILE_PATH, 'utf-8');
+      const data = await fs.readFile(this.tokenFilePath, 'utf-8');
       return JSON.parse(data) as OAuthTokens;
     } catch (error) {
       return null;
@@ -324,7 +338,7 @@ export class MuralOAuth {
 
   async clearTokens(): Promise<void> {
     try {
-      await fs.unlink(TOKEN_FILE_PATH);
+      await fs.unlink(this.tokenFilePath);
       console.log('Authentication tokens cleared');
     } catch (error) {
       // File doesn't exist, which is fine
@@ -0,0 +1,171 @@
+import type { MuralWidget } from './types.js';
+import { widgetBounds, centerOf, boundsArea, containsPoint, containsBounds, sortByReadingOrder } from './geometry.js';
+import { widgetKind, widgetText, type WidgetRecord } from './widget-content.js';
+
+export interface OutlineOptions {
+  title?: string;                // Document heading, usually the mural title
+  includeConnections?: boolean;  // Append a list of arrows between labelled widgets
+}
+
+interface OutlineGroup {
+  children: WidgetRecord[];  // Areas and content widgets directly inside this group
+}
+
+// Collapses whitespace so multi-line sticky notes stay on one bullet
+function inline(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function escapeCell(text: string): string {
+  return inline(text).replace(/\|/g, '\\|');
+}
+
+function heading(level: number, text: string): string {
+  return `${'#'.repeat(Math.min(level, 6))} ${text}`;
+}
+
+function renderTable(table: WidgetRecord): string[] {
+  const data: unknown[][] = Array.isArray(table.data) ? table.data.filter(Array.isArray) : [];
+  if (data.length === 0) {
+    return [];
+  }
+
+  const columns = Math.max(...data.map(row => row.length));
+  const cells = data.map(row => Array.from({ length: columns }, (_, index) => escapeCell(String(row[index] ?? ''))));
+  const [header, ...body] = cells;
+
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.join(' | ')} |`)
+  ];
+}
+
+// Maps every widget to the smallest area containing it (undefined at the top level): areas by
+// full containment, everything else by its center point. Arrows and comments are left out.
+export function findParentAreas(widgets: MuralWidget[]): Map<string, string | undefined> {
+  const areas = widgets
+    .filter(widget => widgetKind(widget) === 'area')
+    .sort((a, b) => boundsArea(widgetBounds(a)) - boundsArea(widgetBounds(b)));
+
+  const parents = new Map<string, string | undefined>();
+  widgets
+    .filter(widget => !['arrow', 'comment'].includes(widgetKind(widget)))
+    .forEach(widget => {
+      const bounds = widgetBounds(widget);
+      const center = centerOf(bounds);
+      const parent = areas.find(area => area.id !== widget.id && (widgetKind(widget) === 'area'
+        ? containsBounds(widgetBounds(area), bounds) && boundsArea(widgetBounds(area)) > boundsArea(bounds)
+        : containsPoint(widgetBounds(area), center.x, center.y)));
+      parents.set(widget.id, parent?.id);
+    });
+  return parents;
+}
+
+function buildGroups(widgets: WidgetRecord[]): Map<string | undefined, OutlineGroup> {
+  const groups = new Map<string | undefined, OutlineGroup>([[undefined, { children: [] }]]);
+  widgets
+    .filter(widget => widgetKind(widget) === 'area')
+    .forEach(area => groups.set(area.id, { children: [] }));
+
+  const parents = findParentAreas(widgets);
+  widgets
+    .filter(widget => parents.has(widget.id))
+    .forEach(widget => groups.get(parents.get(widget.id))!.children.push(widget));
+
+  return groups;
+}
+
+function renderGroup(group: OutlineGroup, groups: Map<string | undefined, OutlineGroup>, level: number, lines: string[]): void {
+  let inList = false;
+  const separate = () => {
+    if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+  };
+  const block = (...blockLines: string[]) => {
+    if (blockLines.length === 0) return;
+    separate();
+    lines.push(...blockLines);
+    inList = false;
+  };
+
+  for (const widget of sortByReadingOrder(group.children)) {
+    const kind = widgetKind(widget);
+    const text = widgetText(widget);
+
+    switch (kind) {
+      case 'area': {
+        block(heading(level + 1, inline(text) || 'Untitled area'));
+        renderGroup(groups.get(widget.id)!, groups, level + 1, lines);
+        inList = false;
+        break;
+      }
+      case 'title':
+        if (text) block(heading(level + 1, inline(text)));
+        break;
+      case 'text-box':
+        if (text) block(text);
+        break;
+      case 'table':
+        block(...renderTable(widget));
+        break;
+      case 'image':
+        if (widget.url) block(`![${inline(text) || 'image'}](${widget.url})`);
+        break;
+      case 'file':
+        if (widget.url) block(`[${inline(text) || 'file'}](${widget.url})`);
+        break;
+      default:
+        // Sticky notes, and shapes that carry text, become bullets
+        if (text) {
+          if (!inList) separate();
+          lines.push(`- ${inline(text)}`);
+          inList = true;
+        }
+    }
+  }
+}
+
+// Long labels (e.g. whole tables) are cut so each connection stays on one readable line
+function label(widget: WidgetRecord): string {
+  const text = inline(widgetText(widget));
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function renderConnections(widgets: WidgetRecord[]): string[] {
+  const labels = new Map(widgets.map(widget => [widget.id, label(widget)]));
+  return widgets
+    .filter(widget => widgetKind(widget) === 'arrow' && widget.startWidget && widget.endWidget)
+    .map(arrow => {
+      const from = labels.get(arrow.startWidget) || arrow.startWidget;
+      const to = labels.get(arrow.endWidget) || arrow.endWidget;
+      const arrowLabel = label(arrow);
+      return `- ${from} → ${to}${arrowLabel ? ` (${arrowLabel})` : ''}`;
+    });
+}
+
+// Renders a board as Markdown: areas become sections, titles headings, sticky notes bullets,
+// text boxes paragraphs and tables Markdown tables, each section in reading order
+export function renderMuralOutline(widgets: MuralWidget[], options: OutlineOptions = {}): string {
+  const records = widgets as WidgetRecord[];
+  const groups = buildGroups(records);
+  const lines: string[] = [];
+
+  if (options.title) {
+    lines.push(heading(1, inline(options.title)));
+  }
+
+  const headerLines = lines.length;
+  renderGroup(groups.get(undefined)!, groups, 1, lines);
+  if (lines.length === headerLines) {
+    lines.push('', '_This mural has no text content._');
+  }
+
+  if (options.includeConnections) {
+    const connections = renderConnections(records);
+    if (connections.length > 0) {
+      lines.push('', heading(2, 'Connections'), '', ...connections);
+    }
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
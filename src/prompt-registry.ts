@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import type { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MuralScopeError } from './errors.js';
+import { toMcpError, type ToolContext } from './tool-registry.js';
+
+// MCP prompt arguments are always strings, so prompt schemas only hold (optional) strings
+type PromptSchema = z.ZodObject<Record<string, z.ZodString | z.ZodOptional<z.ZodString>>>;
+
+export interface PromptDefinition<S extends PromptSchema = PromptSchema> {
+  name: string;
+  description: string;
+  schema: S;
+  // OAuth scope checked before the messages are built, as for tools
+  requiredScope?: string;
+  messages: (args: z.infer<S>, context: ToolContext) => Promise<PromptMessage[]>;
+}
+
+// Identity helper so each definition infers its argument types from its own schema
+export function definePrompt<S extends PromptSchema>(prompt: PromptDefinition<S>): PromptDefinition<S> {
+  return prompt;
+}
+
+// A user message holding plain text
+export function userText(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition<any>>();
+
+  constructor(prompts: PromptDefinition<any>[] = []) {
+    prompts.forEach(prompt => this.register(prompt));
+  }
+
+  register(prompt: PromptDefinition<any>): void {
+    if (this.prompts.has(prompt.name)) {
+      throw new Error(`Prompt already registered: ${prompt.name}`);
+    }
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  list(): Prompt[] {
+    return Array.from(this.prompts.values()).map(prompt => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: Object.entries(prompt.schema.shape as PromptSchema['shape']).map(([name, field]) => ({
+        name,
+        ...(field.description && { description: field.description }),
+        required: !field.safeParse(undefined).success
+      }))
+    }));
+  }
+
+  // Builds a prompt's messages; unknown prompts, bad arguments and API failures become MCP errors
+  async get(name: string, args: Record<string, string> | undefined, context: ToolContext): Promise<GetPromptResult> {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    try {
+      const parsedArgs = prompt.schema.parse(args || {});
+      if (prompt.requiredScope) {
+        const scopeCheck = await context.client.checkScope(prompt.requiredScope);
+        if (!scopeCheck.hasScope) {
+          throw MuralScopeError.fromScopeCheck(scopeCheck);
+        }
+      }
+      return {
+        description: prompt.description,
+        messages: await prompt.messages(parsedArgs, context)
+      };
+    } catch (error) {
+      throw toMcpError(error, { prompt: name });
+    }
+  }
+}
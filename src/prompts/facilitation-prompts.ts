@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import type { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { definePrompt, userText } from '../prompt-registry.js';
+import type { MuralClient } from '../mural-client.js';
+import { renderMuralOutline } from '../outline.js';
+import { expandUriTemplate } from '../resource-registry.js';
+import { MURAL_OUTLINE_URI } from '../resources/mural-resources.js';
+import { muralIdSchema } from '../tools/schemas.js';
+
+// The board outline as an embedded resource, so the prompt starts with the board in context
+async function boardOutline(client: MuralClient, muralId: string): Promise<{ title: string; message: PromptMessage }> {
+  const [mural, widgets] = await Promise.all([
+    client.getMural(muralId),
+    client.getMuralWidgets(muralId)
+  ]);
+  const title = mural.title || `Mural ${muralId}`;
+  return {
+    title,
+    message: {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: {
+          uri: expandUriTemplate(MURAL_OUTLINE_URI, { muralId }),
+          mimeType: 'text/markdown',
+          text: renderMuralOutline(widgets, { title, includeConnections: true })
+        }
+      }
+    }
+  };
+}
+
+export const summarizeBoardPrompt = definePrompt({
+  name: 'summarize-board',
+  description: 'Summarize a mural: its purpose, the themes in each area, decisions made and open questions',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    focus: z.string().optional().describe('What to emphasize, e.g. "decisions" or "customer pain points" (optional)')
+  }),
+  messages: async ({ muralId, focus }, { client }) => {
+    const { title, message } = await boardOutline(client, muralId);
+    return [message, userText([
+      `Summarize the mural "${title}" above for someone who was not in the session.`,
+      '',
+      'Structure the summary as:',
+      '1. Purpose: one or two sentences on what the board is for.',
+      '2. Themes: for each area (section of the outline), the main points in a few bullets. Merge near-duplicate notes and say how many notes made each point when that shows its weight.',
+      '3. Decisions: anything the board records as agreed or chosen.',
+      '4. Open questions: unresolved items, disagreements and notes ending in a question.',
+      '',
+      'Only use what is on the board; say so when a section has nothing to report instead of guessing.',
+      ...(focus ? ['', `Give extra attention to: ${focus}.`] : [])
+    ].join('\n'))];
+  }
+});
+
+export const clusterStickiesPrompt = definePrompt({
+  name: 'cluster-stickies',
+  description: 'Group a mural\'s sticky notes into themes (affinity mapping), and optionally arrange them into areas on the board',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    area: z.string().optional().describe('Only cluster the sticky notes inside the area with this title (optional)'),
+    clusters: z.string().regex(/^\d+$/, 'Expected a whole number').optional().describe('Roughly how many clusters to aim for (optional)')
+  }),
+  messages: async ({ muralId, area, clusters }, { client }) => {
+    const { title, message } = await boardOutline(client, muralId);
+    return [message, userText([
+      `Run an affinity mapping pass over the sticky notes of the mural "${title}" above${area ? `, limited to the area "${area}"` : ''}.`,
+      '',
+      `1. Group the notes into ${clusters ? `about ${clusters}` : 'a handful of'} clusters of related ideas. Name each cluster with a short, specific label (not "Misc" or "Other").`,
+      '2. For each cluster give a one-line rationale and list its notes, quoted exactly as written.',
+      '3. List notes that fit no cluster separately rather than forcing them in.',
+      '',
+      'Then ask whether to lay the clusters out on the board. Only if the user agrees:',
+      `- Use query-widgets${area ? ` with insideArea "${area}"` : ''} and types ["sticky-note"] to get the IDs of the notes.`,
+      '- Use find-free-space to find room, create-areas to add one titled area per cluster, and update-widgets to move each note into its area.',
+      '- Every change is journaled; mention that list-recent-operations and undo-operation can revert it.'
+    ].join('\n'))];
+  }
+});
+
+export const planRetroBoardPrompt = definePrompt({
+  name: 'plan-retro-board',
+  description: 'Plan a retrospective layout for a mural and scaffold it with import-board',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    format: z.string().optional().describe('Retro format, e.g. "Start / Stop / Continue" or "4Ls" (default: Start / Stop / Continue)'),
+    goal: z.string().optional().describe('What the retro covers, e.g. "Sprint 12" or "the Q3 launch" (optional)')
+  }),
+  messages: async ({ muralId, format, goal }, { client }) => {
+    const { title, message } = await boardOutline(client, muralId);
+    return [message, userText([
+      `Plan a retrospective on the mural "${title}" above${goal ? ` covering ${goal}` : ''}, using the ${format || 'Start / Stop / Continue'} format.`,
+      '',
+      '1. Look at what is already on the board and reuse or avoid it; do not duplicate existing sections.',
+      '2. Propose the layout: a title, one area per column of the format, and one or two example sticky notes per area that show participants what to write. Add an "Action items" area if the format has none.',
+      '3. Write the layout as a YAML board document for import-board: areas with "title", "width" and "height", placed next to each other with "rightOf", and their example notes nested under "children".',
+      '4. Call import-board with dryRun true and placement "auto" and show the user the planned widgets.',
+      '5. After the user confirms, call import-board again without dryRun and report the operationId, which undo-operation can use to remove the scaffold.'
+    ].join('\n'))];
+  }
+});
+
+export const actionItemsFromBoardPrompt = definePrompt({
+  name: 'action-items-from-board',
+  description: 'Extract the action items on a mural, with owners, due dates and the notes they came from',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    owner: z.string().optional().describe('Only the action items for this person or team (optional)')
+  }),
+  messages: async ({ muralId, owner }, { client }) => {
+    const { title, message } = await boardOutline(client, muralId);
+    return [message, userText([
+      `Extract the action items from the mural "${title}" above${owner ? `, keeping only those for ${owner}` : ''}.`,
+      '',
+      'Include items written as actions ("Fix the flaky build", "TODO", "AI:") and ones clearly implied by decisions or problems the board agrees to address.',
+      '',
+      'Return a Markdown table with the columns: Action (short imperative phrase), Owner, Due, Source (the note quoted exactly, and its area) and Confidence (explicit or implied).',
+      'Only fill Owner and Due when the board states them; leave them blank otherwise, and finish with a list of items that still need an owner.',
+      'Do not invent actions that the board does not support.'
+    ].join('\n'))];
+  }
+});
+
+export const facilitationPrompts = [
+  summarizeBoardPrompt,
+  clusterStickiesPrompt,
+  planRetroBoardPrompt,
+  actionItemsFromBoardPrompt
+];
@@ -0,0 +1,7 @@
+import type { PromptDefinition } from '../prompt-registry.js';
+import { facilitationPrompts } from './facilitation-prompts.js';
+
+// Every prompt the server exposes, in the order they are listed to clients
+export const allPrompts: PromptDefinition<any>[] = [
+  ...facilitationPrompts
+];
@@ -0,0 +1,131 @@
+import type { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MuralScopeError } from './errors.js';
+import { describeError, toMcpError, type ToolContext } from './tool-registry.js';
+
+// A family of resources addressed by a URI template such as "mural://mural/{muralId}/widgets".
+// Only simple {name} expressions are supported; each matches one path segment.
+export interface ResourceDefinition {
+  name: string;
+  uriTemplate: string;
+  description: string;
+  mimeType: string;
+  // OAuth scope checked before reading, as for tools
+  requiredScope?: string;
+  read: (params: Record<string, string>, context: ToolContext) => Promise<string>;
+  // Concrete resources to advertise in resources/list; templates without it are only
+  // listed as templates
+  list?: (context: ToolContext) => Promise<Omit<Resource, 'mimeType'>[]>;
+}
+
+// Identity helper matching defineTool
+export function defineResource(resource: ResourceDefinition): ResourceDefinition {
+  return resource;
+}
+
+// Fills a URI template, encoding each value as one path segment
+export function expandUriTemplate(template: string, params: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(params[name] ?? ''));
+}
+
+interface CompiledResource {
+  definition: ResourceDefinition;
+  pattern: RegExp;
+  names: string[];
+}
+
+function compile(definition: ResourceDefinition): CompiledResource {
+  const names: string[] = [];
+  const source = definition.uriTemplate
+    .split(/(\{\w+\})/)
+    .map(part => {
+      const name = /^\{(\w+)\}$/.exec(part)?.[1];
+      if (name) {
+        names.push(name);
+        return '([^/?#]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return { definition, pattern: new RegExp(`^${source}$`), names };
+}
+
+export class ResourceRegistry {
+  private resources: CompiledResource[] = [];
+
+  constructor(resources: ResourceDefinition[] = []) {
+    resources.forEach(resource => this.register(resource));
+  }
+
+  register(resource: ResourceDefinition): void {
+    if (this.resources.some(({ definition }) => definition.name === resource.name || definition.uriTemplate === resource.uriTemplate)) {
+      throw new Error(`Resource already registered: ${resource.name}`);
+    }
+    this.resources.push(compile(resource));
+  }
+
+  // The registered resource a URI belongs to, with the values of its template expressions
+  match(uri: string): { definition: ResourceDefinition; params: Record<string, string> } | undefined {
+    for (const { definition, pattern, names } of this.resources) {
+      const match = pattern.exec(uri);
+      if (match) {
+        try {
+          return { definition, params: Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])])) };
+        } catch {
+          return undefined;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  listTemplates(): ResourceTemplate[] {
+    return this.resources.map(({ definition }) => ({
+      name: definition.name,
+      uriTemplate: definition.uriTemplate,
+      description: definition.description,
+      mimeType: definition.mimeType
+    }));
+  }
+
+  // Concrete resources from every definition that can enumerate them. A failing listing
+  // (e.g. a missing scope) leaves its resources out instead of failing the whole list.
+  async list(context: ToolContext): Promise<Resource[]> {
+    const listed = await Promise.all(this.resources.map(async ({ definition }) => {
+      if (!definition.list) return [];
+      try {
+        if (definition.requiredScope && !(await context.client.checkScope(definition.requiredScope)).hasScope) {
+          return [];
+        }
+        return (await definition.list(context)).map(resource => ({ ...resource, mimeType: definition.mimeType }));
+      } catch (error) {
+        console.error(`Failed to list ${definition.name} resources: ${describeError(error).message}`);
+        return [];
+      }
+    }));
+    return listed.flat();
+  }
+
+  // Reads a resource; unknown URIs and API failures become MCP errors carrying the
+  // same machine-readable code tools report
+  async read(uri: string, context: ToolContext): Promise<ReadResourceResult> {
+    const matched = this.match(uri);
+    if (!matched) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const { definition, params } = matched;
+    try {
+      if (definition.requiredScope) {
+        const scopeCheck = await context.client.checkScope(definition.requiredScope);
+        if (!scopeCheck.hasScope) {
+          throw MuralScopeError.fromScopeCheck(scopeCheck);
+        }
+      }
+      const text = await definition.read(params, context);
+      return { contents: [{ uri, mimeType: definition.mimeType, text }] };
+    } catch (error) {
+      throw toMcpError(error, { uri });
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import type { ResourceDefinition } from '../resource-registry.js';
+import { muralResources } from './mural-resources.js';
+
+export { SUBSCRIBABLE_URIS } from './mural-resources.js';
+
+// Every resource template the server exposes, in the order they are listed to clients
+export const allResources: ResourceDefinition[] = [
+  ...muralResources
+];
@@ -0,0 +1,112 @@
+import { defineResource, expandUriTemplate } from '../resource-registry.js';
+import { settleWithConcurrency } from '../concurrency.js';
+import { DEFAULT_BULK_CONCURRENCY } from '../mural-client.js';
+import { renderMuralOutline } from '../outline.js';
+import { renderMuralSvg } from '../svg-render.js';
+
+// Murals listed per workspace in resources/list; the rest are reachable through the templates
+const LISTED_MURALS_PER_WORKSPACE = 25;
+
+export const WORKSPACE_URI = 'mural://workspace/{workspaceId}';
+export const MURAL_URI = 'mural://mural/{muralId}';
+export const MURAL_WIDGETS_URI = 'mural://mural/{muralId}/widgets';
+export const MURAL_OUTLINE_URI = 'mural://mural/{muralId}/outline';
+export const MURAL_PREVIEW_URI = 'mural://mural/{muralId}/preview.svg';
+
+// Resources built from a mural's widgets. Subscriptions are served by polling the widgets,
+// so these are the ones whose changes a subscriber is told about.
+export const SUBSCRIBABLE_URIS = [MURAL_WIDGETS_URI, MURAL_OUTLINE_URI, MURAL_PREVIEW_URI];
+
+export const workspaceResource = defineResource({
+  name: 'workspace',
+  uriTemplate: WORKSPACE_URI,
+  description: 'A workspace and its most recently updated murals, as JSON',
+  mimeType: 'application/json',
+  requiredScope: 'workspaces:read',
+  read: async ({ workspaceId }, { client }) => {
+    const [workspace, murals] = await Promise.all([
+      client.getWorkspace(workspaceId),
+      client.getWorkspaceMuralsPage(workspaceId, { limit: 100 })
+    ]);
+    return JSON.stringify({
+      ...workspace,
+      murals: murals.items.map(mural => ({
+        id: mural.id,
+        title: mural.title,
+        uri: expandUriTemplate(MURAL_URI, { muralId: mural.id }),
+        ...(mural.updatedOn && { updatedOn: mural.updatedOn })
+      })),
+      ...(murals.next && { moreMurals: true })
+    }, null, 2);
+  },
+  list: async ({ client }) => {
+    const workspaces = await client.getWorkspaces();
+    return workspaces.map(workspace => ({
+      uri: expandUriTemplate(WORKSPACE_URI, { workspaceId: workspace.id }),
+      name: workspace.name || workspace.id,
+      description: `Mural workspace ${workspace.name || workspace.id}`
+    }));
+  }
+});
+
+export const muralResource = defineResource({
+  name: 'mural',
+  uriTemplate: MURAL_URI,
+  description: 'A mural\'s details (title, room, workspace, dates), as JSON',
+  mimeType: 'application/json',
+  requiredScope: 'murals:read',
+  read: async ({ muralId }, { client }) => JSON.stringify(await client.getMural(muralId), null, 2),
+  list: async ({ client }) => {
+    // Murals are found through the workspaces, so listing also needs workspaces:read
+    if (!(await client.checkScope('workspaces:read')).hasScope) return [];
+    const workspaces = await client.getWorkspaces();
+    const pages = await settleWithConcurrency(workspaces, DEFAULT_BULK_CONCURRENCY, workspace =>
+      client.getWorkspaceMuralsPage(workspace.id, { limit: LISTED_MURALS_PER_WORKSPACE }));
+    return pages.flatMap(page => page.status === 'fulfilled' ? page.value.items : []).map(mural => ({
+      uri: expandUriTemplate(MURAL_URI, { muralId: mural.id }),
+      name: mural.title || mural.id,
+      description: `Mural ${mural.title || mural.id}`
+    }));
+  }
+});
+
+export const muralWidgetsResource = defineResource({
+  name: 'mural-widgets',
+  uriTemplate: MURAL_WIDGETS_URI,
+  description: 'Every widget on a mural, as the JSON array get-mural-widgets returns',
+  mimeType: 'application/json',
+  requiredScope: 'murals:read',
+  read: async ({ muralId }, { client }) => JSON.stringify(await client.getMuralWidgets(muralId), null, 2)
+});
+
+export const muralOutlineResource = defineResource({
+  name: 'mural-outline',
+  uriTemplate: MURAL_OUTLINE_URI,
+  description: 'A mural as a Markdown outline (areas as sections, sticky notes as bullets), the compact way to attach a board as context',
+  mimeType: 'text/markdown',
+  requiredScope: 'murals:read',
+  read: async ({ muralId }, { client }) => {
+    const [mural, widgets] = await Promise.all([
+      client.getMural(muralId),
+      client.getMuralWidgets(muralId)
+    ]);
+    return renderMuralOutline(widgets, { title: mural.title || `Mural ${muralId}`, includeConnections: true });
+  }
+});
+
+export const muralPreviewResource = defineResource({
+  name: 'mural-preview',
+  uriTemplate: MURAL_PREVIEW_URI,
+  description: 'An SVG preview of a whole mural, as render-mural-svg draws it',
+  mimeType: 'image/svg+xml',
+  requiredScope: 'murals:read',
+  read: async ({ muralId }, { client }) => renderMuralSvg(await client.getMuralWidgets(muralId)).svg
+});
+
+export const muralResources = [
+  workspaceResource,
+  muralResource,
+  muralWidgetsResource,
+  muralOutlineResource,
+  muralPreviewResource
+];
@@ -0,0 +1,80 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { randomBytes } from 'crypto';
+import type { MuralWidget } from './types.js';
+import { MuralNotFoundError } from './errors.js';
+
+const SNAPSHOT_DIR = path.join(os.homedir(), '.mural-mcp-snapshots');
+
+export interface SnapshotInfo {
+  id: string;
+  muralId: string;
+  label?: string;
+  takenAt: number;
+  widgetCount: number;
+}
+
+export interface MuralSnapshot extends SnapshotInfo {
+  widgets: MuralWidget[];
+}
+
+function snapshotId(): string {
+  return `snap-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+}
+
+// Saved copies of a mural's widget list, one JSON file per snapshot under a directory per mural
+export class SnapshotStore {
+  constructor(private readonly directory: string = SNAPSHOT_DIR) {}
+
+  private muralDirectory(muralId: string): string {
+    return path.join(this.directory, encodeURIComponent(muralId));
+  }
+
+  async save(muralId: string, widgets: MuralWidget[], label?: string): Promise<MuralSnapshot> {
+    const snapshot: MuralSnapshot = {
+      id: snapshotId(),
+      muralId,
+      ...(label && { label }),
+      takenAt: Date.now(),
+      widgetCount: widgets.length,
+      widgets
+    };
+
+    const directory = this.muralDirectory(muralId);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, `${snapshot.id}.json`), JSON.stringify(snapshot, null, 2));
+    return snapshot;
+  }
+
+  // Most recent first
+  async list(muralId: string): Promise<SnapshotInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.muralDirectory(muralId));
+    } catch (error) {
+      // No snapshots taken of this mural yet
+      return [];
+    }
+
+    const snapshots: SnapshotInfo[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        const { widgets, ...info } = JSON.parse(await fs.readFile(path.join(this.muralDirectory(muralId), file), 'utf-8')) as MuralSnapshot;
+        snapshots.push(info);
+      } catch (error) {
+        console.warn(`Skipping unreadable snapshot ${file}:`, error);
+      }
+    }
+    return snapshots.sort((a, b) => b.takenAt - a.takenAt);
+  }
+
+  async load(muralId: string, id: string): Promise<MuralSnapshot> {
+    try {
+      const data = await fs.readFile(path.join(this.muralDirectory(muralId), `${path.basename(id)}.json`), 'utf-8');
+      return JSON.parse(data) as MuralSnapshot;
+    } catch (error) {
+      throw new MuralNotFoundError(`Snapshot ${id} not found for mural ${muralId}`);
+    }
+  }
+}
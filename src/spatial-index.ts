@@ -0,0 +1,70 @@
+import type { MuralWidget } from './types.js';
+import { widgetBounds, intersects, type Bounds } from './geometry.js';
+
+// Widgets spanning more cells than this (huge areas, background shapes) are kept in a
+// separate list and checked on every search instead of being copied into every cell
+const MAX_CELLS_PER_ITEM = 1024;
+
+// Uniform grid over the canvas. Each widget is stored in every cell its bounds touch, so a
+// region search only has to look at the widgets in the cells the region covers.
+export class SpatialIndex<T extends Pick<MuralWidget, 'x' | 'y' | 'width' | 'height'> = MuralWidget> {
+  private cells = new Map<string, T[]>();
+  private oversized: T[] = [];
+  private readonly cellSize: number;
+
+  constructor(widgets: T[] = [], cellSize = 512) {
+    this.cellSize = cellSize;
+    widgets.forEach(widget => this.insert(widget));
+  }
+
+  insert(widget: T): void {
+    const range = this.cellRange(widgetBounds(widget));
+    const cellCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+    if (cellCount > MAX_CELLS_PER_ITEM) {
+      this.oversized.push(widget);
+      return;
+    }
+
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const key = `${cx},${cy}`;
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.push(widget);
+        } else {
+          this.cells.set(key, [widget]);
+        }
+      }
+    }
+  }
+
+  // Widgets whose bounds intersect the region, each returned once
+  search(region: Bounds): T[] {
+    const range = this.cellRange(region);
+    const found = new Set<T>();
+
+    const cellCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+    if (cellCount > this.cells.size) {
+      // Region is larger than the populated part of the grid; scanning the cells is cheaper
+      this.cells.forEach(cell => cell.forEach(widget => found.add(widget)));
+    } else {
+      for (let cx = range.minX; cx <= range.maxX; cx++) {
+        for (let cy = range.minY; cy <= range.maxY; cy++) {
+          this.cells.get(`${cx},${cy}`)?.forEach(widget => found.add(widget));
+        }
+      }
+    }
+    this.oversized.forEach(widget => found.add(widget));
+
+    return Array.from(found).filter(widget => intersects(widgetBounds(widget), region));
+  }
+
+  private cellRange(bounds: Bounds) {
+    return {
+      minX: Math.floor(bounds.x / this.cellSize),
+      minY: Math.floor(bounds.y / this.cellSize),
+      maxX: Math.floor((bounds.x + bounds.width) / this.cellSize),
+      maxY: Math.floor((bounds.y + bounds.height) / this.cellSize)
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import fs from 'fs/promises';
+
+// Reads a JSON state file. A missing file is undefined; a file that doesn't parse is moved
+// aside to <file>.corrupt-<time> so what it held can still be recovered by hand.
+export async function readStateFile<T>(filePath: string, label: string): Promise<T | undefined> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(data) as T;
+  } catch (error) {
+    const backupPath = `${filePath}.corrupt-${Date.now()}`;
+    console.warn(`Failed to parse ${label} at ${filePath}, moving it to ${backupPath} and starting empty:`, error);
+    await fs.rename(filePath, backupPath).catch(renameError => {
+      console.warn(`Failed to back up ${label}:`, renameError);
+    });
+    return undefined;
+  }
+}
+
+// Writes a JSON state file one write at a time. Each write goes to <file>.tmp and is renamed
+// over the file, so concurrent saves never interleave and a crash mid-write leaves the
+// previous version in place.
+export class StateFileWriter {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly label: string
+  ) {}
+
+  // Resolves once the state is on disk; failures are logged, not thrown
+  write(state: unknown): Promise<void> {
+    this.pending = this.pending.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      try {
+        await fs.writeFile(tempPath, JSON.stringify(state, null, 2));
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        console.warn(`Failed to save ${this.label}:`, error);
+      }
+    });
+    return this.pending;
+  }
+}
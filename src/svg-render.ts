@@ -0,0 +1,288 @@
+import type { MuralWidget } from './types.js';
+import { widgetBounds, centerOf, boundsArea, intersects, expandBounds, type Bounds } from './geometry.js';
+import { widgetKind, widgetText, type WidgetRecord } from './widget-content.js';
+
+export interface SvgRenderOptions {
+  region?: Bounds;       // Only draw this part of the canvas (default: everything)
+  maxSize?: number;      // Longest side of the image in pixels; boards are only scaled down
+}
+
+export interface SvgRender {
+  svg: string;
+  bounds: Bounds;        // The part of the canvas shown
+  scale: number;         // Image pixels per canvas pixel
+  widgetCount: number;   // Widgets drawn, arrows included
+}
+
+export const DEFAULT_SVG_SIZE = 1200;
+
+// Space left around the board when no region is given
+const MARGIN = 40;
+
+// Lower layers are drawn first; everything else sits between shapes and arrows
+const LAYERS = ['area', 'shape', 'table', 'image', 'file', 'sticky-note', 'text-box', 'title', 'comment'];
+
+const DEFAULT_FILL: Record<string, string> = {
+  'sticky-note': '#FFF59D',
+  'area': '#F5F5F5',
+  'shape': '#FFFFFF',
+  'table': '#FFFFFF'
+};
+
+const FONT_SIZES: Record<string, number> = {
+  'sticky-note': 14,
+  'text-box': 16,
+  'title': 32,
+  'area': 18,
+  'table': 12,
+  'shape': 14
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function number(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function styleOf(widget: MuralWidget): Record<string, unknown> {
+  const style = (widget as WidgetRecord).style;
+  return style && typeof style === 'object' ? style : {};
+}
+
+// Colors come from the API and end up in attributes, so anything that isn't plainly a color is dropped
+function color(value: unknown, fallback: string): string {
+  return typeof value === 'string' && /^(#[0-9a-fA-F]{3,8}|[a-zA-Z]+|rgba?\([\d.,\s%]+\))$/.test(value) ? value : fallback;
+}
+
+// Breaks text into lines of at most `width` characters, at spaces where possible
+export function wrapText(text: string, width: number): string[] {
+  const columns = Math.max(1, Math.floor(width));
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      for (let rest = word; rest; ) {
+        const candidate = line ? `${line} ${rest}` : rest;
+        if (candidate.length <= columns) {
+          line = candidate;
+          rest = '';
+        } else if (line) {
+          lines.push(line);
+          line = '';
+        } else {
+          lines.push(rest.slice(0, columns));
+          rest = rest.slice(columns);
+        }
+      }
+    }
+    return [...lines, line];
+  });
+}
+
+// Text fitted into a box: wrapped to its width (assuming an average glyph is about 0.55em
+// wide) and cut with an ellipsis when it runs out of lines
+function textBlock(text: string, box: Bounds, fontSize: number, options: { fill: string; align?: 'start' | 'middle'; bold?: boolean; padding?: number }): string {
+  const padding = options.padding ?? fontSize * 0.5;
+  const inner = { x: box.x + padding, y: box.y + padding, width: Math.max(0, box.width - padding * 2), height: Math.max(0, box.height - padding * 2) };
+  const lineHeight = fontSize * 1.25;
+  const maxLines = Math.max(1, Math.floor(inner.height / lineHeight));
+  let lines = wrapText(text, inner.width / (fontSize * 0.55));
+  if (lines.length > maxLines) {
+    lines = lines.slice(0, maxLines);
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/.$/, '')}…`;
+  }
+
+  const middle = options.align === 'middle';
+  const x = middle ? inner.x + inner.width / 2 : inner.x;
+  const top = middle ? inner.y + (inner.height - lines.length * lineHeight) / 2 : inner.y;
+  const spans = lines.map((line, i) =>
+    `<tspan x="${number(x)}" y="${number(top + fontSize + i * lineHeight)}">${escapeXml(line)}</tspan>`).join('');
+  return `<text font-size="${number(fontSize)}" fill="${options.fill}"${middle ? ' text-anchor="middle"' : ''}${options.bold ? ' font-weight="bold"' : ''}>${spans}</text>`;
+}
+
+function shapeOutline(kind: string, box: Bounds, attributes: string): string {
+  const { x, y, width, height } = box;
+  switch (kind) {
+    case 'circle':
+      return `<ellipse cx="${number(x + width / 2)}" cy="${number(y + height / 2)}" rx="${number(width / 2)}" ry="${number(height / 2)}" ${attributes}/>`;
+    case 'triangle':
+      return `<polygon points="${[[x + width / 2, y], [x + width, y + height], [x, y + height]].map(point => point.map(number).join(',')).join(' ')}" ${attributes}/>`;
+    case 'diamond':
+      return `<polygon points="${[[x + width / 2, y], [x + width, y + height / 2], [x + width / 2, y + height], [x, y + height / 2]].map(point => point.map(number).join(',')).join(' ')}" ${attributes}/>`;
+    default:
+      return `<rect x="${number(x)}" y="${number(y)}" width="${number(width)}" height="${number(height)}" ${attributes}/>`;
+  }
+}
+
+function renderWidget(widget: MuralWidget): string {
+  const record = widget as WidgetRecord;
+  const kind = widgetKind(widget);
+  const box = widgetBounds(widget);
+  const style = styleOf(widget);
+  const fontSize = typeof style.fontSize === 'number' ? style.fontSize : FONT_SIZES[kind] ?? 14;
+  const textColor = color(style.textColor, '#212121');
+  const text = widgetText(widget);
+
+  switch (kind) {
+    case 'area':
+      return [
+        shapeOutline('rectangle', box, `fill="${color(style.backgroundColor, DEFAULT_FILL.area)}" fill-opacity="0.6" stroke="${color(style.borderColor, '#9E9E9E')}" stroke-dasharray="8 4"`),
+        text ? textBlock(text, { ...box, height: fontSize * 2.5 }, fontSize, { fill: textColor, bold: true }) : ''
+      ].join('');
+    case 'sticky-note':
+    case 'shape': {
+      const stroke = kind === 'shape' ? `stroke="${color(style.borderColor, '#424242')}" stroke-width="${number(typeof style.borderWidth === 'number' ? style.borderWidth : 2)}"` : 'stroke="#00000022"';
+      return [
+        shapeOutline(record.shape ?? 'rectangle', box, `fill="${color(style.backgroundColor, DEFAULT_FILL[kind])}" ${stroke}`),
+        text ? textBlock(text, box, fontSize, { fill: textColor, align: 'middle', padding: kind === 'shape' ? box.width * 0.15 : undefined }) : ''
+      ].join('');
+    }
+    case 'text-box':
+    case 'title':
+      return [
+        style.backgroundColor ? shapeOutline('rectangle', box, `fill="${color(style.backgroundColor, 'none')}"`) : '',
+        textBlock(text, box, fontSize, { fill: textColor, bold: kind === 'title', padding: kind === 'title' ? 0 : undefined })
+      ].join('');
+    case 'table': {
+      const data: unknown[][] = Array.isArray(record.data) ? record.data.filter(Array.isArray) : [];
+      const rows = Math.max(1, data.length, typeof record.rows === 'number' ? record.rows : 0);
+      const columns = Math.max(1, ...data.map(row => row.length), typeof record.columns === 'number' ? record.columns : 0);
+      const cell = { width: box.width / columns, height: box.height / rows };
+      const cells = Array.from({ length: rows }, (_, row) => Array.from({ length: columns }, (_, column) => {
+        const bounds = { x: box.x + column * cell.width, y: box.y + row * cell.height, ...cell };
+        const value = String(data[row]?.[column] ?? '');
+        return shapeOutline('rectangle', bounds, 'fill="none" stroke="#BDBDBD"') +
+          (value ? textBlock(value, bounds, fontSize, { fill: textColor, bold: row === 0, padding: 4 }) : '');
+      }).join('')).join('');
+      return shapeOutline('rectangle', box, `fill="${color(style.backgroundColor, DEFAULT_FILL.table)}" stroke="#757575"`) + cells;
+    }
+    case 'comment':
+      return `<circle cx="${number(box.x + 12)}" cy="${number(box.y + 12)}" r="12" fill="#FFB300"/>`;
+    default:
+      // Images, files and anything newer: a labelled placeholder
+      return [
+        shapeOutline('rectangle', box, 'fill="#EEEEEE" stroke="#9E9E9E"'),
+        textBlock(`${kind}${text ? `: ${text}` : ''}`, box, 12, { fill: '#616161', align: 'middle' })
+      ].join('');
+  }
+}
+
+// Where a line from a box's center towards `target` leaves the box
+function edgePoint(box: Bounds, target: { x: number; y: number }): { x: number; y: number } {
+  const center = centerOf(box);
+  const dx = target.x - center.x;
+  const dy = target.y - center.y;
+  if ((dx === 0 && dy === 0) || box.width === 0 || box.height === 0) return center;
+  const t = Math.min(
+    dx === 0 ? Infinity : box.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : box.height / 2 / Math.abs(dy),
+    1
+  );
+  return { x: center.x + dx * t, y: center.y + dy * t };
+}
+
+interface ArrowLine {
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  color: string;
+  width: number;
+}
+
+// Arrows run between the edges of the widgets they connect, or from their own end points
+function arrowLine(arrow: MuralWidget, byId: Map<string, MuralWidget>): ArrowLine | undefined {
+  const record = arrow as WidgetRecord;
+  const endOf = (end: 'start' | 'end') => {
+    const widget = byId.get(record[`${end}Widget`]);
+    if (widget) return { box: widgetBounds(widget) };
+    const x = record[`${end}X`];
+    const y = record[`${end}Y`];
+    return typeof x === 'number' && typeof y === 'number' ? { point: { x, y } } : undefined;
+  };
+  const start = endOf('start');
+  const end = endOf('end');
+  if (!start || !end) return undefined;
+
+  const anchor = (side: typeof start) => side.point ?? centerOf(side.box!);
+  const style = styleOf(arrow);
+  return {
+    start: start.point ?? edgePoint(start.box!, anchor(end)),
+    end: end.point ?? edgePoint(end.box!, anchor(start)),
+    color: color(style.color, '#424242'),
+    width: typeof style.width === 'number' ? style.width : 2
+  };
+}
+
+function lineBounds({ start, end }: ArrowLine): Bounds {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y)
+  };
+}
+
+// Draws widgets as an SVG preview: areas as labelled frames, sticky notes and shapes
+// in their colors and outlines with wrapped text, tables as grids and arrows as lines
+// between the widgets they connect. Canvas coordinates are kept in the viewBox and the
+// image is scaled through its width and height.
+export function renderMuralSvg(widgets: MuralWidget[], options: SvgRenderOptions = {}): SvgRender {
+  const byId = new Map(widgets.map(widget => [widget.id, widget]));
+  const placed = widgets.filter(widget => widgetKind(widget) !== 'arrow');
+  const arrows = widgets
+    .filter(widget => widgetKind(widget) === 'arrow')
+    .flatMap(arrow => {
+      const line = arrowLine(arrow, byId);
+      return line ? [line] : [];
+    });
+
+  const boardBounds = (): Bounds => {
+    const boxes = [...placed.map(widgetBounds), ...arrows.map(lineBounds)];
+    if (boxes.length === 0) return expandBounds({ x: 0, y: 0, width: 0, height: 0 }, MARGIN);
+    const left = Math.min(...boxes.map(box => box.x));
+    const top = Math.min(...boxes.map(box => box.y));
+    return expandBounds({
+      x: left,
+      y: top,
+      width: Math.max(...boxes.map(box => box.x + box.width)) - left,
+      height: Math.max(...boxes.map(box => box.y + box.height)) - top
+    }, MARGIN);
+  };
+  const view = options.region ?? boardBounds();
+
+  const visible = placed
+    .filter(widget => intersects(widgetBounds(widget), view))
+    .sort((a, b) => {
+      const layer = (widget: MuralWidget) => {
+        const index = LAYERS.indexOf(widgetKind(widget));
+        return index === -1 ? LAYERS.indexOf('file') : index;
+      };
+      // Larger areas go underneath smaller ones nested in them
+      return layer(a) - layer(b) || (widgetKind(a) === 'area' ? boundsArea(widgetBounds(b)) - boundsArea(widgetBounds(a)) : 0);
+    });
+  const visibleArrows = arrows.filter(arrow => intersects(lineBounds(arrow), view));
+
+  const maxSize = options.maxSize ?? DEFAULT_SVG_SIZE;
+  const scale = Math.min(1, maxSize / Math.max(view.width, view.height, 1));
+  const markerColors = [...new Set(visibleArrows.map(arrow => arrow.color))];
+  const markers = markerColors.map((markerColor, i) =>
+    `<marker id="arrowhead-${i}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="${markerColor}"/></marker>`);
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.max(1, Math.round(view.width * scale))}" height="${Math.max(1, Math.round(view.height * scale))}" viewBox="${[view.x, view.y, view.width, view.height].map(number).join(' ')}" font-family="Helvetica, Arial, sans-serif">`,
+    markers.length > 0 ? `<defs>${markers.join('')}</defs>` : '',
+    `<rect x="${number(view.x)}" y="${number(view.y)}" width="${number(view.width)}" height="${number(view.height)}" fill="#FFFFFF"/>`,
+    ...visible.map(renderWidget),
+    ...visibleArrows.map(arrow =>
+      `<line x1="${number(arrow.start.x)}" y1="${number(arrow.start.y)}" x2="${number(arrow.end.x)}" y2="${number(arrow.end.y)}" stroke="${arrow.color}" stroke-width="${number(arrow.width)}" marker-end="url(#arrowhead-${markerColors.indexOf(arrow.color)})"/>`),
+    '</svg>'
+  ].filter(Boolean).join('\n');
+
+  return { svg, bounds: view, scale, widgetCount: visible.length + visibleArrows.length };
+}
@@ -0,0 +1,199 @@
+import { z } from 'zod';
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { MuralClient } from './mural-client.js';
+import { MuralApiError, MuralScopeError, type MuralErrorCode } from './errors.js';
+
+// Everything a tool handler needs to do its work; passed in so handlers can be tested with fakes
+export interface ToolContext {
+  client: MuralClient;
+}
+
+export interface ToolDefinition<S extends z.ZodObject = z.ZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  // OAuth scope checked before the handler runs; omit for tools that must work before authentication
+  requiredScope?: string;
+  handler: (args: z.infer<S>, context: ToolContext) => Promise<CallToolResult>;
+}
+
+// Identity helper so each definition infers handler argument types from its own schema
+export function defineTool<S extends z.ZodObject>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  return tool;
+}
+
+// Wraps a JSON-serializable payload in the text content shape every tool returns
+export function jsonResult(data: unknown): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(data, null, 2)
+      }
+    ],
+  };
+}
+
+// For tools whose output is a document (Markdown, CSV, SVG) rather than structured data
+export function textResult(text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text
+      }
+    ],
+  };
+}
+
+// Binary content such as rendered previews, base64-encoded for clients that show images
+export function imageResult(data: Buffer | string, mimeType: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'image',
+        data: Buffer.from(data).toString('base64'),
+        mimeType
+      }
+    ],
+  };
+}
+
+// A document returned as an embedded resource, so clients can keep or display it by URI
+export function resourceResult(uri: string, mimeType: string, text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'resource',
+        resource: { uri, mimeType, text }
+      }
+    ],
+  };
+}
+
+// API error codes plus the failures that happen before a tool reaches the API
+export type ToolErrorCode = MuralErrorCode | 'INVALID_ARGUMENTS' | 'UNKNOWN_TOOL' | 'INTERNAL_ERROR';
+
+class UnknownToolError extends Error {}
+
+// A thrown value as a plain object with a machine-readable `code`; also used for the
+// per-item errors of bulk tools
+export function describeError(error: unknown): { code: ToolErrorCode; message: string } & Record<string, unknown> {
+  if (error instanceof MuralApiError) {
+    return { ...error.toJSON(), code: error.code, message: error.message };
+  }
+  if (error instanceof z.ZodError) {
+    const issues = error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    }));
+    return {
+      code: 'INVALID_ARGUMENTS',
+      message: `Invalid arguments: ${issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ')}`,
+      issues
+    };
+  }
+  if (error instanceof UnknownToolError) {
+    return { code: 'UNKNOWN_TOOL', message: error.message };
+  }
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : 'Unknown error occurred'
+  };
+}
+
+// For protocol requests other than tool calls (resources, prompts), which report failures as
+// JSON-RPC errors: bad input and missing items are invalid params, the rest internal errors.
+// The machine-readable code travels in the error data.
+export function toMcpError(error: unknown, data: Record<string, unknown> = {}): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  const { message, ...details } = describeError(error);
+  const invalid = ['INVALID_ARGUMENTS', 'NOT_FOUND', 'VALIDATION_ERROR'].includes(details.code);
+  return new McpError(invalid ? ErrorCode.InvalidParams : ErrorCode.InternalError, message, { ...details, ...data });
+}
+
+// Serializes any thrown value into a tool error with a machine-readable `code`
+export function errorResult(toolName: string, error: unknown): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          error: true,
+          ...describeError(error),
+          tool: toolName
+        }, null, 2)
+      }
+    ],
+    isError: true,
+  };
+}
+
+// Derives the MCP input schema from a tool's zod schema. Objects are closed unless the
+// zod schema explicitly describes extra keys (e.g. records), matching the hand-written schemas.
+export function toInputSchema(schema: z.ZodObject): Tool['inputSchema'] {
+  const jsonSchema = z.toJSONSchema(schema, {
+    io: 'input',
+    override: (ctx) => {
+      const node = ctx.jsonSchema;
+      if (node.type === 'object' && node.properties && node.additionalProperties === undefined) {
+        node.additionalProperties = false;
+      }
+    }
+  }) as Record<string, unknown>;
+
+  delete jsonSchema.$schema;
+  return jsonSchema as Tool['inputSchema'];
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition<any>>();
+
+  constructor(tools: ToolDefinition<any>[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  register(tool: ToolDefinition<any>): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): ToolDefinition<any> | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toInputSchema(tool.schema)
+    }));
+  }
+
+  async call(name: string, args: unknown, context: ToolContext): Promise<CallToolResult> {
+    try {
+      const tool = this.tools.get(name);
+      if (!tool) {
+        throw new UnknownToolError(`Unknown tool: ${name}`);
+      }
+
+      const parsedArgs = tool.schema.parse(args || {});
+
+      if (tool.requiredScope) {
+        const scopeCheck = await context.client.checkScope(tool.requiredScope);
+        if (!scopeCheck.hasScope) {
+          throw MuralScopeError.fromScopeCheck(scopeCheck);
+        }
+      }
+
+      return await tool.handler(parsedArgs, context);
+    } catch (error) {
+      return errorResult(name, error);
+    }
+  }
+}
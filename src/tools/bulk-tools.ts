@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { defineTool, jsonResult, describeError } from '../tool-registry.js';
+import { DEFAULT_BULK_CONCURRENCY, updatableType } from '../mural-client.js';
+import { MuralNotFoundError } from '../errors.js';
+import { widgetKind, widgetText, type WidgetRecord } from '../widget-content.js';
+import type { MuralWidget, UpdateWidgetRequest } from '../types.js';
+import { muralIdSchema, widgetIdSchema, widgetUpdatesSchema } from './schemas.js';
+
+// Largest number of widgets one bulk call accepts
+export const MAX_BULK_ITEMS = 500;
+
+const bulkShape = {
+  dryRun: z.boolean().default(false).describe('List what would change without changing anything (default: false)'),
+  concurrency: z.number().int().min(1).max(10).default(DEFAULT_BULK_CONCURRENCY)
+    .describe(`Requests in flight at once; every request still goes through the rate limiter (default: ${DEFAULT_BULK_CONCURRENCY})`)
+};
+
+// Field-by-field differences an update would make; style keys are compared one by one
+export function plannedChanges(widget: MuralWidget, updates: UpdateWidgetRequest): Record<string, { from: unknown; to: unknown }> {
+  const record = widget as WidgetRecord;
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const [field, value] of Object.entries(updates)) {
+    if (value === undefined) continue;
+    if (field === 'style' && typeof value === 'object') {
+      for (const [key, styleValue] of Object.entries(value as Record<string, unknown>)) {
+        if (record.style?.[key] !== styleValue) {
+          changes[`style.${key}`] = { from: record.style?.[key], to: styleValue };
+        }
+      }
+    } else if (record[field] !== value) {
+      changes[field] = { from: record[field], to: value };
+    }
+  }
+  return changes;
+}
+
+function summarize(widget: MuralWidget) {
+  const text = widgetText(widget);
+  return {
+    type: widgetKind(widget),
+    ...(text && { text: text.length > 80 ? `${text.slice(0, 79)}…` : text })
+  };
+}
+
+function outcomeMessage(verb: string, succeeded: number, total: number, dryRun: boolean, muralId: string) {
+  const failed = total - succeeded;
+  const subject = `${succeeded} of ${total} widget${total === 1 ? '' : 's'}`;
+  return dryRun
+    ? `Dry run: would ${verb} ${subject} in mural ${muralId}${failed ? `; ${failed} would fail` : ''}. Nothing was changed`
+    : `${verb[0].toUpperCase()}${verb.slice(1)}d ${subject} in mural ${muralId}${failed ? `; ${failed} failed` : ''}`;
+}
+
+export const deleteWidgetsTool = defineTool({
+  name: 'delete-widgets',
+  description: `Delete many widgets at once (max ${MAX_BULK_ITEMS} per request). Reports success or a typed error per widget, so one failure does not stop the rest. Use dryRun to preview`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetIds: z.array(widgetIdSchema).min(1).max(MAX_BULK_ITEMS).describe('IDs of the widgets to delete'),
+    ...bulkShape
+  }),
+  handler: async ({ muralId, widgetIds, dryRun, concurrency }, { client }) => {
+    let results;
+    if (dryRun) {
+      const existing = new Map((await client.getMuralWidgets(muralId)).map(widget => [widget.id, widget]));
+      results = widgetIds.map(widgetId => {
+        const widget = existing.get(widgetId);
+        return widget
+          ? { widgetId, status: 'would-delete', ...summarize(widget) }
+          : { widgetId, status: 'failed', error: describeError(new MuralNotFoundError(`Widget ${widgetId} not found in mural ${muralId}`)) };
+      });
+    } else {
+      results = (await client.deleteWidgets(muralId, widgetIds, { concurrency })).map(result => result.ok
+        ? { widgetId: result.id, status: 'deleted' }
+        : { widgetId: result.id, status: 'failed', error: describeError(result.error) });
+    }
+
+    const succeeded = results.filter(result => result.status !== 'failed').length;
+    return jsonResult({
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+      dryRun,
+      muralId,
+      message: outcomeMessage('delete', succeeded, results.length, dryRun, muralId)
+    });
+  }
+});
+
+export const updateWidgetsTool = defineTool({
+  name: 'update-widgets',
+  description: `Update many widgets of any updatable type at once (max ${MAX_BULK_ITEMS} per request), e.g. to recolor or move a cluster. Reports success or a typed error per widget. Use dryRun to see the field-by-field changes first`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    updates: z.array(z.object({
+      widgetId: widgetIdSchema,
+      updates: widgetUpdatesSchema
+    })).min(1).max(MAX_BULK_ITEMS).describe('The widgets to update and the properties to change on each'),
+    ...bulkShape
+  }),
+  handler: async ({ muralId, updates, dryRun, concurrency }, { client }) => {
+    let results;
+    if (dryRun) {
+      const existing = new Map((await client.getMuralWidgets(muralId)).map(widget => [widget.id, widget]));
+      results = updates.map(({ widgetId, updates: fields }) => {
+        try {
+          const widget = existing.get(widgetId);
+          if (!widget) {
+            throw new MuralNotFoundError(`Widget ${widgetId} not found in mural ${muralId}`);
+          }
+          return { widgetId, status: 'would-update', widgetType: updatableType(widget), changes: plannedChanges(widget, fields) };
+        } catch (error) {
+          return { widgetId, status: 'failed', error: describeError(error) };
+        }
+      });
+    } else {
+      results = (await client.updateWidgets(muralId, updates, { concurrency })).map(result => result.ok
+        ? { widgetId: result.id, status: 'updated', widgetType: result.value.widgetType, widget: result.value.widget }
+        : { widgetId: result.id, status: 'failed', error: describeError(result.error) });
+    }
+
+    const succeeded = results.filter(result => result.status !== 'failed').length;
+    return jsonResult({
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+      dryRun,
+      muralId,
+      message: outcomeMessage('update', succeeded, results.length, dryRun, muralId)
+    });
+  }
+});
+
+export const bulkTools = [
+  deleteWidgetsTool,
+  updateWidgetsTool
+];
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, imageResult, resourceResult } from '../tool-registry.js';
+import { renderMuralOutline } from '../outline.js';
+import { exportBoardDocument } from '../board-export.js';
+import type { BoardItem } from '../board-import.js';
+import { widgetTableRows, WIDGET_TABLE_COLUMNS } from '../widget-table.js';
+import { formatCsv } from '../csv.js';
+import { renderMuralSvg, DEFAULT_SVG_SIZE } from '../svg-render.js';
+import { expandUriTemplate } from '../resource-registry.js';
+import { MURAL_PREVIEW_URI } from '../resources/mural-resources.js';
+import { writeLocalFile } from '../local-file.js';
+import { muralIdSchema, boundsSchema } from './schemas.js';
+
+export const exportMuralOutlineTool = defineTool({
+  name: 'export-mural-outline',
+  description: 'Export a mural as a readable Markdown outline: areas become sections, titles headings, sticky notes bullets and tables Markdown tables, in top-to-bottom, left-to-right order. Much more compact than get-mural-widgets for summarizing a board',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    includeConnections: z.boolean().optional().describe('Append a "Connections" section listing arrows between widgets (optional, default false)')
+  }),
+  handler: async ({ muralId, includeConnections }, { client }) => {
+    const [mural, widgets] = await Promise.all([
+      client.getMural(muralId),
+      client.getMuralWidgets(muralId)
+    ]);
+
+    return textResult(renderMuralOutline(widgets, {
+      title: mural.title || `Mural ${muralId}`,
+      includeConnections
+    }));
+  }
+});
+
+function countItems(items: BoardItem[], counts: Record<string, number> = {}): Record<string, number> {
+  for (const item of items) {
+    counts[item.type] = (counts[item.type] ?? 0) + 1;
+    if (item.children) countItems(item.children, counts);
+  }
+  return counts;
+}
+
+export const exportBoardTool = defineTool({
+  name: 'export-board',
+  description: 'Export a mural\'s areas, titles, sticky notes, text boxes, shapes, tables and arrows as a portable board document (the JSON format import-board reads), e.g. for backups or to move a board to another workspace. Positions start at (0, 0), items inside areas are nested under them, arrows refer to their ends by refs instead of widget IDs, and server-side fields are left out. Returns the document inline, or writes it to a new local file when filePath is given (an existing file is only replaced with overwrite); import-board re-creates the board from either. Images, files and comments are listed as skipped',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    filePath: z.string().min(1).optional().describe('Write the document to this local file instead of returning it, e.g. "~/backups/retro.json"; missing folders are created (optional)'),
+    overwrite: z.boolean().default(false).describe('Replace the file at filePath if it already exists (default: false, fails instead)')
+  }),
+  handler: async ({ muralId, filePath, overwrite }, { client }) => {
+    const [mural, widgets] = await Promise.all([
+      client.getMural(muralId),
+      client.getMuralWidgets(muralId)
+    ]);
+    const { document, skipped } = exportBoardDocument(widgets, {
+      muralId,
+      ...(mural.title && { title: mural.title }),
+      exportedAt: new Date().toISOString()
+    });
+    const counts = countItems(document.items);
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    const skippedNote = skipped.length ? `; skipped ${skipped.length} that import-board cannot re-create` : '';
+
+    if (!filePath) {
+      return jsonResult({
+        document,
+        counts,
+        skipped,
+        muralId,
+        message: `Exported ${total} widget${total === 1 ? '' : 's'} from mural ${muralId}${skippedNote}. Pass the document to import-board to re-create the board`
+      });
+    }
+
+    const target = await writeLocalFile(filePath, JSON.stringify(document, null, 2) + '\n', overwrite);
+    return jsonResult({
+      filePath: target,
+      counts,
+      skipped,
+      muralId,
+      message: `Exported ${total} widget${total === 1 ? '' : 's'} from mural ${muralId} to ${target}${skippedNote}. Pass the file to import-board to re-create the board`
+    });
+  }
+});
+
+export const exportWidgetsTableTool = defineTool({
+  name: 'export-widgets-table',
+  description: `Flatten a mural's widgets into CSV or TSV, one row per widget in reading order, e.g. to move sticky note content into a spreadsheet for affinity analysis. Columns: ${WIDGET_TABLE_COLUMNS.join(', ')} ("area" is the title of the smallest area containing the widget). Returns the table inline, or writes it to a new local file when filePath is given (an existing file is only replaced with overwrite). Text that a spreadsheet would run as a formula is prefixed with an apostrophe`,
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    format: z.enum(['csv', 'tsv']).default('csv').describe('Comma- or tab-separated output (default: csv)'),
+    columns: z.array(z.enum(WIDGET_TABLE_COLUMNS)).min(1).optional().describe(`Columns to include, in order (default: ${WIDGET_TABLE_COLUMNS.join(', ')})`),
+    types: z.array(z.string().min(1)).min(1).optional().describe('Only these widget types, e.g. ["sticky-note"] (optional)'),
+    filePath: z.string().min(1).optional().describe('Write the table to this local file instead of returning it, e.g. "~/research/retro.csv"; missing folders are created (optional)'),
+    overwrite: z.boolean().default(false).describe('Replace the file at filePath if it already exists (default: false, fails instead)'),
+    escapeFormulas: z.boolean().default(true).describe('Prefix text starting with =, +, - or @ with an apostrophe so spreadsheet apps show it instead of running it as a formula (default: true)')
+  }),
+  handler: async ({ muralId, format, columns, types, filePath, overwrite, escapeFormulas }, { client }) => {
+    const rows = widgetTableRows(await client.getMuralWidgets(muralId), { columns, types });
+    const rowCount = rows.length - 1;
+    const table = formatCsv(rows, format === 'tsv' ? '\t' : ',', { escapeFormulas });
+
+    if (!filePath) {
+      return textResult(table);
+    }
+
+    const target = await writeLocalFile(filePath, table, overwrite);
+    return jsonResult({
+      filePath: target,
+      format,
+      columns: rows[0],
+      rowCount,
+      muralId,
+      message: `Wrote ${rowCount} widget${rowCount === 1 ? '' : 's'} from mural ${muralId} to ${target}`
+    });
+  }
+});
+
+export const renderMuralSvgTool = defineTool({
+  name: 'render-mural-svg',
+  description: 'Draw a mural, or a region of it, as a scaled SVG preview so a layout can be looked at before and after edits: areas as labelled frames, sticky notes as colored squares with wrapped text, shapes in their kind, tables as grids, titles and text boxes as text, and arrows as lines between the widgets they connect',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    region: boundsSchema.optional().describe('Only draw this rectangle of the canvas (default: the whole board)'),
+    maxSize: z.number().int().min(100).max(8000).default(DEFAULT_SVG_SIZE).describe(`Longest side of the image in pixels; larger boards are scaled down (default: ${DEFAULT_SVG_SIZE})`),
+    output: z.enum(['resource', 'image', 'text']).default('resource')
+      .describe('Return the SVG as an embedded resource (default), as base64 image content for clients that display SVG images, or as plain text')
+  }),
+  handler: async ({ muralId, region, maxSize, output }, { client }) => {
+    const widgets = await client.getMuralWidgets(muralId);
+    const { svg, bounds, scale, widgetCount } = renderMuralSvg(widgets, { region, maxSize });
+
+    const result = output === 'image'
+      ? imageResult(svg, 'image/svg+xml')
+      : output === 'resource'
+        ? resourceResult(expandUriTemplate(MURAL_PREVIEW_URI, { muralId }), 'image/svg+xml', svg)
+        : textResult(svg);
+    if (output !== 'text') {
+      result.content.push(...jsonResult({
+        bounds,
+        scale,
+        widgetCount,
+        muralId,
+        message: `Rendered ${widgetCount} widget${widgetCount === 1 ? '' : 's'} of mural ${muralId} at ${Math.round(scale * 100)}% scale`
+      }).content);
+    }
+    return result;
+  }
+});
+
+export const exportTools = [
+  exportMuralOutlineTool,
+  exportBoardTool,
+  exportWidgetsTableTool,
+  renderMuralSvgTool
+];
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import path from 'path';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import { parseBoardDocument, planBoardImport, offsetPlan, MAX_IMPORT_ITEMS, type BoardDocumentFormat, type PlannedWidget } from '../board-import.js';
+import { readLocalFile } from '../local-file.js';
+import { muralIdSchema, placementSchema, xSchema, ySchema } from './schemas.js';
+
+function plannedView(widget: PlannedWidget & { widget?: { id: string } }) {
+  return {
+    ...(widget.widget && { widgetId: widget.widget.id }),
+    ...(widget.ref && { ref: widget.ref }),
+    type: widget.widgetType,
+    ...(widget.bounds && { bounds: widget.bounds }),
+    ...(typeof (widget.request.text ?? widget.request.title) === 'string' && { text: widget.request.text ?? widget.request.title })
+  };
+}
+
+// Formats named by file extension; other files are detected from their content
+const FORMAT_EXTENSIONS: Record<string, BoardDocumentFormat> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.csv': 'csv'
+};
+
+function countByType(widgets: PlannedWidget[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  widgets.forEach(widget => { counts[widget.widgetType] = (counts[widget.widgetType] ?? 0) + 1; });
+  return counts;
+}
+
+export const importBoardTool = defineTool({
+  name: 'import-board',
+  description: `Create a board from a declarative document (JSON, YAML, or CSV rows of sticky notes) describing areas, titles, sticky notes, text boxes, shapes and arrows, e.g. a workshop scaffold kept in git. Items have a "type" (area, title, sticky, text, shape, table, arrow), an optional "ref" other items refer to, and a position: x/y relative to the parent area (nest items under an area's "children" or use "in": ref) or next to another item with rightOf/leftOf/below/above. Areas without a size fit their children. Arrows connect refs with "from" and "to", or start and end at {x, y} points with "start" and "end". Tables hold their cells in "data". Documents written by export-board import as they are, inline or from the file it wrote (filePath). CSV needs a "text" column and may have ref, x, y, width, height, color and area (rows sharing an area are grouped into one). Everything is created in dependency order and undone as a single operation. Max ${MAX_IMPORT_ITEMS} items`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    document: z.string().min(1).optional().describe('The board document: {"items": [...]} or a list of items in JSON or YAML, or CSV with a header row (provide this or filePath)'),
+    filePath: z.string().min(1).optional().describe('Local file to read the board document from, e.g. one export-board wrote (provide this or document)'),
+    format: z.enum(['auto', 'json', 'yaml', 'csv']).default('auto').describe('Format of the document (default: from the file extension, or detected from its content)'),
+    origin: z.object({
+      x: xSchema,
+      y: ySchema
+    }).optional().describe('Where the document\'s (0, 0) goes on the mural; with placement "auto", the preferred position for the whole board (optional)'),
+    placement: placementSchema,
+    dryRun: z.boolean().default(false).describe('Return the planned widgets and positions without creating anything (default: false)')
+  }).refine(
+    args => Boolean(args.document) !== Boolean(args.filePath),
+    { message: 'Provide exactly one of document or filePath' }
+  ),
+  handler: async ({ muralId, document, filePath, format, origin, placement, dryRun }, { client }) => {
+    let text = document!;
+    let detected: BoardDocumentFormat | undefined;
+    if (filePath) {
+      const file = await readLocalFile(filePath);
+      text = file.contents;
+      detected = FORMAT_EXTENSIONS[path.extname(file.path).toLowerCase()];
+    }
+    let plan = planBoardImport(parseBoardDocument(text, format === 'auto' ? detected : format));
+
+    if (placement === 'auto') {
+      // The board moves as one block to free space, keeping its internal layout
+      const [spot] = await client.placeWidgets(muralId, [{ ...origin, width: plan.bounds.width, height: plan.bounds.height }]);
+      plan = offsetPlan(plan, spot.x - plan.bounds.x, spot.y - plan.bounds.y);
+    } else if (origin) {
+      plan = offsetPlan(plan, origin.x, origin.y);
+    }
+
+    if (dryRun) {
+      return jsonResult({
+        widgets: plan.widgets.map(plannedView),
+        counts: countByType(plan.widgets),
+        bounds: plan.bounds,
+        dryRun,
+        muralId,
+        message: `Dry run: would create ${plan.widgets.length} widget${plan.widgets.length === 1 ? '' : 's'} in mural ${muralId}. Nothing was changed`
+      });
+    }
+
+    const { widgets, operation } = await client.importBoard(muralId, plan);
+    return jsonResult({
+      widgets: widgets.map(plannedView),
+      refs: Object.fromEntries(widgets.filter(widget => widget.ref).map(widget => [widget.ref, widget.widget.id])),
+      counts: countByType(widgets),
+      bounds: plan.bounds,
+      ...(operation && { operationId: operation.id }),
+      dryRun,
+      muralId,
+      message: `Imported ${widgets.length} widget${widgets.length === 1 ? '' : 's'} into mural ${muralId}${operation ? `; undo with undo-operation ${operation.id}` : ''}`
+    });
+  }
+});
+
+export const importTools = [
+  importBoardTool
+];
@@ -0,0 +1,33 @@
+import type { ToolDefinition } from '../tool-registry.js';
+import { workspaceTools } from './workspace-tools.js';
+import { roomTools } from './room-tools.js';
+import { muralTools } from './mural-tools.js';
+import { templateTools } from './template-tools.js';
+import { systemTools } from './system-tools.js';
+import { widgetTools } from './widget-tools.js';
+import { widgetCreateTools } from './widget-create-tools.js';
+import { widgetUpdateTools } from './widget-update-tools.js';
+import { bulkTools } from './bulk-tools.js';
+import { journalTools } from './journal-tools.js';
+import { snapshotTools } from './snapshot-tools.js';
+import { importTools } from './import-tools.js';
+import { queryTools } from './query-tools.js';
+import { exportTools } from './export-tools.js';
+
+// Every tool the server exposes, in the order they are listed to clients
+export const allTools: ToolDefinition<any>[] = [
+  ...workspaceTools,
+  ...roomTools,
+  ...muralTools,
+  ...templateTools,
+  ...systemTools,
+  ...widgetTools,
+  ...widgetCreateTools,
+  ...widgetUpdateTools,
+  ...bulkTools,
+  ...journalTools,
+  ...snapshotTools,
+  ...importTools,
+  ...queryTools,
+  ...exportTools
+];
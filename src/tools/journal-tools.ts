@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { defineTool, jsonResult, describeError } from '../tool-registry.js';
+import { MAX_JOURNAL_OPERATIONS, type JournalOperation } from '../journal.js';
+import { normalizeWidgetKind } from '../widget-content.js';
+import { muralIdSchema } from './schemas.js';
+
+function operationView(operation: JournalOperation) {
+  return {
+    operationId: operation.id,
+    kind: operation.kind,
+    summary: operation.summary,
+    timestamp: new Date(operation.timestamp).toISOString(),
+    undone: Boolean(operation.undoneAt),
+    ...(operation.undoneAt && { undoneAt: new Date(operation.undoneAt).toISOString() }),
+    widgets: operation.entries.map(entry => ({
+      widgetId: entry.widgetId,
+      type: normalizeWidgetKind(entry.widgetType),
+      ...(entry.changes && { fields: Object.keys(entry.changes) }),
+      ...(entry.undone && !operation.undoneAt && { undone: true })
+    }))
+  };
+}
+
+export const listRecentOperationsTool = defineTool({
+  name: 'list-recent-operations',
+  description: `List the widget creates, updates and deletes made through this server on a mural, most recent first (the last ${MAX_JOURNAL_OPERATIONS} are kept). Use the operation IDs with undo-operation`,
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    limit: z.number().int().min(1).max(MAX_JOURNAL_OPERATIONS).default(20).describe('Maximum number of operations to return (default: 20)'),
+    includeUndone: z.boolean().default(true).describe('Include operations that were already undone (default: true)')
+  }),
+  handler: async ({ muralId, limit, includeUndone }, { client }) => {
+    const operations = (await client.getRecentOperations(muralId))
+      .filter(operation => includeUndone || !operation.undoneAt)
+      .slice(0, limit);
+
+    return jsonResult({
+      operations: operations.map(operationView),
+      count: operations.length,
+      muralId,
+      message: operations.length === 0
+        ? `No operations recorded for mural ${muralId}`
+        : `Found ${operations.length} operation${operations.length === 1 ? '' : 's'} for mural ${muralId}`
+    });
+  }
+});
+
+export const undoOperationTool = defineTool({
+  name: 'undo-operation',
+  description: 'Undo a recorded operation on a mural (default: the most recent one not yet undone). Created widgets are deleted, updated fields are restored and deleted widgets are re-created with new IDs. When some widgets fail, undoing the operation again retries only those. Refuses when a later operation changed the same widgets, unless force is set',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    operationId: z.string().min(1).optional().describe('ID of the operation to undo, from list-recent-operations (default: the most recent one not yet undone)'),
+    force: z.boolean().default(false).describe('Undo even if later operations changed the same widgets, overwriting their changes (default: false)')
+  }),
+  handler: async ({ muralId, operationId, force }, { client }) => {
+    const { operation, results } = await client.undoOperation(muralId, operationId, { force });
+    const failed = results.filter(result => result.status === 'failed').length;
+
+    return jsonResult({
+      operation: operationView(operation),
+      results: results.map(({ error, ...result }) => ({ ...result, ...(error !== undefined && { error: describeError(error) }) })),
+      succeeded: results.length - failed,
+      failed,
+      muralId,
+      message: `Undid "${operation.summary}" (${operation.id}) in mural ${muralId}${failed ? `; ${failed} of ${results.length} widget${results.length === 1 ? '' : 's'} could not be reverted, undo ${operation.id} again to retry them` : ''}`
+    });
+  }
+});
+
+export const journalTools = [
+  listRecentOperationsTool,
+  undoOperationTool
+];
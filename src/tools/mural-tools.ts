@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import { roomIdSchema, muralIdSchema } from './schemas.js';
+
+const muralTitleSchema = z.string().min(1).describe('Title of the mural');
+const muralDescriptionSchema = z.string().describe('Description of the mural');
+const backgroundColorSchema = z.string().describe('Background color of the mural canvas, e.g. "#FFFFFFFF"');
+
+export const createMuralTool = defineTool({
+  name: 'create-mural',
+  description: 'Create a new, empty mural in a room',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    roomId: roomIdSchema.describe('The unique identifier of the room to create the mural in'),
+    title: muralTitleSchema.optional(),
+    description: muralDescriptionSchema.optional(),
+    backgroundColor: backgroundColorSchema.optional(),
+    width: z.number().positive().optional().describe('Canvas width in pixels (optional)'),
+    height: z.number().positive().optional().describe('Canvas height in pixels (optional)'),
+    infinite: z.boolean().optional().describe('Create an infinite canvas instead of a fixed-size one (optional)')
+  }),
+  handler: async (args, { client }) => {
+    const mural = await client.createMural(args);
+
+    return jsonResult({
+      mural,
+      roomId: args.roomId,
+      message: `Successfully created mural ${mural.id}${args.title ? ` "${args.title}"` : ''} in room ${args.roomId}`
+    });
+  }
+});
+
+export const updateMuralTool = defineTool({
+  name: 'update-mural',
+  description: 'Update the title, description or background color of a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema.describe('The unique identifier of the mural to update'),
+    updates: z.object({
+      title: muralTitleSchema.optional(),
+      description: muralDescriptionSchema.optional(),
+      backgroundColor: backgroundColorSchema.optional()
+    }).describe('Properties to update')
+  }),
+  handler: async ({ muralId, updates }, { client }) => {
+    const mural = await client.updateMural(muralId, updates);
+
+    return jsonResult({
+      mural,
+      muralId,
+      message: `Successfully updated mural ${muralId}`
+    });
+  }
+});
+
+export const duplicateMuralTool = defineTool({
+  name: 'duplicate-mural',
+  description: 'Create a copy of an existing mural, including all of its content',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema.describe('The unique identifier of the mural to copy'),
+    title: muralTitleSchema.optional().describe('Title of the copy (optional)'),
+    roomId: roomIdSchema.optional().describe('Room to place the copy in (optional, defaults to the room of the original)')
+  }),
+  handler: async ({ muralId, title, roomId }, { client }) => {
+    const mural = await client.duplicateMural(muralId, { title, roomId });
+
+    return jsonResult({
+      mural,
+      sourceMuralId: muralId,
+      message: `Successfully duplicated mural ${muralId} as ${mural.id}`
+    });
+  }
+});
+
+export const deleteMuralTool = defineTool({
+  name: 'delete-mural',
+  description: 'Permanently delete a mural and all of its content. Requires confirm: true',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema.describe('The unique identifier of the mural to delete'),
+    confirm: z.literal(true, { error: 'Deleting a mural cannot be undone. Pass confirm: true to proceed' })
+      .describe('Must be true to confirm the deletion')
+  }),
+  handler: async ({ muralId }, { client }) => {
+    await client.deleteMural(muralId);
+
+    return jsonResult({
+      muralId,
+      message: `Successfully deleted mural ${muralId}`
+    });
+  }
+});
+
+export const muralTools = [
+  createMuralTool,
+  updateMuralTool,
+  duplicateMuralTool,
+  deleteMuralTool
+];
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import { queryWidgets } from '../widget-query.js';
+import { searchWidgets, createTextMatcher, matchSnippet } from '../widget-search.js';
+import { widgetKind, widgetText } from '../widget-content.js';
+import { MuralNotFoundError, MuralScopeError } from '../errors.js';
+import type { MuralBoard } from '../types.js';
+import { muralIdSchema, workspaceIdSchema, widgetIdSchema, boundsSchema, dateSchema } from './schemas.js';
+
+export const queryWidgetsTool = defineTool({
+  name: 'query-widgets',
+  description: 'Find widgets on a mural by position and metadata: inside a region, inside an area (by ID or title), within a distance of another widget, and by type, author and creation/update date. All filters combine; results are in top-to-bottom, left-to-right order',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    region: boundsSchema.optional().describe('Only widgets in this rectangle of the canvas (optional)'),
+    insideArea: z.string().min(1).optional().describe('Only widgets inside the area with this ID or title, e.g. "Ideas" (optional)'),
+    near: z.object({
+      widgetId: widgetIdSchema.describe('The widget to measure from'),
+      distance: z.number().min(0).describe('Maximum gap between the widgets\' edges in pixels')
+    }).optional().describe('Only widgets within a distance of another widget (optional)'),
+    match: z.enum(['center', 'within', 'intersects']).optional()
+      .describe('How widgets must relate to region and insideArea: "center" (default) if their center is inside, "within" if fully inside, "intersects" on any overlap'),
+    types: z.array(z.string().min(1)).min(1).optional().describe('Only these widget types, e.g. ["sticky-note", "text-box"] (optional)'),
+    createdBy: z.string().min(1).optional().describe('Only widgets created by this user ID, email or name (optional)'),
+    createdAfter: dateSchema.optional().describe('Only widgets created on or after this date (optional)'),
+    createdBefore: dateSchema.optional().describe('Only widgets created on or before this date; a date without a time includes that whole day (optional)'),
+    updatedAfter: dateSchema.optional().describe('Only widgets last updated on or after this date (optional)'),
+    updatedBefore: dateSchema.optional().describe('Only widgets last updated on or before this date; a date without a time includes that whole day (optional)'),
+    limit: z.number().int().min(1).optional().describe('Maximum number of widgets to return (optional)')
+  }),
+  handler: async ({ muralId, ...query }, { client }) => {
+    const widgets = await client.getMuralWidgets(muralId);
+    const { widgets: matches, total, area } = queryWidgets(widgets, query);
+
+    return jsonResult({
+      widgets: matches,
+      count: matches.length,
+      total,
+      muralId,
+      ...(area && { area: { id: area.id, title: widgetText(area) } }),
+      message: total === 0
+        ? `No widgets matched in mural ${muralId}`
+        : `Found ${total} matching widget${total === 1 ? '' : 's'}${matches.length < total ? `, returning the first ${matches.length}` : ''}`
+    });
+  }
+});
+
+export const searchWidgetsTool = defineTool({
+  name: 'search-widgets',
+  description: 'Search the text of sticky notes, text boxes, titles, shapes and table cells on one mural or on every mural in a workspace. Supports substring, regular expression and fuzzy matching; each hit has the widget ID, a snippet around the match, the mural and the widget position',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    query: z.string().min(1).describe('Text to search for, or a regular expression when mode is "regex"'),
+    muralId: muralIdSchema.optional().describe('Search this mural (provide this or workspaceId)'),
+    workspaceId: workspaceIdSchema.optional().describe('Search every mural in this workspace (provide this or muralId)'),
+    mode: z.enum(['substring', 'regex', 'fuzzy']).default('substring')
+      .describe('"substring" (default) for plain text, "regex" for a JavaScript regular expression, "fuzzy" to tolerate typos and word endings'),
+    caseSensitive: z.boolean().default(false).describe('Match case exactly (substring and regex only, default: false)'),
+    minScore: z.number().min(0).max(1).optional().describe('Minimum similarity for fuzzy matches between 0 and 1 (default: 0.75)'),
+    types: z.array(z.string().min(1)).min(1).optional().describe('Only search these widget types, e.g. ["sticky-note"] (optional)'),
+    limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of hits to return (default: 50)')
+  }).refine(
+    args => Boolean(args.muralId) !== Boolean(args.workspaceId),
+    { message: 'Provide exactly one of muralId or workspaceId' }
+  ),
+  handler: async ({ query, muralId, workspaceId, mode, caseSensitive, minScore, types, limit }, { client }) => {
+    const options = { mode, caseSensitive, minScore, types };
+    // Fail on an invalid regex before fetching anything
+    createTextMatcher(query, options);
+
+    const murals: Pick<MuralBoard, 'id' | 'title'>[] = muralId
+      ? [{ id: muralId, title: (await client.getMural(muralId)).title }]
+      : await client.getWorkspaceMurals(workspaceId!);
+
+    const hits = [];
+    const skippedMurals = [];
+    for (const mural of murals) {
+      let widgets;
+      try {
+        widgets = await client.getMuralWidgets(mural.id);
+      } catch (error) {
+        // In a workspace search, murals the user can't open shouldn't sink the whole search
+        if (workspaceId && (error instanceof MuralNotFoundError || error instanceof MuralScopeError)) {
+          skippedMurals.push({ muralId: mural.id, title: mural.title, reason: error.message });
+          continue;
+        }
+        throw error;
+      }
+
+      for (const { widget, text, match } of searchWidgets(widgets, query, options)) {
+        hits.push({
+          muralId: mural.id,
+          muralTitle: mural.title,
+          widgetId: widget.id,
+          type: widgetKind(widget),
+          snippet: matchSnippet(text, match),
+          matchedText: text.slice(match.index, match.index + match.length),
+          ...(mode === 'fuzzy' && { score: Math.round(match.score * 100) / 100 }),
+          position: { x: widget.x, y: widget.y }
+        });
+      }
+    }
+
+    if (mode === 'fuzzy') {
+      hits.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+    }
+    const returned = hits.slice(0, limit);
+    const muralCount = new Set(hits.map(hit => hit.muralId)).size;
+
+    return jsonResult({
+      hits: returned,
+      count: returned.length,
+      total: hits.length,
+      searchedMurals: murals.length - skippedMurals.length,
+      ...(skippedMurals.length > 0 && { skippedMurals }),
+      message: hits.length === 0
+        ? `No widgets matching "${query}" in ${murals.length === 1 ? 'the mural' : `${murals.length} murals`}`
+        : `Found ${hits.length} match${hits.length === 1 ? '' : 'es'} for "${query}" in ${muralCount} mural${muralCount === 1 ? '' : 's'}${returned.length < hits.length ? `, returning the first ${returned.length}` : ''}`
+    });
+  }
+});
+
+export const findFreeSpaceTool = defineTool({
+  name: 'find-free-space',
+  description: 'Find the nearest empty rectangle of a given size on a mural, next to a widget or to the right of or below the existing content. Use the returned x and y to create widgets that do not overlap anything',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    width: z.number().positive().describe('Width of the space needed in pixels'),
+    height: z.number().positive().describe('Height of the space needed in pixels'),
+    nearWidgetId: widgetIdSchema.optional().describe('Look next to this widget instead of next to all the content (optional)'),
+    direction: z.enum(['right', 'below']).default('right').describe('Which side to start looking on (default: right)'),
+    gap: z.number().min(0).optional().describe('Minimum distance from other widgets in pixels (default: 20)')
+  }),
+  handler: async ({ muralId, width, height, nearWidgetId, direction, gap }, { client }) => {
+    const space = await client.findFreeSpace(muralId, { width, height, nearWidgetId, direction, gap });
+    return jsonResult({
+      ...space,
+      muralId,
+      message: `Free ${width}x${height} space at (${Math.round(space.x)}, ${Math.round(space.y)})${nearWidgetId ? ` near widget ${nearWidgetId}` : ''}`
+    });
+  }
+});
+
+export const queryTools = [
+  queryWidgetsTool,
+  searchWidgetsTool,
+  findFreeSpaceTool
+];
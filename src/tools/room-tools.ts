@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import { workspaceIdSchema, roomIdSchema, paginationShape } from './schemas.js';
+
+const roomTypeSchema = z.enum(['open', 'private']).describe('Room visibility: "open" rooms are visible to all workspace members, "private" rooms only to invited members');
+
+export const listWorkspaceRoomsTool = defineTool({
+  name: 'list-workspace-rooms',
+  description: 'List the rooms in a workspace, to find the room IDs used by list-room-boards and other room tools',
+  requiredScope: 'rooms:read',
+  schema: z.object({
+    workspaceId: workspaceIdSchema,
+    ...paginationShape
+  }),
+  handler: async ({ workspaceId, limit, cursor, fetchAll }, { client }) => {
+    const { items: rooms, next } = await client.getWorkspaceRoomsPage(workspaceId, { limit, cursor, fetchAll });
+
+    return jsonResult({
+      rooms,
+      count: rooms.length,
+      workspaceId,
+      next: next ?? null,
+      message: rooms.length === 0
+        ? `No rooms found in workspace ${workspaceId}`
+        : `Found ${rooms.length} room${rooms.length === 1 ? '' : 's'} in workspace${next ? ' (more available, pass "next" as cursor)' : ''}`
+    });
+  }
+});
+
+export const getRoomTool = defineTool({
+  name: 'get-room',
+  description: 'Get detailed information about a specific room',
+  requiredScope: 'rooms:read',
+  schema: z.object({
+    roomId: roomIdSchema
+  }),
+  handler: async ({ roomId }, { client }) => {
+    const room = await client.getRoom(roomId);
+    return jsonResult(room);
+  }
+});
+
+export const createRoomTool = defineTool({
+  name: 'create-room',
+  description: 'Create a new room in a workspace',
+  requiredScope: 'rooms:write',
+  schema: z.object({
+    workspaceId: workspaceIdSchema.describe('The unique identifier of the workspace to create the room in'),
+    name: z.string().min(1).describe('Name of the room'),
+    type: roomTypeSchema.default('open'),
+    description: z.string().optional().describe('Description of the room (optional)'),
+    confidential: z.boolean().optional().describe('Mark the room as confidential (optional)')
+  }),
+  handler: async ({ workspaceId, name, type, description, confidential }, { client }) => {
+    const room = await client.createRoom({ workspaceId, name, type, description, confidential });
+
+    return jsonResult({
+      room,
+      workspaceId,
+      message: `Successfully created ${type} room "${name}" in workspace ${workspaceId}`
+    });
+  }
+});
+
+export const updateRoomTool = defineTool({
+  name: 'update-room',
+  description: 'Update the name, description or confidentiality of a room',
+  requiredScope: 'rooms:write',
+  schema: z.object({
+    roomId: roomIdSchema.describe('The unique identifier of the room to update'),
+    updates: z.object({
+      name: z.string().min(1).optional().describe('New name of the room'),
+      description: z.string().optional().describe('New description of the room'),
+      confidential: z.boolean().optional().describe('Whether the room is confidential')
+    }).describe('Properties to update')
+  }),
+  handler: async ({ roomId, updates }, { client }) => {
+    const room = await client.updateRoom(roomId, updates);
+
+    return jsonResult({
+      room,
+      roomId,
+      message: `Successfully updated room ${roomId}`
+    });
+  }
+});
+
+export const deleteRoomTool = defineTool({
+  name: 'delete-room',
+  description: 'Delete a room from its workspace',
+  requiredScope: 'rooms:write',
+  schema: z.object({
+    roomId: roomIdSchema.describe('The unique identifier of the room to delete')
+  }),
+  handler: async ({ roomId }, { client }) => {
+    await client.deleteRoom(roomId);
+
+    return jsonResult({
+      roomId,
+      message: `Successfully deleted room ${roomId}`
+    });
+  }
+});
+
+export const roomTools = [
+  listWorkspaceRoomsTool,
+  getRoomTool,
+  createRoomTool,
+  updateRoomTool,
+  deleteRoomTool
+];
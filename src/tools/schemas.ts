@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+// Shared zod fragments so the same argument is described identically across tools
+
+export const workspaceIdSchema = z.string().min(1).describe('The unique identifier of the workspace');
+export const roomIdSchema = z.string().min(1).describe('The unique identifier of the room');
+export const muralIdSchema = z.string().min(1).describe('The unique identifier of the mural');
+export const templateIdSchema = z.string().min(1).describe('The unique identifier of the template');
+export const widgetIdSchema = z.string().min(1).describe('The unique identifier of the widget');
+
+export const shapeKindSchema = z.enum(['rectangle', 'circle', 'triangle', 'diamond']).describe('Kind of shape');
+
+export const textStyleSchema = z.object({
+  backgroundColor: z.string().optional().describe('Background color'),
+  textColor: z.string().optional().describe('Text color'),
+  fontSize: z.number().optional().describe('Font size'),
+  alignment: z.enum(['left', 'center', 'right']).optional().describe('Text alignment')
+}).describe('Visual styling properties');
+
+export const stickyNoteStyleSchema = z.object({
+  backgroundColor: z.string().optional().describe('Background color'),
+  textColor: z.string().optional().describe('Text color'),
+  fontSize: z.number().optional().describe('Font size')
+}).describe('Visual styling properties');
+
+export const titleStyleSchema = z.object({
+  textColor: z.string().optional().describe('Text color'),
+  fontSize: z.number().optional().describe('Font size'),
+  fontFamily: z.string().optional().describe('Font family')
+}).describe('Visual styling properties');
+
+export const borderStyleSchema = z.object({
+  backgroundColor: z.string().optional().describe('Fill color'),
+  borderColor: z.string().optional().describe('Border color'),
+  borderWidth: z.number().optional().describe('Border width in pixels')
+}).describe('Visual styling properties');
+
+export const arrowStyleSchema = z.object({
+  color: z.string().optional().describe('Line color'),
+  width: z.number().optional().describe('Line width in pixels'),
+  arrowheadType: z.string().optional().describe('Arrowhead style')
+}).describe('Visual styling properties');
+
+export const tableStyleSchema = z.object({
+  headerBackgroundColor: z.string().optional().describe('Header row background color'),
+  borderColor: z.string().optional().describe('Border color')
+}).describe('Visual styling properties');
+
+export const xSchema = z.number().describe('X coordinate position');
+export const ySchema = z.number().describe('Y coordinate position');
+export const widthSchema = z.number().describe('Width in pixels');
+export const heightSchema = z.number().describe('Height in pixels');
+
+// Opt-in automatic placement for the create tools; x and y become optional with "auto"
+export const placementSchema = z.enum(['manual', 'auto']).default('manual')
+  .describe('"auto" moves widgets to free space so they never overlap existing content or each other; x and y are then optional and used as a preferred position (default: manual)');
+export const placedXSchema = xSchema.optional().describe('X coordinate position (optional with placement "auto")');
+export const placedYSchema = ySchema.optional().describe('Y coordinate position (optional with placement "auto")');
+
+export const idempotencyKeySchema = z.string().min(1).max(255)
+  .describe('Unique key chosen by the caller for this widget. Repeating a call (or a retry after a timeout) with the same key returns the widget created the first time instead of a duplicate (optional)');
+
+// Updates for a widget of any updatable type, as accepted by update-widget and update-widgets
+export const widgetUpdatesSchema = z.object({
+  x: xSchema.optional(),
+  y: ySchema.optional(),
+  width: widthSchema.optional(),
+  height: heightSchema.optional(),
+  text: z.string().min(1).optional().describe('Text content (sticky notes, text boxes, titles, shapes, comments)'),
+  title: z.string().optional().describe('Title (areas, images)'),
+  shape: shapeKindSchema.optional().describe('Kind of shape (shapes)'),
+  url: z.string().url().optional().describe('Resource URL (images, files)'),
+  filename: z.string().optional().describe('Filename (images, files)'),
+  style: z.record(z.string(), z.union([z.string(), z.number()])).optional().describe('Visual styling properties valid for the widget type')
+}).describe('The properties to update. Only fields valid for the widget type are accepted by the API');
+
+// Pagination arguments shared by every list tool; spread into the tool's schema
+export const paginationShape = {
+  limit: z.number().int().min(1).optional().describe('Maximum number of items to return. Without fetchAll, a single page of at most 100 items is returned (optional)'),
+  cursor: z.string().min(1).optional().describe('The "next" cursor returned by a previous call, to continue from where it stopped (optional)'),
+  fetchAll: z.boolean().optional().describe('Follow pagination cursors until every item is fetched or limit is reached (optional, default false)')
+};
+
+export const boundsSchema = z.object({
+  x: xSchema.describe('Left edge of the region'),
+  y: ySchema.describe('Top edge of the region'),
+  width: z.number().min(0).describe('Width of the region in pixels'),
+  height: z.number().min(0).describe('Height of the region in pixels')
+});
+
+// ISO 8601 dates or date-times, e.g. "2024-05-01" or "2024-05-01T09:00:00Z"
+export const dateSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), { message: 'Expected an ISO 8601 date' });
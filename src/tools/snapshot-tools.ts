@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import { widgetKind, widgetText } from '../widget-content.js';
+import type { SnapshotInfo } from '../snapshots.js';
+import type { WidgetChange } from '../mural-diff.js';
+import type { MuralWidget } from '../types.js';
+import { muralIdSchema, dateSchema } from './schemas.js';
+
+const snapshotIdSchema = z.string().min(1).describe('The ID of a snapshot, from snapshot-mural or list-mural-snapshots');
+
+function snapshotView(snapshot: SnapshotInfo) {
+  return {
+    snapshotId: snapshot.id,
+    ...(snapshot.label && { label: snapshot.label }),
+    takenAt: new Date(snapshot.takenAt).toISOString(),
+    widgetCount: snapshot.widgetCount
+  };
+}
+
+function widgetView(widget: MuralWidget) {
+  const text = widgetText(widget);
+  return {
+    widgetId: widget.id,
+    type: widgetKind(widget),
+    ...(text && { text: text.length > 80 ? `${text.slice(0, 79)}…` : text }),
+    position: { x: widget.x, y: widget.y }
+  };
+}
+
+function changeView({ widget, kinds, moved, resized, restyled, text }: WidgetChange) {
+  return {
+    ...widgetView(widget),
+    changes: kinds,
+    ...(moved && { moved }),
+    ...(resized && { resized }),
+    ...(restyled && { restyled }),
+    ...(text && { textChange: text })
+  };
+}
+
+function countOf(kind: WidgetChange['kinds'][number], changed: WidgetChange[]): number {
+  return changed.filter(change => change.kinds.includes(kind)).length;
+}
+
+export const snapshotMuralTool = defineTool({
+  name: 'snapshot-mural',
+  description: 'Save the full widget list of a mural to a local snapshot, e.g. at the end of a session, so later changes can be reviewed with diff-mural',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    label: z.string().min(1).max(200).optional().describe('A name to recognise the snapshot by, e.g. "After Monday workshop" (optional)')
+  }),
+  handler: async ({ muralId, label }, { client }) => {
+    const snapshot = await client.snapshotMural(muralId, label);
+
+    return jsonResult({
+      snapshot: snapshotView(snapshot),
+      muralId,
+      message: `Saved snapshot ${snapshot.id} of mural ${muralId} with ${snapshot.widgetCount} widget${snapshot.widgetCount === 1 ? '' : 's'}`
+    });
+  }
+});
+
+export const listMuralSnapshotsTool = defineTool({
+  name: 'list-mural-snapshots',
+  description: 'List the local snapshots of a mural, most recent first',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema
+  }),
+  handler: async ({ muralId }, { client }) => {
+    const snapshots = await client.listMuralSnapshots(muralId);
+
+    return jsonResult({
+      snapshots: snapshots.map(snapshotView),
+      count: snapshots.length,
+      muralId,
+      message: snapshots.length === 0
+        ? `No snapshots found for mural ${muralId}`
+        : `Found ${snapshots.length} snapshot${snapshots.length === 1 ? '' : 's'} of mural ${muralId}`
+    });
+  }
+});
+
+export const diffMuralTool = defineTool({
+  name: 'diff-mural',
+  description: 'Show what changed on a mural between two snapshots, or between a snapshot and the live board: widgets added, removed, moved, resized, restyled or with edited text. Answers "what changed since yesterday\'s session?"',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    from: snapshotIdSchema.optional().describe('The snapshot to compare from (default: the most recent snapshot, or the most recent one taken before "takenBefore")'),
+    takenBefore: dateSchema.optional().describe('Compare from the most recent snapshot taken at or before this date-time, e.g. "2024-05-01T18:00:00Z" for the end of yesterday\'s session (optional)'),
+    to: snapshotIdSchema.optional().describe('The snapshot to compare to (default: the live board)')
+  }).refine(args => !(args.from && args.takenBefore), { message: 'Provide either from or takenBefore, not both' }),
+  handler: async ({ muralId, from, takenBefore, to }, { client }) => {
+    const { from: fromSnapshot, to: toSnapshot, diff } = await client.diffMural(muralId, {
+      from,
+      to,
+      takenBefore: takenBefore ? Date.parse(takenBefore) : undefined
+    });
+
+    const summary = {
+      added: diff.added.length,
+      removed: diff.removed.length,
+      changed: diff.changed.length,
+      moved: countOf('moved', diff.changed),
+      resized: countOf('resized', diff.changed),
+      restyled: countOf('restyled', diff.changed),
+      textEdited: countOf('text', diff.changed),
+      unchanged: diff.unchanged
+    };
+    const target = toSnapshot ? `snapshot ${toSnapshot.id}` : 'the live board';
+
+    return jsonResult({
+      from: snapshotView(fromSnapshot),
+      to: toSnapshot ? snapshotView(toSnapshot) : 'live',
+      summary,
+      added: diff.added.map(widgetView),
+      removed: diff.removed.map(widgetView),
+      changed: diff.changed.map(changeView),
+      muralId,
+      message: summary.added + summary.removed + summary.changed === 0
+        ? `No changes between snapshot ${fromSnapshot.id} and ${target}`
+        : `Between snapshot ${fromSnapshot.id} and ${target}: ${summary.added} added, ${summary.removed} removed, ${summary.changed} changed`
+    });
+  }
+});
+
+export const snapshotTools = [
+  snapshotMuralTool,
+  listMuralSnapshotsTool,
+  diffMuralTool
+];
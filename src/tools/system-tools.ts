@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+
+export const testConnectionTool = defineTool({
+  name: 'test-connection',
+  description: 'Test the connection to Mural API and verify authentication',
+  schema: z.object({}),
+  handler: async (_args, { client }) => {
+    const isConnected = await client.testConnection();
+
+    return jsonResult({
+      connected: isConnected,
+      message: isConnected
+        ? 'Successfully connected to Mural API'
+        : 'Failed to connect to Mural API'
+    });
+  }
+});
+
+export const clearAuthTool = defineTool({
+  name: 'clear-auth',
+  description: 'Clear stored authentication tokens (requires re-authentication)',
+  schema: z.object({}),
+  handler: async (_args, { client }) => {
+    await client.clearAuthentication();
+
+    return jsonResult({
+      message: 'Authentication tokens cleared. You will need to re-authenticate on the next API call.'
+    });
+  }
+});
+
+export const debugApiResponseTool = defineTool({
+  name: 'debug-api-response',
+  description: 'Debug tool: Show raw API response from workspaces endpoint for troubleshooting',
+  schema: z.object({}),
+  handler: async (_args, { client }) => {
+    const debugInfo = await client.debugWorkspacesAPI();
+
+    return jsonResult({
+      debug: debugInfo,
+      message: 'Raw API response data for troubleshooting'
+    });
+  }
+});
+
+export const getRateLimitStatusTool = defineTool({
+  name: 'get-rate-limit-status',
+  description: 'Get current rate limiting status including remaining tokens and refresh times',
+  schema: z.object({}),
+  handler: async (_args, { client }) => {
+    const rateLimitStatus = await client.getRateLimitStatus();
+
+    return jsonResult({
+      rateLimits: rateLimitStatus,
+      message: 'Current rate limiting status',
+      explanation: {
+        user: `${rateLimitStatus.user.tokensRemaining}/${rateLimitStatus.user.capacity} requests available (${rateLimitStatus.user.refillRate}/second)`,
+        app: `${rateLimitStatus.app.tokensRemaining}/${rateLimitStatus.app.capacity} requests available (${rateLimitStatus.app.refillRate}/minute)`
+      }
+    });
+  }
+});
+
+export const checkUserScopesTool = defineTool({
+  name: 'check-user-scopes',
+  description: 'Check the current user\'s OAuth scopes and permissions',
+  schema: z.object({}),
+  handler: async (_args, { client }) => {
+    const scopes = await client.getUserScopes();
+
+    // Only try to get user info if we have identity:read scope
+    let user = null;
+    if (scopes.includes('identity:read')) {
+      user = await client.getCurrentUser().catch(() => null);
+    }
+
+    return jsonResult({
+      user: user ? { id: user.id, firstName: user.firstName, lastName: user.lastName, email: user.email } : 'User info unavailable (requires identity:read scope)',
+      scopes,
+      scopeCount: scopes.length,
+      message: scopes.length === 0
+        ? 'No OAuth scopes available. Please re-authenticate or check your Mural app configuration.'
+        : `User has ${scopes.length} OAuth scope${scopes.length === 1 ? '' : 's'}`,
+      recommendations: {
+        'workspaces:read': scopes.includes('workspaces:read') ? 'Required for listing workspaces (✓ available)' : 'Required for listing workspaces (✗ missing)',
+        'rooms:read': scopes.includes('rooms:read') ? 'Required for listing rooms (✓ available)' : 'Required for listing rooms (✗ missing)',
+        'rooms:write': scopes.includes('rooms:write') ? 'Required for creating/modifying rooms (✓ available)' : 'Required for creating/modifying rooms (✗ missing)',
+        'murals:read': scopes.includes('murals:read') ? 'Required for reading boards/murals (✓ available)' : 'Required for reading boards/murals (✗ missing)',
+        'murals:write': scopes.includes('murals:write') ? 'Required for creating/modifying boards/murals (✓ available)' : 'Required for creating/modifying boards/murals (✗ missing)',
+        'templates:read': scopes.includes('templates:read') ? 'Required for reading templates (✓ available)' : 'Required for reading templates (✗ missing)',
+        'templates:write': scopes.includes('templates:write') ? 'Required for creating/modifying templates (✓ available)' : 'Required for creating/modifying templates (✗ missing)',
+        'identity:read': scopes.includes('identity:read') ? 'Required for user info (✓ available)' : 'Required for user info (✗ missing)'
+      },
+      nextSteps: scopes.length === 0
+        ? ['Run clear-auth tool', 'Update your Mural app to include all required scopes', 'Re-authenticate when prompted']
+        : (scopes.includes('murals:read') && scopes.includes('murals:write') && scopes.includes('workspaces:read') && scopes.includes('rooms:read') && scopes.includes('rooms:write') && scopes.includes('templates:read'))
+          ? ['You have comprehensive scopes for full workspace/room/board/template operations']
+          : ['Add missing scopes to your Mural app: workspaces:read, rooms:read, rooms:write, murals:read, murals:write, templates:read, templates:write, identity:read', 'Run clear-auth tool', 'Re-authenticate to get new scopes']
+    });
+  }
+});
+
+export const systemTools = [
+  testConnectionTool,
+  clearAuthTool,
+  debugApiResponseTool,
+  getRateLimitStatusTool,
+  checkUserScopesTool
+];
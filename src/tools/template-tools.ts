@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import type { MuralClient } from '../mural-client.js';
+import type { MuralTemplate } from '../types.js';
+import { MuralNotFoundError, MuralValidationError } from '../errors.js';
+import { workspaceIdSchema, roomIdSchema, muralIdSchema, templateIdSchema, paginationShape } from './schemas.js';
+
+// Resolves a template by name within a workspace: an exact (case-insensitive) match wins,
+// otherwise the search must narrow down to a single template
+async function findTemplateByName(client: MuralClient, workspaceId: string, name: string): Promise<MuralTemplate> {
+  const { items: candidates } = await client.searchTemplatesPage(workspaceId, name, { fetchAll: true });
+  const wanted = name.trim().toLowerCase();
+
+  const exact = candidates.filter(template => template.name?.trim().toLowerCase() === wanted);
+  if (exact.length === 1) {
+    return exact[0];
+  }
+
+  const matches = exact.length > 1 ? exact : candidates;
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  if (matches.length === 0) {
+    throw new MuralNotFoundError(`No template named "${name}" found in workspace ${workspaceId}`);
+  }
+  throw new MuralValidationError(
+    `Template name "${name}" is ambiguous in workspace ${workspaceId}. Pass templateId instead. Candidates: ` +
+    matches.map(template => `${template.name} (${template.id})`).join(', ')
+  );
+}
+
+export const listTemplatesTool = defineTool({
+  name: 'list-templates',
+  description: 'List templates. Without a workspace only the default Mural templates are returned; with one, the workspace\'s custom templates are included',
+  requiredScope: 'templates:read',
+  schema: z.object({
+    workspaceId: workspaceIdSchema.optional().describe('Workspace whose custom templates should be included (optional)'),
+    ...paginationShape
+  }),
+  handler: async ({ workspaceId, limit, cursor, fetchAll }, { client }) => {
+    const { items: templates, next } = await client.getTemplatesPage(workspaceId, { limit, cursor, fetchAll });
+
+    return jsonResult({
+      templates,
+      count: templates.length,
+      workspaceId: workspaceId ?? null,
+      next: next ?? null,
+      message: templates.length === 0
+        ? 'No templates found'
+        : `Found ${templates.length} template${templates.length === 1 ? '' : 's'}${next ? ' (more available, pass "next" as cursor)' : ''}`
+    });
+  }
+});
+
+export const searchTemplatesTool = defineTool({
+  name: 'search-templates',
+  description: 'Search the default and custom templates available in a workspace by name',
+  requiredScope: 'templates:read',
+  schema: z.object({
+    workspaceId: workspaceIdSchema,
+    query: z.string().min(1).describe('Text to search for in template names'),
+    ...paginationShape
+  }),
+  handler: async ({ workspaceId, query, limit, cursor, fetchAll }, { client }) => {
+    const { items: templates, next } = await client.searchTemplatesPage(workspaceId, query, { limit, cursor, fetchAll });
+
+    return jsonResult({
+      templates,
+      count: templates.length,
+      workspaceId,
+      query,
+      next: next ?? null,
+      message: templates.length === 0
+        ? `No templates matching "${query}" found`
+        : `Found ${templates.length} template${templates.length === 1 ? '' : 's'} matching "${query}"${next ? ' (more available, pass "next" as cursor)' : ''}`
+    });
+  }
+});
+
+export const createTemplateFromMuralTool = defineTool({
+  name: 'create-template-from-mural',
+  description: 'Save an existing mural as a custom template in its workspace',
+  requiredScope: 'templates:write',
+  schema: z.object({
+    muralId: muralIdSchema.describe('The unique identifier of the mural to turn into a template'),
+    name: z.string().min(1).describe('Name of the new template'),
+    description: z.string().optional().describe('Description of the template (optional)')
+  }),
+  handler: async ({ muralId, name, description }, { client }) => {
+    const template = await client.createTemplate({ muralId, name, description });
+
+    return jsonResult({
+      template,
+      muralId,
+      message: `Successfully created template "${name}" from mural ${muralId}`
+    });
+  }
+});
+
+export const deleteTemplateTool = defineTool({
+  name: 'delete-template',
+  description: 'Delete a custom template',
+  requiredScope: 'templates:write',
+  schema: z.object({
+    templateId: templateIdSchema.describe('The unique identifier of the template to delete')
+  }),
+  handler: async ({ templateId }, { client }) => {
+    await client.deleteTemplate(templateId);
+
+    return jsonResult({
+      templateId,
+      message: `Successfully deleted template ${templateId}`
+    });
+  }
+});
+
+export const createMuralFromTemplateTool = defineTool({
+  name: 'create-mural-from-template',
+  description: 'Create a new mural in a room from a template, identified either by ID or by name',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    roomId: roomIdSchema.describe('The unique identifier of the room to create the mural in'),
+    templateId: templateIdSchema.optional().describe('The unique identifier of the template (provide this or templateName)'),
+    templateName: z.string().min(1).optional().describe('Name of the template to look up in the room\'s workspace (provide this or templateId)'),
+    workspaceId: workspaceIdSchema.optional().describe('Workspace to search for templateName (optional, defaults to the room\'s workspace)'),
+    title: z.string().min(1).optional().describe('Title of the new mural (optional)')
+  }).refine(
+    args => Boolean(args.templateId) !== Boolean(args.templateName),
+    { message: 'Provide exactly one of templateId or templateName' }
+  ),
+  handler: async ({ roomId, templateId, templateName, workspaceId, title }, { client }) => {
+    let template: MuralTemplate | undefined;
+    if (!templateId) {
+      const searchWorkspaceId = workspaceId || (await client.getRoom(roomId)).workspaceId;
+      if (!searchWorkspaceId) {
+        throw new MuralValidationError(`Could not determine the workspace of room ${roomId}. Pass workspaceId to look up the template by name`);
+      }
+      template = await findTemplateByName(client, searchWorkspaceId, templateName!);
+    }
+
+    const resolvedTemplateId = templateId || template!.id;
+    const mural = await client.createMuralFromTemplate(resolvedTemplateId, { roomId, title });
+
+    return jsonResult({
+      mural,
+      roomId,
+      templateId: resolvedTemplateId,
+      message: `Successfully created mural ${mural.id} in room ${roomId} from template ${template ? `"${template.name}"` : resolvedTemplateId}`
+    });
+  }
+});
+
+export const templateTools = [
+  listTemplatesTool,
+  searchTemplatesTool,
+  createTemplateFromMuralTool,
+  deleteTemplateTool,
+  createMuralFromTemplateTool
+];
@@ -0,0 +1,462 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import { WIDGET_BATCH_LIMITS, type MuralClient } from '../mural-client.js';
+import { resolveArea } from '../widget-query.js';
+import { widgetBounds } from '../geometry.js';
+import type { LayoutAnchor } from '../layout.js';
+import type { MuralWidget } from '../types.js';
+import {
+  muralIdSchema,
+  shapeKindSchema,
+  stickyNoteStyleSchema,
+  textStyleSchema,
+  titleStyleSchema,
+  borderStyleSchema,
+  arrowStyleSchema,
+  tableStyleSchema,
+  xSchema,
+  ySchema,
+  widthSchema,
+  heightSchema,
+  boundsSchema,
+  placementSchema,
+  placedXSchema,
+  placedYSchema,
+  idempotencyKeySchema
+} from './schemas.js';
+
+function createdResult(createdWidgets: MuralWidget[], muralId: string, singular: string, plural: string) {
+  return jsonResult({
+    widgets: createdWidgets,
+    count: createdWidgets.length,
+    muralId,
+    message: `Successfully created ${createdWidgets.length} ${createdWidgets.length === 1 ? singular : plural} in mural ${muralId}`
+  });
+}
+
+type Placement = 'manual' | 'auto';
+type Size = { width: number; height: number };
+
+function hasPositions(items: { x?: number; y?: number }[], placement: Placement): boolean {
+  return placement === 'auto' || items.every(item => item.x !== undefined && item.y !== undefined);
+}
+
+const positionsMessage = { message: 'x and y are required for every widget unless placement is "auto"' };
+
+// With placement "auto", moves each widget to free space near its x/y (or next to the
+// existing content when it has none) and gives it an explicit size so the space it was
+// placed in is the space it takes up. Manual placement passes the widgets through.
+async function applyPlacement<T extends { x?: number; y?: number; width?: number; height?: number }>(
+  client: MuralClient,
+  muralId: string,
+  placement: Placement,
+  items: T[],
+  defaultSize: (item: T) => Size = () => ({ width: 0, height: 0 })
+): Promise<(T & { x: number; y: number })[]> {
+  if (placement !== 'auto') {
+    // hasPositions has already checked every item has coordinates
+    return items as (T & { x: number; y: number })[];
+  }
+
+  const sized = items.map(item => {
+    const fallback = defaultSize(item);
+    return { ...item, width: item.width || fallback.width, height: item.height || fallback.height };
+  });
+  const positions = await client.placeWidgets(muralId, sized);
+  return sized.map((item, i) => ({ ...item, x: positions[i].x, y: positions[i].y }));
+}
+
+// Estimates sticky note dimensions from its text so notes fit their content
+export function calculateTextDimensions(text: string, fontSize = 14) {
+  const charWidth = fontSize * 0.6; // Approximate character width
+  const lineHeight = fontSize * 1.4; // Standard line height
+  const padding = 20; // Padding for sticky note
+  const minWidth = 120; // Minimum sticky note width
+  const maxWidth = 400; // Maximum sticky note width
+
+  // Estimate text width and wrap to calculate height
+  const words = text.split(' ');
+  let currentLineWidth = 0;
+  let lines = 1;
+
+  for (const word of words) {
+    const wordWidth = (word.length + 1) * charWidth; // +1 for space
+
+    if (currentLineWidth + wordWidth > maxWidth - padding) {
+      // Word doesn't fit, start new line
+      lines++;
+      currentLineWidth = word.length * charWidth;
+    } else {
+      currentLineWidth += wordWidth;
+    }
+  }
+
+  const calculatedWidth = Math.min(Math.max(currentLineWidth + padding, minWidth), maxWidth);
+  const calculatedHeight = Math.max(lines * lineHeight + padding, 60); // Minimum height of 60
+
+  return { width: calculatedWidth, height: calculatedHeight };
+}
+
+const layoutKindSchema = z.enum(['grid', 'columns', 'kanban', 'radial']);
+
+const layoutFields = {
+  anchor: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('point'),
+      x: xSchema,
+      y: ySchema
+    }).describe('Put the layout\'s top-left corner (or a radial layout\'s center) at this point, or as close to it as there is room'),
+    z.object({
+      type: z.literal('region'),
+      ...boundsSchema.shape
+    }).describe('Keep the layout inside this empty rectangle'),
+    z.object({
+      type: z.literal('area'),
+      area: z.string().min(1).describe('ID or title of the area')
+    }).describe('Put the notes inside an existing area')
+  ]).optional().describe('Where to put the notes (optional, defaults to the right of the existing content)'),
+  categories: z.array(z.string().min(1)).optional().describe('Column order for the columns and kanban layouts; kanban also shows empty columns, e.g. ["To do", "Doing", "Done"] (optional)'),
+  columns: z.number().int().min(1).optional().describe('Number of columns in a grid layout (optional)'),
+  gap: z.number().min(0).optional().describe('Space between notes in pixels (default: 20)')
+};
+
+const categorySchema = z.string().min(1).optional().describe('Column for the columns and kanban layouts (optional)');
+
+type LayoutArgs = {
+  layout: z.infer<typeof layoutKindSchema>;
+  anchor?: z.infer<typeof layoutFields.anchor>;
+  categories?: string[];
+  columns?: number;
+  gap?: number;
+};
+
+// Sizes the notes to their text, resolves the anchor and creates the notes (and kanban
+// column titles) where the layout engine puts them
+async function createLayout(
+  client: MuralClient,
+  muralId: string,
+  notes: { text: string; category?: string; style?: z.infer<typeof stickyNoteStyleSchema> }[],
+  { layout, anchor, categories, columns, gap }: LayoutArgs
+) {
+  let layoutAnchor: LayoutAnchor | undefined;
+  let areaId: string | undefined;
+  if (anchor?.type === 'area') {
+    const area = resolveArea(await client.getMuralWidgets(muralId), anchor.area);
+    areaId = area.id;
+    layoutAnchor = { type: 'region', bounds: widgetBounds(area) };
+  } else if (anchor?.type === 'region') {
+    layoutAnchor = { type: 'region', bounds: { x: anchor.x, y: anchor.y, width: anchor.width, height: anchor.height } };
+  } else {
+    layoutAnchor = anchor;
+  }
+
+  const sizedNotes = notes.map(note => ({
+    text: note.text,
+    category: note.category,
+    style: note.style,
+    ...calculateTextDimensions(note.text, note.style?.fontSize || 14)
+  }));
+
+  const { stickyNotes, headers, bounds } = await client.createStickyNoteLayout(muralId, sizedNotes, {
+    layout,
+    anchor: layoutAnchor,
+    categories,
+    columns,
+    gap
+  });
+
+  return jsonResult({
+    widgets: stickyNotes,
+    count: stickyNotes.length,
+    ...(headers.length > 0 && { headers }),
+    bounds,
+    muralId,
+    message: `Successfully created ${stickyNotes.length} sticky note${stickyNotes.length === 1 ? '' : 's'} in a ${layout} layout${areaId ? ` inside area ${areaId}` : ''} in mural ${muralId}`
+  });
+}
+
+export const createStickyNotesTool = defineTool({
+  name: 'create-sticky-notes',
+  description: `Create sticky notes on a mural (max ${WIDGET_BATCH_LIMITS['sticky-note']} per request). With a layout, the notes are arranged automatically instead of at their own x/y: "grid", "columns" (one column per category), "kanban" (columns with a title per category) or "radial" (a ring around a point)`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    stickyNotes: z.array(z.object({
+      idempotencyKey: idempotencyKeySchema.optional(),
+      x: placedXSchema,
+      y: placedYSchema,
+      text: z.string().min(1).describe('Text content of the sticky note'),
+      width: widthSchema.optional().describe('Width in pixels (optional)'),
+      height: heightSchema.optional().describe('Height in pixels (optional)'),
+      category: categorySchema,
+      style: stickyNoteStyleSchema.optional().describe('Visual styling properties (optional)')
+    })).min(1).max(WIDGET_BATCH_LIMITS['sticky-note']).describe('Array of sticky notes to create'),
+    placement: placementSchema,
+    layout: z.object({
+      type: layoutKindSchema.describe('How to arrange the notes'),
+      ...layoutFields
+    }).optional().describe('Arrange the notes with the layout engine, keeping clear of existing widgets (optional)')
+  })
+    .refine(args => args.layout || hasPositions(args.stickyNotes, args.placement), positionsMessage)
+    .refine(args => !args.layout || (args.placement === 'manual' &&
+      args.stickyNotes.every(note => note.x === undefined && note.y === undefined && note.width === undefined && note.height === undefined && !note.idempotencyKey)),
+      { message: 'With a layout, leave out placement and each note\'s x, y, width, height and idempotencyKey; the layout sets the positions and sizes' }),
+  handler: async ({ muralId, stickyNotes, placement, layout }, { client }) => {
+    if (layout) {
+      const { type, ...options } = layout;
+      return createLayout(client, muralId, stickyNotes, { layout: type, ...options });
+    }
+
+    // Add required shape field and calculate dimensions for each sticky note
+    const stickyNotesWithShape = stickyNotes.map(({ category, ...note }) => {
+      const fontSize = note.style?.fontSize || 14;
+      const dimensions = calculateTextDimensions(note.text, fontSize);
+
+      return {
+        ...note,
+        shape: 'rectangle' as const,
+        // Use provided dimensions if available, otherwise use calculated ones
+        width: note.width || dimensions.width,
+        height: note.height || dimensions.height
+      };
+    });
+
+    const createdWidgets = await client.createStickyNotes(muralId, await applyPlacement(client, muralId, placement, stickyNotesWithShape));
+    return createdResult(createdWidgets, muralId, 'sticky note', 'sticky notes');
+  }
+});
+
+export const createStickyNoteLayoutTool = defineTool({
+  name: 'create-sticky-note-layout',
+  description: `Create sticky notes from a list of texts and lay them out automatically, without overlapping each other or existing widgets (max ${WIDGET_BATCH_LIMITS['sticky-note']} per request). Layouts: "grid", "columns" (one column per category), "kanban" (columns with a title per category) and "radial" (a ring around a point). Same as create-sticky-notes with a layout, plus a style shared by all notes`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    notes: z.array(z.object({
+      text: z.string().min(1).describe('Text content of the sticky note'),
+      category: categorySchema,
+      style: stickyNoteStyleSchema.optional().describe('Visual styling for this note, overriding the shared style (optional)')
+    })).min(1).max(WIDGET_BATCH_LIMITS['sticky-note']).describe('Sticky notes to create, in reading order'),
+    layout: layoutKindSchema.default('grid').describe('How to arrange the notes (default: grid)'),
+    ...layoutFields,
+    style: stickyNoteStyleSchema.optional().describe('Visual styling shared by all notes (optional)')
+  }),
+  handler: async ({ muralId, notes, style, ...layout }, { client }) => {
+    return createLayout(client, muralId, notes.map(note => ({
+      ...note,
+      style: style || note.style ? { ...style, ...note.style } : undefined
+    })), layout);
+  }
+});
+
+export const createTextBoxesTool = defineTool({
+  name: 'create-text-boxes',
+  description: `Create text boxes on a mural (max ${WIDGET_BATCH_LIMITS['text-box']} per request)`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    textBoxes: z.array(z.object({
+      idempotencyKey: idempotencyKeySchema.optional(),
+      x: placedXSchema,
+      y: placedYSchema,
+      text: z.string().min(1).describe('Text content of the text box'),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      style: textStyleSchema.optional()
+    })).min(1).max(WIDGET_BATCH_LIMITS['text-box']).describe('Array of text boxes to create'),
+    placement: placementSchema
+  }).refine(args => hasPositions(args.textBoxes, args.placement), positionsMessage),
+  handler: async ({ muralId, textBoxes, placement }, { client }) => {
+    const createdWidgets = await client.createTextBoxes(muralId, await applyPlacement(client, muralId, placement, textBoxes, () => ({ width: 200, height: 60 })));
+    return createdResult(createdWidgets, muralId, 'text box', 'text boxes');
+  }
+});
+
+export const createTitlesTool = defineTool({
+  name: 'create-titles',
+  description: `Create title widgets on a mural (max ${WIDGET_BATCH_LIMITS['title']} per request)`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    titles: z.array(z.object({
+      idempotencyKey: idempotencyKeySchema.optional(),
+      x: placedXSchema,
+      y: placedYSchema,
+      text: z.string().min(1).describe('Text content of the title'),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      style: titleStyleSchema.optional()
+    })).min(1).max(WIDGET_BATCH_LIMITS['title']).describe('Array of titles to create'),
+    placement: placementSchema
+  }).refine(args => hasPositions(args.titles, args.placement), positionsMessage),
+  handler: async ({ muralId, titles, placement }, { client }) => {
+    const createdWidgets = await client.createTitles(muralId, await applyPlacement(client, muralId, placement, titles, () => ({ width: 300, height: 60 })));
+    return createdResult(createdWidgets, muralId, 'title', 'titles');
+  }
+});
+
+export const createShapesTool = defineTool({
+  name: 'create-shapes',
+  description: `Create shape widgets on a mural (max ${WIDGET_BATCH_LIMITS['shape']} per request)`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    shapes: z.array(z.object({
+      idempotencyKey: idempotencyKeySchema.optional(),
+      x: placedXSchema,
+      y: placedYSchema,
+      width: widthSchema.positive(),
+      height: heightSchema.positive(),
+      shape: shapeKindSchema,
+      text: z.string().optional().describe('Text displayed inside the shape (optional)'),
+      style: borderStyleSchema.optional()
+    })).min(1).max(WIDGET_BATCH_LIMITS['shape']).describe('Array of shapes to create'),
+    placement: placementSchema
+  }).refine(args => hasPositions(args.shapes, args.placement), positionsMessage),
+  handler: async ({ muralId, shapes, placement }, { client }) => {
+    const createdWidgets = await client.createShapes(muralId, await applyPlacement(client, muralId, placement, shapes));
+    return createdResult(createdWidgets, muralId, 'shape', 'shapes');
+  }
+});
+
+export const createAreasTool = defineTool({
+  name: 'create-areas',
+  description: `Create area widgets for grouping content on a mural (max ${WIDGET_BATCH_LIMITS['area']} per request)`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    areas: z.array(z.object({
+      idempotencyKey: idempotencyKeySchema.optional(),
+      x: placedXSchema,
+      y: placedYSchema,
+      width: widthSchema.positive(),
+      height: heightSchema.positive(),
+      title: z.string().optional().describe('Area title (optional)'),
+      style: borderStyleSchema.optional()
+    })).min(1).max(WIDGET_BATCH_LIMITS['area']).describe('Array of areas to create'),
+    placement: placementSchema
+  }).refine(args => hasPositions(args.areas, args.placement), positionsMessage),
+  handler: async ({ muralId, areas, placement }, { client }) => {
+    const createdWidgets = await client.createAreas(muralId, await applyPlacement(client, muralId, placement, areas));
+    return createdResult(createdWidgets, muralId, 'area', 'areas');
+  }
+});
+
+export const createArrowsTool = defineTool({
+  name: 'create-arrows',
+  description: `Create arrow connectors between widgets or points on a mural (max ${WIDGET_BATCH_LIMITS['arrow']} per request)`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    arrows: z.array(z.object({
+      idempotencyKey: idempotencyKeySchema.optional(),
+      startWidget: z.string().min(1).optional().describe('ID of the widget the arrow starts from'),
+      endWidget: z.string().min(1).optional().describe('ID of the widget the arrow points to'),
+      startX: z.number().optional().describe('Start X coordinate (when not attached to a widget)'),
+      startY: z.number().optional().describe('Start Y coordinate (when not attached to a widget)'),
+      endX: z.number().optional().describe('End X coordinate (when not attached to a widget)'),
+      endY: z.number().optional().describe('End Y coordinate (when not attached to a widget)'),
+      style: arrowStyleSchema.optional()
+    }).refine(
+      arrow => arrow.startWidget !== undefined || (arrow.startX !== undefined && arrow.startY !== undefined),
+      { message: 'Arrow start requires startWidget or both startX and startY' }
+    ).refine(
+      arrow => arrow.endWidget !== undefined || (arrow.endX !== undefined && arrow.endY !== undefined),
+      { message: 'Arrow end requires endWidget or both endX and endY' }
+    )).min(1).max(WIDGET_BATCH_LIMITS['arrow']).describe('Array of arrows to create. Each end needs either a widget ID or X/Y coordinates')
+  }),
+  handler: async ({ muralId, arrows }, { client }) => {
+    const createdWidgets = await client.createArrows(muralId, arrows);
+    return createdResult(createdWidgets, muralId, 'arrow', 'arrows');
+  }
+});
+
+export const createTablesTool = defineTool({
+  name: 'create-tables',
+  description: `Create table widgets on a mural (max ${WIDGET_BATCH_LIMITS['table']} per request)`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    tables: z.array(z.object({
+      idempotencyKey: idempotencyKeySchema.optional(),
+      x: placedXSchema,
+      y: placedYSchema,
+      rows: z.number().int().min(1).describe('Number of rows'),
+      columns: z.number().int().min(1).describe('Number of columns'),
+      data: z.array(z.array(z.string())).optional().describe('Cell contents as an array of rows (optional)'),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      style: tableStyleSchema.optional()
+    }).refine(
+      table => !table.data || (table.data.length <= table.rows && table.data.every(row => row.length <= table.columns)),
+      { message: 'Table data must fit within the given rows and columns' }
+    )).min(1).max(WIDGET_BATCH_LIMITS['table']).describe('Array of tables to create'),
+    placement: placementSchema
+  }).refine(args => hasPositions(args.tables, args.placement), positionsMessage),
+  handler: async ({ muralId, tables, placement }, { client }) => {
+    const createdWidgets = await client.createTables(muralId, await applyPlacement(client, muralId, placement, tables, table => ({ width: table.columns * 120, height: table.rows * 40 })));
+    return createdResult(createdWidgets, muralId, 'table', 'tables');
+  }
+});
+
+export const createImagesTool = defineTool({
+  name: 'create-images',
+  description: `Create image widgets from URLs on a mural (max ${WIDGET_BATCH_LIMITS['image']} per request)`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    images: z.array(z.object({
+      idempotencyKey: idempotencyKeySchema.optional(),
+      x: placedXSchema,
+      y: placedYSchema,
+      url: z.string().url().describe('URL of the image'),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      title: z.string().optional().describe('Image title (optional)'),
+      filename: z.string().optional().describe('Image filename (optional)')
+    })).min(1).max(WIDGET_BATCH_LIMITS['image']).describe('Array of images to create'),
+    placement: placementSchema
+  }).refine(args => hasPositions(args.images, args.placement), positionsMessage),
+  handler: async ({ muralId, images, placement }, { client }) => {
+    const createdWidgets = await client.createImages(muralId, await applyPlacement(client, muralId, placement, images, () => ({ width: 300, height: 200 })));
+    return createdResult(createdWidgets, muralId, 'image', 'images');
+  }
+});
+
+export const createFilesTool = defineTool({
+  name: 'create-files',
+  description: `Create file attachment widgets on a mural (max ${WIDGET_BATCH_LIMITS['file']} per request)`,
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    files: z.array(z.object({
+      idempotencyKey: idempotencyKeySchema.optional(),
+      x: placedXSchema,
+      y: placedYSchema,
+      url: z.string().url().describe('URL of the file'),
+      filename: z.string().min(1).describe('Filename displayed on the widget'),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      fileSize: z.number().optional().describe('File size in bytes (optional)'),
+      mimeType: z.string().optional().describe('MIME type of the file (optional)')
+    })).min(1).max(WIDGET_BATCH_LIMITS['file']).describe('Array of files to create'),
+    placement: placementSchema
+  }).refine(args => hasPositions(args.files, args.placement), positionsMessage),
+  handler: async ({ muralId, files, placement }, { client }) => {
+    const createdWidgets = await client.createFiles(muralId, await applyPlacement(client, muralId, placement, files, () => ({ width: 200, height: 120 })));
+    return createdResult(createdWidgets, muralId, 'file', 'files');
+  }
+});
+
+export const widgetCreateTools = [
+  createStickyNotesTool,
+  createStickyNoteLayoutTool,
+  createTextBoxesTool,
+  createTitlesTool,
+  createShapesTool,
+  createAreasTool,
+  createArrowsTool,
+  createTablesTool,
+  createImagesTool,
+  createFilesTool
+];
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import { muralIdSchema, widgetIdSchema, paginationShape } from './schemas.js';
+
+export const getMuralWidgetsTool = defineTool({
+  name: 'get-mural-widgets',
+  description: 'Get all widgets from a mural',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    ...paginationShape
+  }),
+  handler: async ({ muralId, limit, cursor, fetchAll }, { client }) => {
+    const { items: widgets, next } = await client.getMuralWidgetsPage(muralId, { limit, cursor, fetchAll });
+
+    return jsonResult({
+      widgets,
+      count: widgets.length,
+      muralId,
+      next: next ?? null,
+      message: widgets.length === 0
+        ? `No widgets found in mural ${muralId}`
+        : `Found ${widgets.length} widget${widgets.length === 1 ? '' : 's'} in mural${next ? ' (more available, pass "next" as cursor)' : ''}`
+    });
+  }
+});
+
+export const getMuralWidgetTool = defineTool({
+  name: 'get-mural-widget',
+  description: 'Get details of a specific widget by ID',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema
+  }),
+  handler: async ({ muralId, widgetId }, { client }) => {
+    const widget = await client.getMuralWidget(muralId, widgetId);
+
+    return jsonResult({
+      widget,
+      muralId,
+      widgetId,
+      message: `Widget details retrieved successfully`
+    });
+  }
+});
+
+export const deleteWidgetTool = defineTool({
+  name: 'delete-widget',
+  description: 'Delete a widget by ID',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the widget to delete')
+  }),
+  handler: async ({ muralId, widgetId }, { client }) => {
+    await client.deleteWidget(muralId, widgetId);
+
+    return jsonResult({
+      muralId,
+      widgetId,
+      message: `Successfully deleted widget ${widgetId} from mural ${muralId}`
+    });
+  }
+});
+
+export const widgetTools = [
+  getMuralWidgetsTool,
+  getMuralWidgetTool,
+  deleteWidgetTool
+];
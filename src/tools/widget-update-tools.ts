@@ -0,0 +1,262 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import type { MuralWidget } from '../types.js';
+import {
+  muralIdSchema,
+  widgetIdSchema,
+  shapeKindSchema,
+  stickyNoteStyleSchema,
+  textStyleSchema,
+  titleStyleSchema,
+  borderStyleSchema,
+  arrowStyleSchema,
+  xSchema,
+  ySchema,
+  widthSchema,
+  heightSchema,
+  widgetUpdatesSchema
+} from './schemas.js';
+
+function updatedResult(widget: MuralWidget, muralId: string, widgetId: string, label: string) {
+  return jsonResult({
+    widget,
+    muralId,
+    widgetId,
+    message: `Successfully updated ${label} ${widgetId} in mural ${muralId}`
+  });
+}
+
+export const updateStickyNoteTool = defineTool({
+  name: 'update-sticky-note',
+  description: 'Update a sticky note widget in a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the sticky note widget to update'),
+    updates: z.object({
+      x: xSchema.optional(),
+      y: ySchema.optional(),
+      text: z.string().min(1).optional().describe('Text content of the sticky note'),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      style: stickyNoteStyleSchema.optional()
+    }).describe('The properties to update')
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const updatedWidget = await client.updateStickyNote(muralId, widgetId, updates);
+    return updatedResult(updatedWidget, muralId, widgetId, 'sticky note');
+  }
+});
+
+export const updateTextBoxTool = defineTool({
+  name: 'update-text-box',
+  description: 'Update a text box widget in a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the text box widget to update'),
+    updates: z.object({
+      x: xSchema.optional(),
+      y: ySchema.optional(),
+      text: z.string().min(1).optional().describe('Text content of the text box'),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      style: textStyleSchema.optional()
+    }).describe('The properties to update')
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const updatedWidget = await client.updateTextBox(muralId, widgetId, updates);
+    return updatedResult(updatedWidget, muralId, widgetId, 'text box');
+  }
+});
+
+export const updateTitleTool = defineTool({
+  name: 'update-title',
+  description: 'Update a title widget in a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the title widget to update'),
+    updates: z.object({
+      x: xSchema.optional(),
+      y: ySchema.optional(),
+      text: z.string().min(1).optional().describe('Text content of the title'),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      style: titleStyleSchema.optional()
+    }).describe('The properties to update')
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const updatedWidget = await client.updateTitle(muralId, widgetId, updates);
+    return updatedResult(updatedWidget, muralId, widgetId, 'title');
+  }
+});
+
+export const updateShapeTool = defineTool({
+  name: 'update-shape',
+  description: 'Update a shape widget in a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the shape widget to update'),
+    updates: z.object({
+      x: xSchema.optional(),
+      y: ySchema.optional(),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      shape: shapeKindSchema.optional(),
+      text: z.string().optional().describe('Text displayed inside the shape'),
+      style: borderStyleSchema.optional()
+    }).describe('The properties to update')
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const updatedWidget = await client.updateShape(muralId, widgetId, updates);
+    return updatedResult(updatedWidget, muralId, widgetId, 'shape');
+  }
+});
+
+export const updateImageTool = defineTool({
+  name: 'update-image',
+  description: 'Update an image widget in a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the image widget to update'),
+    updates: z.object({
+      x: xSchema.optional(),
+      y: ySchema.optional(),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      url: z.string().url().optional().describe('URL of the image'),
+      title: z.string().optional().describe('Image title'),
+      filename: z.string().optional().describe('Image filename')
+    }).describe('The properties to update')
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const updatedWidget = await client.updateImage(muralId, widgetId, updates);
+    return updatedResult(updatedWidget, muralId, widgetId, 'image');
+  }
+});
+
+export const updateFileTool = defineTool({
+  name: 'update-file',
+  description: 'Update a file widget in a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the file widget to update'),
+    updates: z.object({
+      x: xSchema.optional(),
+      y: ySchema.optional(),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      url: z.string().url().optional().describe('URL of the file'),
+      filename: z.string().min(1).optional().describe('Filename displayed on the widget'),
+      fileSize: z.number().optional().describe('File size in bytes'),
+      mimeType: z.string().optional().describe('MIME type of the file')
+    }).describe('The properties to update')
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const updatedWidget = await client.updateFile(muralId, widgetId, updates);
+    return updatedResult(updatedWidget, muralId, widgetId, 'file');
+  }
+});
+
+export const updateAreaTool = defineTool({
+  name: 'update-area',
+  description: 'Update an area widget in a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the area widget to update'),
+    updates: z.object({
+      x: xSchema.optional(),
+      y: ySchema.optional(),
+      width: widthSchema.optional(),
+      height: heightSchema.optional(),
+      title: z.string().optional().describe('Area title'),
+      style: borderStyleSchema.optional()
+    }).describe('The properties to update')
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const updatedWidget = await client.updateArea(muralId, widgetId, updates);
+    return updatedResult(updatedWidget, muralId, widgetId, 'area');
+  }
+});
+
+export const updateArrowTool = defineTool({
+  name: 'update-arrow',
+  description: 'Update an arrow widget in a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the arrow widget to update'),
+    updates: z.object({
+      startWidget: z.string().min(1).optional().describe('ID of the widget the arrow starts from'),
+      endWidget: z.string().min(1).optional().describe('ID of the widget the arrow points to'),
+      startX: z.number().optional().describe('Start X coordinate'),
+      startY: z.number().optional().describe('Start Y coordinate'),
+      endX: z.number().optional().describe('End X coordinate'),
+      endY: z.number().optional().describe('End Y coordinate'),
+      style: arrowStyleSchema.optional()
+    }).describe('The properties to update')
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const updatedWidget = await client.updateArrow(muralId, widgetId, updates);
+    return updatedResult(updatedWidget, muralId, widgetId, 'arrow');
+  }
+});
+
+export const updateCommentTool = defineTool({
+  name: 'update-comment',
+  description: 'Update a comment widget in a mural',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the comment widget to update'),
+    updates: z.object({
+      x: xSchema.optional(),
+      y: ySchema.optional(),
+      text: z.string().min(1).optional().describe('Text content of the comment')
+    }).describe('The properties to update')
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const updatedWidget = await client.updateComment(muralId, widgetId, updates);
+    return updatedResult(updatedWidget, muralId, widgetId, 'comment');
+  }
+});
+
+export const updateWidgetTool = defineTool({
+  name: 'update-widget',
+  description: 'Update any widget in a mural. Looks up the widget type first and sends the update to the matching endpoint (tables are not supported)',
+  requiredScope: 'murals:write',
+  schema: z.object({
+    muralId: muralIdSchema,
+    widgetId: widgetIdSchema.describe('The unique identifier of the widget to update'),
+    updates: widgetUpdatesSchema
+  }),
+  handler: async ({ muralId, widgetId, updates }, { client }) => {
+    const { widget, widgetType } = await client.updateWidget(muralId, widgetId, updates);
+
+    return jsonResult({
+      widget,
+      widgetType,
+      muralId,
+      widgetId,
+      message: `Successfully updated ${widgetType} ${widgetId} in mural ${muralId}`
+    });
+  }
+});
+
+export const widgetUpdateTools = [
+  updateStickyNoteTool,
+  updateTextBoxTool,
+  updateTitleTool,
+  updateShapeTool,
+  updateImageTool,
+  updateFileTool,
+  updateAreaTool,
+  updateArrowTool,
+  updateCommentTool,
+  updateWidgetTool
+];
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { defineTool, jsonResult } from '../tool-registry.js';
+import { workspaceIdSchema, roomIdSchema, paginationShape } from './schemas.js';
+
+export const listWorkspacesTool = defineTool({
+  name: 'list-workspaces',
+  description: 'List all workspaces the authenticated user has access to',
+  schema: z.object({
+    ...paginationShape,
+    offset: z.number().min(0).optional().describe('Number of workspaces to skip for pagination (optional)')
+  }),
+  handler: async ({ limit, cursor, fetchAll, offset }, { client }) => {
+    const { items: workspaces, next } = await client.getWorkspacesPage({ limit, cursor, fetchAll }, offset);
+
+    return jsonResult({
+      workspaces,
+      count: workspaces.length,
+      next: next ?? null,
+      message: workspaces.length === 0
+        ? 'No workspaces found'
+        : `Found ${workspaces.length} workspace${workspaces.length === 1 ? '' : 's'}${next ? ' (more available, pass "next" as cursor)' : ''}`
+    });
+  }
+});
+
+export const getWorkspaceTool = defineTool({
+  name: 'get-workspace',
+  description: 'Get detailed information about a specific workspace',
+  schema: z.object({
+    workspaceId: workspaceIdSchema
+  }),
+  handler: async ({ workspaceId }, { client }) => {
+    const workspace = await client.getWorkspace(workspaceId);
+    return jsonResult(workspace);
+  }
+});
+
+export const listWorkspaceBoardsTool = defineTool({
+  name: 'list-workspace-boards',
+  description: 'List all boards (murals) within a specific workspace',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    workspaceId: workspaceIdSchema,
+    ...paginationShape
+  }),
+  handler: async ({ workspaceId, limit, cursor, fetchAll }, { client }) => {
+    const { items: boards, next } = await client.getWorkspaceMuralsPage(workspaceId, { limit, cursor, fetchAll });
+
+    return jsonResult({
+      boards,
+      count: boards.length,
+      workspaceId,
+      next: next ?? null,
+      message: boards.length === 0
+        ? `No boards found in workspace ${workspaceId}`
+        : `Found ${boards.length} board${boards.length === 1 ? '' : 's'} in workspace${next ? ' (more available, pass "next" as cursor)' : ''}`
+    });
+  }
+});
+
+export const listRoomBoardsTool = defineTool({
+  name: 'list-room-boards',
+  description: 'List all boards (murals) within a specific room',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    roomId: roomIdSchema,
+    ...paginationShape
+  }),
+  handler: async ({ roomId, limit, cursor, fetchAll }, { client }) => {
+    const { items: boards, next } = await client.getRoomMuralsPage(roomId, { limit, cursor, fetchAll });
+
+    return jsonResult({
+      boards,
+      count: boards.length,
+      roomId,
+      next: next ?? null,
+      message: boards.length === 0
+        ? `No boards found in room ${roomId}`
+        : `Found ${boards.length} board${boards.length === 1 ? '' : 's'} in room${next ? ' (more available, pass "next" as cursor)' : ''}`
+    });
+  }
+});
+
+export const getBoardTool = defineTool({
+  name: 'get-board',
+  description: 'Get detailed information about a specific board (mural)',
+  requiredScope: 'murals:read',
+  schema: z.object({
+    boardId: z.string().min(1).describe('The unique identifier of the board/mural')
+  }),
+  handler: async ({ boardId }, { client }) => {
+    const board = await client.getMural(boardId);
+    return jsonResult(board);
+  }
+});
+
+export const workspaceTools = [
+  listWorkspacesTool,
+  getWorkspaceTool,
+  listWorkspaceBoardsTool,
+  listRoomBoardsTool,
+  getBoardTool
+];
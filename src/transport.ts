@@ -0,0 +1,6 @@
+// Sends an HTTP request and resolves with the response, with the same contract as `fetch`.
+// MuralClient and MuralOAuth take one of these so tests can answer requests in-process
+// instead of hitting the Mural API.
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export const fetchTransport: HttpTransport = (url, init) => fetch(url, init);
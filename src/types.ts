@@ -106,6 +106,91 @@ export interface MuralBoard {
   roomId?: string;
   thumbnail?: string;
   url?: string;
+  description?: string;
+  backgroundColor?: string;
+}
+
+export interface CreateMuralRequest {
+  roomId: string;
+  title?: string;
+  description?: string;
+  backgroundColor?: string;
+  width?: number;
+  height?: number;
+  infinite?: boolean;
+}
+
+export interface UpdateMuralRequest {
+  title?: string;
+  description?: string;
+  backgroundColor?: string;
+}
+
+export interface DuplicateMuralRequest {
+  title?: string;
+  roomId?: string;  // Defaults to the room of the source mural
+}
+
+export type MuralRoomType = 'open' | 'private';
+
+export interface MuralRoom {
+  id: string;
+  name: string;
+  description?: string;
+  type?: MuralRoomType;
+  workspaceId?: string;
+  confidential?: boolean;
+  favorite?: boolean;
+  createdOn?: number | string;
+  updatedOn?: number | string;
+  createdBy?: {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+  };
+}
+
+export interface CreateRoomRequest {
+  name: string;
+  workspaceId: string;
+  type: MuralRoomType;
+  description?: string;
+  confidential?: boolean;
+}
+
+export interface UpdateRoomRequest {
+  name?: string;
+  description?: string;
+  confidential?: boolean;
+}
+
+export interface MuralTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  type?: 'default' | 'custom';
+  workspaceId?: string;
+  thumbUrl?: string;
+  createdOn?: number | string;
+  updatedOn?: number | string;
+  createdBy?: {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+  };
+}
+
+export interface CreateTemplateRequest {
+  muralId: string;
+  name: string;
+  description?: string;
+}
+
+export interface CreateMuralFromTemplateRequest {
+  roomId: string;
+  title?: string;
 }
 
 export interface MuralUser {
@@ -117,6 +202,33 @@ export interface MuralUser {
   scopes?: string[];
 }
 
+// Cursor-based pagination for list endpoints. The API returns a `next` token alongside
+// each page; passing it back as `cursor` resumes from that point.
+export interface PaginationOptions {
+  limit?: number;     // Maximum items to return in total (also caps the page size)
+  cursor?: string;    // `next` token from a previous call
+  fetchAll?: boolean; // Follow `next` tokens until exhausted or `limit` is reached
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  next?: string;
+}
+
+// Outcome of one item in a bulk operation; failures keep the thrown error for reporting
+export type BulkItemResult<T> =
+  | { id: string; ok: true; value: T }
+  | { id: string; ok: false; error: unknown };
+
+export interface BulkOptions {
+  concurrency?: number;  // Requests in flight at once, defaults to 5
+}
+
+export interface WidgetUpdateItem {
+  widgetId: string;
+  updates: UpdateWidgetRequest;
+}
+
 export interface ScopeCheckResult {
   hasScope: boolean;
   requiredScope: string;
@@ -257,6 +369,10 @@ export interface CreateWidgetRequest {
   widgets: Partial<AnyMuralWidget>[];
 }
 
+// Any widget creation request plus an optional client-supplied key. Creating with the same
+// key again (or retrying after an unclear failure) returns the widget created the first time.
+export type Idempotent<T> = T & { idempotencyKey?: string };
+
 // Widget creation helpers
 export interface CreateStickyNoteRequest {
   x: number;
@@ -268,6 +384,86 @@ export interface CreateStickyNoteRequest {
   style?: WidgetTextStyle;
 }
 
+export interface CreateTextBoxRequest {
+  x: number;
+  y: number;
+  text: string;
+  width?: number;
+  height?: number;
+  style?: WidgetTextStyle;
+}
+
+export interface CreateTitleRequest {
+  x: number;
+  y: number;
+  text: string;
+  width?: number;
+  height?: number;
+  style?: TitleWidget['style'];
+}
+
+export interface CreateShapeRequest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  shape: ShapeWidget['shape'];
+  text?: string;
+  style?: WidgetBorderStyle;
+}
+
+export interface CreateImageRequest {
+  x: number;
+  y: number;
+  url: string;
+  width?: number;
+  height?: number;
+  title?: string;
+  filename?: string;
+}
+
+export interface CreateFileRequest {
+  x: number;
+  y: number;
+  url: string;
+  filename: string;
+  width?: number;
+  height?: number;
+  fileSize?: number;
+  mimeType?: string;
+}
+
+export interface CreateTableRequest {
+  x: number;
+  y: number;
+  rows: number;
+  columns: number;
+  data?: string[][];
+  width?: number;
+  height?: number;
+  style?: TableWidget['style'];
+}
+
+export interface CreateAreaRequest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  title?: string;
+  style?: WidgetBorderStyle;
+}
+
+// Arrows are anchored either to widgets (startWidget/endWidget) or to absolute points
+export interface CreateArrowRequest {
+  startWidget?: string;
+  endWidget?: string;
+  startX?: number;
+  startY?: number;
+  endX?: number;
+  endY?: number;
+  style?: WidgetArrowStyle;
+}
+
 // ============================================================================
 // UPDATE REQUEST TYPES FOR PATCH OPERATIONS
 // ============================================================================
@@ -277,3 +473,50 @@ export interface UpdateStickyNoteRequest extends Partial<CreateStickyNoteRequest
   id?: string; // Widget ID for updates
 }
 
+export interface UpdateTextBoxRequest extends Partial<CreateTextBoxRequest> {
+  id?: string;
+}
+
+export interface UpdateTitleRequest extends Partial<CreateTitleRequest> {
+  id?: string;
+}
+
+export interface UpdateShapeRequest extends Partial<CreateShapeRequest> {
+  id?: string;
+}
+
+export interface UpdateImageRequest extends Partial<CreateImageRequest> {
+  id?: string;
+}
+
+export interface UpdateFileRequest extends Partial<CreateFileRequest> {
+  id?: string;
+}
+
+export interface UpdateAreaRequest extends Partial<CreateAreaRequest> {
+  id?: string;
+}
+
+export interface UpdateArrowRequest extends Partial<CreateArrowRequest> {
+  id?: string;
+}
+
+export interface UpdateCommentRequest {
+  id?: string;
+  text?: string;
+  x?: number;
+  y?: number;
+}
+
+// Any of the above, used when the widget type is resolved at runtime
+export type UpdateWidgetRequest =
+  | UpdateStickyNoteRequest
+  | UpdateTextBoxRequest
+  | UpdateTitleRequest
+  | UpdateShapeRequest
+  | UpdateImageRequest
+  | UpdateFileRequest
+  | UpdateAreaRequest
+  | UpdateArrowRequest
+  | UpdateCommentRequest;
+
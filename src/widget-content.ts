@@ -0,0 +1,49 @@
+import type { MuralWidget } from './types.js';
+import { toWidgetEndpointType } from './mural-client.js';
+
+// Widgets as returned by the API carry type-specific fields beyond MuralWidget
+export type WidgetRecord = MuralWidget & Record<string, any>;
+
+// Normalizes API type names ("sticky note", "text", "text box") to endpoint form ("sticky-note", "text-box")
+export function normalizeWidgetKind(type: string): string {
+  const kind = toWidgetEndpointType(type);
+  return kind === 'text' ? 'text-box' : kind;
+}
+
+export function widgetKind(widget: MuralWidget): string {
+  return normalizeWidgetKind(widget.type || '');
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// The human-readable text of a widget: its text, its HTML text without markup, or its title/filename
+export function widgetText(widget: MuralWidget): string {
+  const record = widget as WidgetRecord;
+  if (typeof record.text === 'string' && record.text.trim()) {
+    return record.text.trim();
+  }
+  if (typeof record.htmlText === 'string' && record.htmlText.trim()) {
+    return stripHtml(record.htmlText).trim();
+  }
+  if (typeof record.title === 'string' && record.title.trim()) {
+    return record.title.trim();
+  }
+  if (typeof record.filename === 'string') {
+    return record.filename;
+  }
+  if (Array.isArray(record.data)) {
+    return record.data.map((row: unknown) => Array.isArray(row) ? row.join(' ') : '').join('\n').trim();
+  }
+  return '';
+}
@@ -0,0 +1,168 @@
+import type { MuralWidget } from './types.js';
+import {
+  widgetBounds,
+  centerOf,
+  containsPoint,
+  containsBounds,
+  intersects,
+  distanceBetween,
+  expandBounds,
+  sortByReadingOrder,
+  type Bounds
+} from './geometry.js';
+import { SpatialIndex } from './spatial-index.js';
+import { normalizeWidgetKind, widgetKind, widgetText, type WidgetRecord } from './widget-content.js';
+import { MuralNotFoundError, MuralValidationError } from './errors.js';
+
+// How a widget has to relate to a region or area to match:
+// its center inside, its whole bounds inside, or any overlap
+export type SpatialMatch = 'center' | 'within' | 'intersects';
+
+export interface WidgetQuery {
+  region?: Bounds;
+  insideArea?: string;                            // Area widget ID or title
+  near?: { widgetId: string; distance: number };  // Edge-to-edge distance in pixels
+  match?: SpatialMatch;                           // Applies to region and insideArea; defaults to 'center'
+  types?: string[];                               // Widget types, e.g. "sticky-note" or "sticky note"
+  createdBy?: string;                             // User ID, email or (part of) the author's name
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  limit?: number;
+}
+
+export interface WidgetQueryResult {
+  widgets: MuralWidget[];
+  total: number;         // Matches before `limit` was applied
+  area?: MuralWidget;    // The area insideArea resolved to
+}
+
+function matchesRegion(widget: MuralWidget, region: Bounds, match: SpatialMatch): boolean {
+  const bounds = widgetBounds(widget);
+  switch (match) {
+    case 'within':
+      return containsBounds(region, bounds);
+    case 'intersects':
+      return intersects(region, bounds);
+    default: {
+      const center = centerOf(bounds);
+      return containsPoint(region, center.x, center.y);
+    }
+  }
+}
+
+// Finds an area widget by ID, or by its title (case-insensitive) when exactly one area has it
+export function resolveArea(widgets: MuralWidget[], idOrTitle: string): MuralWidget {
+  const areas = widgets.filter(widget => widgetKind(widget) === 'area');
+  const byId = areas.find(area => area.id === idOrTitle);
+  if (byId) {
+    return byId;
+  }
+
+  const wanted = idOrTitle.trim().toLowerCase();
+  const byTitle = areas.filter(area => widgetText(area).toLowerCase() === wanted);
+  if (byTitle.length === 1) {
+    return byTitle[0];
+  }
+  if (byTitle.length > 1) {
+    throw new MuralValidationError(
+      `Area title "${idOrTitle}" is ambiguous. Pass the area ID instead. Candidates: ${byTitle.map(area => area.id).join(', ')}`
+    );
+  }
+  throw new MuralNotFoundError(`No area with ID or title "${idOrTitle}" found on this mural`);
+}
+
+// Accepts epoch milliseconds or any date string Date.parse understands
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A date without a time is midnight UTC; as an upper bound it stands for the whole day, so
+// `endOfDay` moves it to the day's last millisecond
+function parseDateFilter(name: string, value: string | undefined, endOfDay = false): number | undefined {
+  if (value === undefined) return undefined;
+  const timestamp = toTimestamp(value);
+  if (timestamp === undefined) {
+    throw new MuralValidationError(`${name} is not a valid date: ${value}`);
+  }
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? timestamp + DAY_MS - 1 : timestamp;
+}
+
+function matchesAuthor(widget: MuralWidget, author: string): boolean {
+  const createdBy = widget.createdBy;
+  if (!createdBy) return false;
+
+  const wanted = author.trim().toLowerCase();
+  const name = [createdBy.firstName, createdBy.lastName].filter(Boolean).join(' ').toLowerCase();
+  return createdBy.id === author || createdBy.email?.toLowerCase() === wanted || (name !== '' && name.includes(wanted));
+}
+
+// Filters a board's widgets by region, area, proximity, type, author and dates. Spatial
+// filters narrow candidates through a SpatialIndex first; results come back in reading order.
+export function queryWidgets(widgets: MuralWidget[], query: WidgetQuery): WidgetQueryResult {
+  const match = query.match ?? 'center';
+  const index = new SpatialIndex(widgets);
+  let candidates: MuralWidget[] | undefined;
+  const narrow = (found: MuralWidget[]) => {
+    const allowed = new Set(found);
+    candidates = candidates ? candidates.filter(widget => allowed.has(widget)) : found;
+  };
+
+  if (query.region) {
+    const region = query.region;
+    narrow(index.search(region).filter(widget => matchesRegion(widget, region, match)));
+  }
+
+  let area: MuralWidget | undefined;
+  if (query.insideArea !== undefined) {
+    area = resolveArea(widgets, query.insideArea);
+    const areaBounds = widgetBounds(area);
+    narrow(index.search(areaBounds).filter(widget => widget.id !== area!.id && matchesRegion(widget, areaBounds, match)));
+  }
+
+  if (query.near) {
+    const { widgetId, distance } = query.near;
+    const reference = widgets.find(widget => widget.id === widgetId);
+    if (!reference) {
+      throw new MuralNotFoundError(`Widget ${widgetId} not found on this mural`);
+    }
+    const referenceBounds = widgetBounds(reference);
+    narrow(index.search(expandBounds(referenceBounds, distance))
+      .filter(widget => widget.id !== widgetId && distanceBetween(referenceBounds, widgetBounds(widget)) <= distance));
+  }
+
+  const types = query.types?.map(normalizeWidgetKind);
+  const createdAfter = parseDateFilter('createdAfter', query.createdAfter);
+  const createdBefore = parseDateFilter('createdBefore', query.createdBefore, true);
+  const updatedAfter = parseDateFilter('updatedAfter', query.updatedAfter);
+  const updatedBefore = parseDateFilter('updatedBefore', query.updatedBefore, true);
+
+  const matches = (candidates ?? widgets).filter(widget => {
+    if (types && !types.includes(widgetKind(widget))) return false;
+    if (query.createdBy !== undefined && !matchesAuthor(widget, query.createdBy)) return false;
+
+    const record = widget as WidgetRecord;
+    const createdOn = toTimestamp(record.createdOn);
+    const updatedOn = toTimestamp(record.updatedOn) ?? createdOn;
+    if (createdAfter !== undefined && (createdOn === undefined || createdOn < createdAfter)) return false;
+    if (createdBefore !== undefined && (createdOn === undefined || createdOn > createdBefore)) return false;
+    if (updatedAfter !== undefined && (updatedOn === undefined || updatedOn < updatedAfter)) return false;
+    if (updatedBefore !== undefined && (updatedOn === undefined || updatedOn > updatedBefore)) return false;
+    return true;
+  });
+
+  const ordered = sortByReadingOrder(matches);
+  return {
+    widgets: query.limit !== undefined ? ordered.slice(0, query.limit) : ordered,
+    total: ordered.length,
+    area
+  };
+}
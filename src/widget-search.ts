@@ -0,0 +1,159 @@
+import type { MuralWidget } from './types.js';
+import { sortByReadingOrder } from './geometry.js';
+import { normalizeWidgetKind, widgetKind, widgetText, type WidgetRecord } from './widget-content.js';
+import { MuralValidationError } from './errors.js';
+
+export type SearchMode = 'substring' | 'regex' | 'fuzzy';
+
+export interface TextSearchOptions {
+  mode?: SearchMode;          // Defaults to 'substring'
+  caseSensitive?: boolean;    // Ignored for 'fuzzy', which always ignores case
+  minScore?: number;          // Fuzzy only: minimum similarity between 0 and 1, defaults to 0.75
+  types?: string[];           // Only search these widget types
+}
+
+export interface TextMatch {
+  index: number;
+  length: number;
+  score: number;              // 1 for substring and regex matches
+}
+
+export interface WidgetSearchHit {
+  widget: MuralWidget;
+  text: string;               // The full searched text of the widget
+  match: TextMatch;
+}
+
+const DEFAULT_MIN_SCORE = 0.75;
+const SNIPPET_CONTEXT = 40;
+
+// Text a search looks at: the widget's text, plus every cell for tables (widgetText
+// returns a table's title instead of its cells when it has one)
+export function searchableText(widget: MuralWidget): string {
+  const record = widget as WidgetRecord;
+  const text = widgetText(widget);
+  if (!Array.isArray(record.data)) {
+    return text;
+  }
+
+  const cells = record.data
+    .map((row: unknown) => Array.isArray(row) ? row.filter(cell => cell !== '' && cell != null).join(' ') : '')
+    .filter(Boolean)
+    .join('\n');
+  return text === cells ? text : [text, cells].filter(Boolean).join('\n');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+// Compares the query against every run of consecutive words with about as many words as the
+// query, so "pricing tier" finds "Pricing tiers" and "pricng" finds "pricing"
+function fuzzyMatch(text: string, query: string, minScore: number): TextMatch | undefined {
+  const wanted = query.trim().toLowerCase().replace(/\s+/g, ' ');
+  const lower = text.toLowerCase();
+  const exact = lower.indexOf(wanted);
+  if (exact !== -1) {
+    return { index: exact, length: wanted.length, score: 1 };
+  }
+
+  const words = Array.from(text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}'’_-]*/gu), word => ({
+    start: word.index!,
+    end: word.index! + word[0].length
+  }));
+  const queryWords = wanted.split(' ').length;
+
+  let best: TextMatch | undefined;
+  for (let size = Math.max(1, queryWords - 1); size <= queryWords + 1; size++) {
+    for (let i = 0; i + size <= words.length; i++) {
+      const start = words[i].start;
+      const end = words[i + size - 1].end;
+      const score = similarity(lower.slice(start, end).replace(/\s+/g, ' '), wanted);
+      if (score >= minScore && (!best || score > best.score)) {
+        best = { index: start, length: end - start, score };
+      }
+    }
+  }
+  return best;
+}
+
+function regexMatch(text: string, pattern: RegExp): TextMatch | undefined {
+  pattern.lastIndex = 0;
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(text)) !== null) {
+    if (found[0].length > 0) {
+      return { index: found.index, length: found[0].length, score: 1 };
+    }
+    // Skip empty matches such as those of "a*" so they don't match every widget
+    pattern.lastIndex++;
+  }
+  return undefined;
+}
+
+// Builds a function that finds the first (or, for fuzzy, the best) match of query in a text
+export function createTextMatcher(query: string, options: TextSearchOptions = {}): (text: string) => TextMatch | undefined {
+  const mode = options.mode ?? 'substring';
+
+  if (mode === 'regex') {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(query, options.caseSensitive ? 'gu' : 'giu');
+    } catch (error) {
+      throw new MuralValidationError(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return text => regexMatch(text, pattern);
+  }
+
+  if (mode === 'fuzzy') {
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+    return text => fuzzyMatch(text, query, minScore);
+  }
+
+  const wanted = options.caseSensitive ? query : query.toLowerCase();
+  return text => {
+    const index = (options.caseSensitive ? text : text.toLowerCase()).indexOf(wanted);
+    return index === -1 ? undefined : { index, length: query.length, score: 1 };
+  };
+}
+
+// The matched text with some context on either side, on a single line
+export function matchSnippet(text: string, match: TextMatch, context = SNIPPET_CONTEXT): string {
+  const start = Math.max(0, match.index - context);
+  const end = Math.min(text.length, match.index + match.length + context);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+// Searches the text of a board's widgets. Hits are ordered by score, then in reading order.
+export function searchWidgets(widgets: MuralWidget[], query: string, options: TextSearchOptions = {}): WidgetSearchHit[] {
+  const matcher = createTextMatcher(query, options);
+  const types = options.types?.map(normalizeWidgetKind);
+
+  const hits: WidgetSearchHit[] = [];
+  for (const widget of sortByReadingOrder(widgets)) {
+    if (types && !types.includes(widgetKind(widget))) continue;
+
+    const text = searchableText(widget);
+    const match = text ? matcher(text) : undefined;
+    if (match) {
+      hits.push({ widget, text, match });
+    }
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep reading order
+  return hits.sort((a, b) => b.match.score - a.match.score);
+}
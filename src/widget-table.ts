@@ -0,0 +1,83 @@
+import type { MuralWidget } from './types.js';
+import { sortByReadingOrder } from './geometry.js';
+import { normalizeWidgetKind, widgetKind, widgetText, type WidgetRecord } from './widget-content.js';
+import { findParentAreas } from './outline.js';
+
+// Columns export-widgets-table can write, in their default order
+export const WIDGET_TABLE_COLUMNS = [
+  'id', 'type', 'text', 'color', 'area', 'author', 'createdOn', 'updatedOn', 'x', 'y', 'width', 'height', 'tags'
+] as const;
+
+export type WidgetTableColumn = typeof WIDGET_TABLE_COLUMNS[number];
+
+function timestamp(value: unknown): string {
+  if (typeof value === 'number') return new Date(value).toISOString();
+  return typeof value === 'string' ? value : '';
+}
+
+function authorOf(widget: MuralWidget): string {
+  const author = widget.createdBy;
+  if (!author) return '';
+  const name = [author.firstName, author.lastName].filter(Boolean).join(' ');
+  return name || author.email || author.id;
+}
+
+// The color a reader sees first: the fill, or the line color of arrows, or the text color of titles
+function colorOf(widget: WidgetRecord): string {
+  const style = widget.style && typeof widget.style === 'object' ? widget.style : {};
+  const color = style.backgroundColor ?? style.color ?? style.textColor;
+  return typeof color === 'string' ? color : '';
+}
+
+// Tags come as names or as objects with a text
+function tagsOf(widget: WidgetRecord): string {
+  if (!Array.isArray(widget.tags)) return '';
+  return widget.tags
+    .map((tag: unknown) => typeof tag === 'string' ? tag : (tag as { text?: unknown })?.text)
+    .filter((tag: unknown): tag is string => typeof tag === 'string' && tag !== '')
+    .join('; ');
+}
+
+export interface WidgetTableOptions {
+  columns?: readonly WidgetTableColumn[];  // Defaults to WIDGET_TABLE_COLUMNS
+  types?: string[];                        // Only rows for these widget types
+}
+
+// Flattens a board into a header row plus one row per widget, in reading order. Cells hold
+// the raw values; formatCsv escapes the ones a spreadsheet would run as formulas.
+export function widgetTableRows(widgets: MuralWidget[], options: WidgetTableOptions = {}): (string | number)[][] {
+  const { columns = WIDGET_TABLE_COLUMNS } = options;
+  const types = options.types?.map(normalizeWidgetKind);
+  const areaTitles = new Map(widgets
+    .filter(widget => widgetKind(widget) === 'area')
+    .map(area => [area.id, widgetText(area)]));
+  const parents = findParentAreas(widgets);
+
+  const cell = (widget: MuralWidget, column: WidgetTableColumn): string | number => {
+    const record = widget as WidgetRecord;
+    switch (column) {
+      case 'id': return widget.id;
+      case 'type': return widgetKind(widget);
+      case 'text': return widgetText(widget);
+      case 'color': return colorOf(record);
+      case 'area': {
+        const parent = parents.get(widget.id);
+        return parent ? areaTitles.get(parent) || parent : '';
+      }
+      case 'author': return authorOf(widget);
+      case 'createdOn': return timestamp(widget.createdOn);
+      case 'updatedOn': return timestamp(widget.updatedOn);
+      case 'x': return widget.x ?? '';
+      case 'y': return widget.y ?? '';
+      case 'width': return widget.width ?? '';
+      case 'height': return widget.height ?? '';
+      case 'tags': return tagsOf(record);
+    }
+  };
+
+  return [
+    [...columns],
+    ...sortByReadingOrder(widgets.filter(widget => !types || types.includes(widgetKind(widget))))
+      .map(widget => columns.map(column => cell(widget, column)))
+  ];
+}
@@ -0,0 +1,255 @@
+import { MuralValidationError } from './errors.js';
+
+// A parser for the subset of YAML that board documents use: block mappings and sequences,
+// flow collections ([a, b] and {a: 1}), plain and quoted scalars, literal (|) and folded (>)
+// block scalars, and comments. Anchors, aliases, tags and multiple documents are not
+// supported.
+
+interface Line {
+  number: number;   // 1-based, for error messages
+  indent: number;
+  text: string;     // Without the indentation
+}
+
+function fail(line: number, message: string): never {
+  throw new MuralValidationError(`Invalid YAML on line ${line}: ${message}`);
+}
+
+// Index of the first `char` outside quotes, or -1
+function indexOutsideQuotes(text: string, matches: (text: string, i: number) => boolean): number {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = undefined;
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s:[{,-]/.test(text[i - 1]))) {
+      quote = char;
+    } else if (matches(text, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function stripComment(text: string): string {
+  const index = indexOutsideQuotes(text, (value, i) => value[i] === '#' && (i === 0 || /\s/.test(value[i - 1])));
+  return (index === -1 ? text : text.slice(0, index)).trimEnd();
+}
+
+// Splits "key: value" at the first colon followed by a space or the end of the line
+function splitEntry(text: string): [string, string] | undefined {
+  const index = indexOutsideQuotes(text, (value, i) => value[i] === ':' && (i === value.length - 1 || /\s/.test(value[i + 1])));
+  return index === -1 ? undefined : [text.slice(0, index).trim(), text.slice(index + 1).trim()];
+}
+
+function parseScalar(text: string, line: number): unknown {
+  const value = text.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      fail(line, `unterminated or invalid double-quoted string ${value}`);
+    }
+  }
+  if (value.startsWith("'")) {
+    if (value.length < 2 || !value.endsWith("'")) fail(line, `unterminated single-quoted string ${value}`);
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^[&*!]/.test(value)) {
+    fail(line, 'anchors, aliases and tags are not supported');
+  }
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+// Flow collections such as [1, 2, "three"] and {x: 0, y: 10}, possibly nested
+function parseFlow(text: string, line: number): unknown {
+  let position = 0;
+  const skipSpace = () => {
+    while (position < text.length && /\s/.test(text[position])) position++;
+  };
+
+  const parseValue = (): unknown => {
+    skipSpace();
+    const char = text[position];
+    if (char === '[') {
+      position++;
+      const items: unknown[] = [];
+      skipSpace();
+      if (text[position] === ']') { position++; return items; }
+      for (;;) {
+        items.push(parseValue());
+        skipSpace();
+        if (text[position] === ',') { position++; continue; }
+        if (text[position] === ']') { position++; return items; }
+        fail(line, `expected "," or "]" in ${text}`);
+      }
+    }
+    if (char === '{') {
+      position++;
+      const map: Record<string, unknown> = {};
+      skipSpace();
+      if (text[position] === '}') { position++; return map; }
+      for (;;) {
+        const key = parseValue();
+        skipSpace();
+        if (text[position] !== ':') fail(line, `expected ":" after a key in ${text}`);
+        position++;
+        map[String(key)] = parseValue();
+        skipSpace();
+        if (text[position] === ',') { position++; continue; }
+        if (text[position] === '}') { position++; return map; }
+        fail(line, `expected "," or "}" in ${text}`);
+      }
+    }
+    if (char === '"' || char === "'") {
+      let end = position + 1;
+      while (end < text.length && text[end] !== char) {
+        end += text[end] === '\\' && char === '"' ? 2 : 1;
+      }
+      const quoted = text.slice(position, end + 1);
+      position = end + 1;
+      return parseScalar(quoted, line);
+    }
+    const start = position;
+    while (position < text.length && !/[,\]}]/.test(text[position]) && !(text[position] === ':' && /[\s,\]}]/.test(text[position + 1] ?? ' '))) {
+      position++;
+    }
+    return parseScalar(text.slice(start, position), line);
+  };
+
+  const value = parseValue();
+  skipSpace();
+  if (position < text.length) fail(line, `unexpected "${text.slice(position)}" after ${text.slice(0, position)}`);
+  return value;
+}
+
+function parseInline(text: string, line: number): unknown {
+  return text.startsWith('[') || text.startsWith('{') ? parseFlow(text, line) : parseScalar(text, line);
+}
+
+class YamlParser {
+  private index = 0;
+
+  constructor(private readonly lines: Line[], private readonly raw: string[]) {}
+
+  // The next line that holds content; blank and comment-only lines are skipped
+  private peek(): Line | undefined {
+    while (this.index < this.lines.length && stripComment(this.lines[this.index].text) === '') {
+      this.index++;
+    }
+    return this.lines[this.index];
+  }
+
+  parseDocument(): unknown {
+    const first = this.peek();
+    if (!first) return null;
+    const value = this.parseBlock(first.indent);
+    const extra = this.peek();
+    if (extra) fail(extra.number, `unexpected content "${extra.text}"`);
+    return value;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.peek()!;
+    const text = stripComment(line.text);
+    if (text === '-' || text.startsWith('- ')) {
+      return this.parseSequence(indent);
+    }
+    if (splitEntry(text) && !text.startsWith('{') && !text.startsWith('[')) {
+      return this.parseMapping(indent);
+    }
+    this.index++;
+    return parseInline(text, line.number);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      const text = stripComment(line.text);
+      if (text !== '-' && !text.startsWith('- ')) break;
+
+      const rest = text.slice(1).trimStart();
+      if (rest === '') {
+        this.index++;
+        const next = this.peek();
+        items.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+      } else {
+        // "- key: value" starts a mapping (or "- - x" a sequence) at the column after "- "
+        const column = indent + (line.text.length - line.text.slice(1).trimStart().length);
+        this.lines[this.index] = { number: line.number, indent: column, text: line.text.slice(column - indent) };
+        items.push(this.parseBlock(column));
+      }
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      const entry = splitEntry(stripComment(line.text));
+      if (!entry) fail(line.number, `expected "key: value", found "${line.text}"`);
+
+      const [rawKey, value] = entry;
+      const key = String(parseScalar(rawKey, line.number));
+      if (Object.hasOwn(map, key)) fail(line.number, `duplicate key "${key}"`);
+      this.index++;
+
+      if (/^[|>][-+]?$/.test(value)) {
+        map[key] = this.parseBlockScalar(indent, value);
+      } else if (value !== '') {
+        map[key] = parseInline(value, line.number);
+      } else {
+        const next = this.peek();
+        const nested = next && (next.indent > indent || (next.indent === indent && /^-( |$)/.test(stripComment(next.text))));
+        map[key] = nested ? this.parseBlock(next.indent) : null;
+      }
+    }
+    const next = this.peek();
+    if (next && next.indent > indent) fail(next.number, 'unexpected indentation');
+    return map;
+  }
+
+  // Literal (|) keeps line breaks, folded (>) joins lines with spaces; "-" drops the final
+  // line break and "+" keeps trailing blank lines
+  private parseBlockScalar(parentIndent: number, header: string): string {
+    const start = this.index;
+    let end = start;
+    while (end < this.lines.length && (this.lines[end].text.trim() === '' || this.lines[end].indent > parentIndent)) {
+      end++;
+    }
+    this.index = end;
+
+    const content = this.lines.slice(start, end);
+    const indents = content.filter(line => line.text.trim() !== '').map(line => line.indent);
+    const blockIndent = indents.length > 0 ? Math.min(...indents) : 0;
+    const rows = content.map(line => line.text.trim() === '' ? '' : this.raw[line.number - 1].slice(blockIndent));
+
+    let value = header.startsWith('|')
+      ? rows.join('\n')
+      : rows.reduce((text, row, i) => i === 0 ? row : text + (row === '' || rows[i - 1] === '' ? '\n' : ' ') + row, '');
+    const trailing = /\n*$/.exec(value)![0];
+    value = value.slice(0, value.length - trailing.length);
+    if (header.endsWith('+')) return value + trailing + '\n';
+    return header.endsWith('-') || value === '' ? value : value + '\n';
+  }
+}
+
+export function parseYaml(text: string): unknown {
+  const raw = text.replace(/\r\n?/g, '\n').split('\n');
+  const lines: Line[] = [];
+  raw.forEach((row, i) => {
+    if (/^(---|\.\.\.)\s*$/.test(row)) {
+      if (lines.some(line => line.text.trim() !== '')) fail(i + 1, 'multiple documents are not supported');
+      return;
+    }
+    const indent = row.length - row.trimStart().length;
+    if (/^\s*\t/.test(row) && row.trim() !== '') fail(i + 1, 'tabs cannot be used for indentation');
+    lines.push({ number: i + 1, indent, text: row.slice(indent) });
+  });
+  return new YamlParser(lines, raw).parseDocument();
+}
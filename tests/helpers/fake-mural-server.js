@@ -0,0 +1,472 @@
+#!/usr/bin/env node
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MuralClient } from '../../build/mural-client.js';
+
+export const FAKE_API_BASE = 'https://mural.fake/api/public/v1';
+
+const ALL_SCOPES = [
+  'workspaces:read',
+  'rooms:read',
+  'rooms:write',
+  'murals:read',
+  'murals:write',
+  'templates:read',
+  'templates:write',
+  'identity:read'
+];
+
+/**
+ * Fake Mural API - In-memory stand-in for the Mural public API
+ *
+ * Keeps workspaces, rooms, murals, widgets and templates in memory and answers
+ * the same REST shapes as the real API (`value` wrappers, `next` cursors,
+ * `{ code, message }` error bodies). Pass `server.transport` to MuralClient,
+ * or use `server.createClient()`, to run tools without network or credentials.
+ */
+export class FakeMuralServer {
+  constructor(options = {}) {
+    this.baseUrl = options.baseUrl || FAKE_API_BASE;
+    this.oauthBaseUrl = options.oauthBaseUrl || `${this.baseUrl}/authorization/oauth2`;
+    this.pageSize = options.pageSize || 100;
+    this.scopes = options.scopes || [...ALL_SCOPES];
+
+    this.accessToken = 'fake-access-token-1';
+    this.refreshToken = 'fake-refresh-token-1';
+    this.user = { id: 'user-1', firstName: 'Test', lastName: 'User', email: 'test.user@example.com' };
+
+    this.workspaces = new Map();
+    this.rooms = new Map();
+    this.murals = new Map();
+    this.widgets = new Map();     // muralId -> Map(widgetId -> widget)
+    this.templates = new Map();
+
+    this.requests = [];           // { method, path, query, body } for every API call
+    this.failures = [];           // Queued failures, see failNext()
+    this.tempDirs = [];
+    this.counter = 0;
+
+    this.transport = (url, init) => this.handle(url, init);
+    this.routes = this.buildRoutes();
+  }
+
+  // ==========================================================================
+  // Seeding and inspection
+  // ==========================================================================
+
+  id(prefix) {
+    this.counter++;
+    return `${prefix}-${this.counter}`;
+  }
+
+  addWorkspace(data = {}) {
+    const workspace = { id: this.id('workspace'), name: 'Test Workspace', ...data };
+    this.workspaces.set(workspace.id, workspace);
+    return workspace;
+  }
+
+  addRoom(data = {}) {
+    const room = { id: this.id('room'), name: 'Test Room', type: 'open', createdOn: Date.now(), ...data };
+    this.rooms.set(room.id, room);
+    return room;
+  }
+
+  addMural(data = {}) {
+    const room = this.rooms.get(data.roomId);
+    const mural = {
+      id: this.id('mural'),
+      title: 'Test Mural',
+      workspaceId: room?.workspaceId,
+      createdOn: Date.now(),
+      updatedOn: Date.now(),
+      ...data
+    };
+    this.murals.set(mural.id, mural);
+    this.widgets.set(mural.id, new Map());
+    return mural;
+  }
+
+  addWidget(muralId, data = {}) {
+    const widget = { id: this.id('widget'), type: 'sticky note', x: 0, y: 0, width: 138, height: 138, ...data };
+    this.widgetsOf(muralId).set(widget.id, widget);
+    return widget;
+  }
+
+  addTemplate(data = {}) {
+    const template = { id: this.id('template'), name: 'Test Template', type: 'default', widgets: [], ...data };
+    this.templates.set(template.id, template);
+    return template;
+  }
+
+  getWidgets(muralId) {
+    return Array.from(this.widgetsOf(muralId).values());
+  }
+
+  widgetsOf(muralId) {
+    if (!this.widgets.has(muralId)) {
+      this.widgets.set(muralId, new Map());
+    }
+    return this.widgets.get(muralId);
+  }
+
+  /**
+   * Fail the next matching request(s) instead of routing them. With `afterHandling`, the
+   * request is carried out and only the response is replaced, like a response lost in transit
+   * @param {object} failure - { status, times, method, path (substring or RegExp), retryAfter, code, message, afterHandling }
+   */
+  failNext(failure = {}) {
+    this.failures.push({ status: 500, times: 1, ...failure });
+  }
+
+  /**
+   * Create a MuralClient wired to this server, with stored tokens for the given scopes
+   */
+  async createClient(options = {}) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mural-mcp-test-'));
+    this.tempDirs.push(dir);
+
+    const tokenFilePath = path.join(dir, 'tokens.json');
+    await fs.writeFile(tokenFilePath, JSON.stringify({
+      access_token: options.expired ? 'expired-access-token' : this.accessToken,
+      refresh_token: this.refreshToken,
+      token_type: 'Bearer',
+      expires_in: 3600,
+      expires_at: options.expired ? Date.now() - 1000 : Date.now() + 3600 * 1000,
+      scope: (options.scopes || this.scopes).join(' ')
+    }));
+
+    return new MuralClient(
+      'fake-client-id',
+      undefined,
+      undefined,
+      { persistState: false, userRequestsPerSecond: 1000, ...options.rateLimitConfig },
+      {
+        transport: this.transport,
+        apiBaseUrl: this.baseUrl,
+        oauthBaseUrl: this.oauthBaseUrl,
+        tokenFilePath,
+        idempotencyFilePath: options.idempotencyFilePath || path.join(dir, 'idempotency.json'),
+        journalFilePath: options.journalFilePath || path.join(dir, 'journal.json'),
+        snapshotDirectory: options.snapshotDirectory || path.join(dir, 'snapshots')
+      }
+    );
+  }
+
+  async cleanup() {
+    await Promise.all(this.tempDirs.map(dir => fs.rm(dir, { recursive: true, force: true })));
+    this.tempDirs = [];
+  }
+
+  // ==========================================================================
+  // Request handling
+  // ==========================================================================
+
+  async handle(url, init = {}) {
+    const method = (init.method || 'GET').toUpperCase();
+    const parsed = new URL(url);
+    const requestId = this.id('req');
+
+    let body;
+    if (init.body instanceof URLSearchParams) {
+      body = Object.fromEntries(init.body);
+    } else if (typeof init.body === 'string' && init.body) {
+      body = JSON.parse(init.body);
+    }
+
+    if (url.startsWith(this.oauthBaseUrl)) {
+      return this.handleOAuth(parsed, method, body, requestId);
+    }
+    if (!url.startsWith(this.baseUrl)) {
+      return this.error(404, 'NOT_FOUND', `Unknown host for ${url}`, requestId);
+    }
+
+    const apiPath = parsed.pathname.slice(new URL(this.baseUrl).pathname.length) || '/';
+    const query = Object.fromEntries(parsed.searchParams);
+    this.requests.push({ method, path: apiPath, query, body });
+
+    const failure = this.takeFailure(method, apiPath);
+    const failureResponse = () => {
+      const headers = failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {};
+      return this.error(failure.status, failure.code || `HTTP_${failure.status}`, failure.message || `Injected failure (HTTP ${failure.status})`, requestId, headers);
+    };
+    if (failure && !failure.afterHandling) {
+      return failureResponse();
+    }
+
+    const authorization = new Headers(init.headers).get('Authorization');
+    if (authorization !== `Bearer ${this.accessToken}`) {
+      return this.error(401, 'UNAUTHORIZED', 'Invalid or expired access token', requestId);
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = apiPath.match(route.pattern);
+      if (!match) continue;
+
+      if (route.scope && !this.scopes.includes(route.scope)) {
+        return this.error(403, 'FORBIDDEN', `Token is missing the ${route.scope} scope`, requestId);
+      }
+
+      try {
+        const result = route.handler({ params: match.slice(1).map(decodeURIComponent), query, body });
+        if (failure) {
+          return failureResponse();
+        }
+        if (result instanceof Response) {
+          return result;
+        }
+        if (result === undefined) {
+          return new Response(null, { status: 204, headers: { 'x-request-id': requestId } });
+        }
+        return this.json(route.status || 200, result, requestId);
+      } catch (error) {
+        if (error instanceof FakeApiError) {
+          return this.error(error.status, error.code, error.message, requestId);
+        }
+        throw error;
+      }
+    }
+
+    return this.error(404, 'NOT_FOUND', `No route for ${method} ${apiPath}`, requestId);
+  }
+
+  handleOAuth(parsed, method, body, requestId) {
+    if (method !== 'POST' || !parsed.pathname.endsWith('/token')) {
+      return this.json(400, { error: 'invalid_request', error_description: 'Only the token endpoint is supported' }, requestId);
+    }
+    if (body?.grant_type !== 'refresh_token' || body.refresh_token !== this.refreshToken) {
+      return this.json(400, { error: 'invalid_grant', error_description: 'Unknown refresh token' }, requestId);
+    }
+
+    const generation = Number(this.accessToken.split('-').pop()) + 1;
+    this.accessToken = `fake-access-token-${generation}`;
+    this.refreshToken = `fake-refresh-token-${generation}`;
+
+    return this.json(200, {
+      access_token: this.accessToken,
+      refresh_token: this.refreshToken,
+      token_type: 'Bearer',
+      expires_in: 3600,
+      scope: this.scopes.join(' ')
+    }, requestId);
+  }
+
+  takeFailure(method, apiPath) {
+    const index = this.failures.findIndex(failure =>
+      (!failure.method || failure.method.toUpperCase() === method) &&
+      (!failure.path || (failure.path instanceof RegExp ? failure.path.test(apiPath) : apiPath.includes(failure.path)))
+    );
+    if (index === -1) return null;
+
+    const failure = this.failures[index];
+    failure.times--;
+    if (failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure;
+  }
+
+  json(status, data, requestId, headers = {}) {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json', 'x-request-id': requestId, ...headers }
+    });
+  }
+
+  error(status, code, message, requestId, headers = {}) {
+    return this.json(status, { code, message }, requestId, headers);
+  }
+
+  // Cursor pagination over an in-memory list; `next` is an opaque offset token
+  page(items, query) {
+    const limit = Math.min(Number(query.limit) || this.pageSize, this.pageSize);
+    const start = query.next ? Number(Buffer.from(query.next, 'base64url').toString()) : 0;
+    const end = start + limit;
+
+    return {
+      value: items.slice(start, end),
+      ...(end < items.length && { next: Buffer.from(String(end)).toString('base64url') })
+    };
+  }
+
+  // ==========================================================================
+  // Routes
+  // ==========================================================================
+
+  buildRoutes() {
+    const find = (map, id, label) => {
+      const item = map.get(id);
+      if (!item) throw new FakeApiError(404, 'NOT_FOUND', `${label} ${id} not found`);
+      return item;
+    };
+    const requireFields = (body, fields) => {
+      const missing = fields.filter(field => body?.[field] === undefined || body[field] === '');
+      if (missing.length > 0) {
+        throw new FakeApiError(400, 'VALIDATION_ERROR', `Missing required field(s): ${missing.join(', ')}`);
+      }
+    };
+    const copyWidgets = (fromWidgets, toMuralId) => {
+      const target = this.widgetsOf(toMuralId);
+      fromWidgets.forEach(widget => {
+        const copy = { ...widget, id: this.id('widget') };
+        target.set(copy.id, copy);
+      });
+    };
+    const values = map => Array.from(map.values());
+    const templateView = ({ widgets, ...template }) => template;
+
+    return [
+      // Users
+      { method: 'GET', pattern: /^\/users\/me$/, scope: 'identity:read', handler: () => ({ value: this.user }) },
+
+      // Workspaces
+      { method: 'GET', pattern: /^\/workspaces$/, scope: 'workspaces:read', handler: ({ query }) => {
+        const workspaces = values(this.workspaces).slice(Number(query.offset) || 0);
+        return this.page(workspaces, query);
+      } },
+      { method: 'GET', pattern: /^\/workspaces\/([^/]+)$/, scope: 'workspaces:read', handler: ({ params }) =>
+        ({ value: find(this.workspaces, params[0], 'Workspace') }) },
+      { method: 'GET', pattern: /^\/workspaces\/([^/]+)\/rooms$/, scope: 'rooms:read', handler: ({ params, query }) => {
+        find(this.workspaces, params[0], 'Workspace');
+        return this.page(values(this.rooms).filter(room => room.workspaceId === params[0]), query);
+      } },
+      { method: 'GET', pattern: /^\/workspaces\/([^/]+)\/murals$/, scope: 'murals:read', handler: ({ params, query }) => {
+        find(this.workspaces, params[0], 'Workspace');
+        return this.page(values(this.murals).filter(mural => mural.workspaceId === params[0]), query);
+      } },
+      { method: 'GET', pattern: /^\/workspaces\/([^/]+)\/templates$/, scope: 'templates:read', handler: ({ params, query }) => {
+        find(this.workspaces, params[0], 'Workspace');
+        const templates = values(this.templates).filter(template => template.type === 'default' || template.workspaceId === params[0]);
+        return this.page(templates.map(templateView), query);
+      } },
+
+      // Rooms
+      { method: 'POST', pattern: /^\/rooms$/, status: 201, scope: 'rooms:write', handler: ({ body }) => {
+        requireFields(body, ['name', 'workspaceId', 'type']);
+        find(this.workspaces, body.workspaceId, 'Workspace');
+        return { value: this.addRoom(body) };
+      } },
+      { method: 'GET', pattern: /^\/rooms\/([^/]+)$/, scope: 'rooms:read', handler: ({ params }) =>
+        ({ value: find(this.rooms, params[0], 'Room') }) },
+      { method: 'PATCH', pattern: /^\/rooms\/([^/]+)$/, scope: 'rooms:write', handler: ({ params, body }) => {
+        const room = find(this.rooms, params[0], 'Room');
+        Object.assign(room, body);
+        return { value: room };
+      } },
+      { method: 'DELETE', pattern: /^\/rooms\/([^/]+)$/, scope: 'rooms:write', handler: ({ params }) => {
+        find(this.rooms, params[0], 'Room');
+        this.rooms.delete(params[0]);
+        values(this.murals).filter(mural => mural.roomId === params[0]).forEach(mural => {
+          this.murals.delete(mural.id);
+          this.widgets.delete(mural.id);
+        });
+      } },
+      { method: 'GET', pattern: /^\/rooms\/([^/]+)\/murals$/, scope: 'murals:read', handler: ({ params, query }) => {
+        find(this.rooms, params[0], 'Room');
+        return this.page(values(this.murals).filter(mural => mural.roomId === params[0]), query);
+      } },
+
+      // Murals
+      { method: 'POST', pattern: /^\/murals$/, status: 201, scope: 'murals:write', handler: ({ body }) => {
+        requireFields(body, ['roomId']);
+        find(this.rooms, body.roomId, 'Room');
+        return { value: this.addMural({ title: 'Untitled mural', ...body }) };
+      } },
+      { method: 'GET', pattern: /^\/murals\/([^/]+)$/, scope: 'murals:read', handler: ({ params }) =>
+        ({ value: find(this.murals, params[0], 'Mural') }) },
+      { method: 'PATCH', pattern: /^\/murals\/([^/]+)$/, scope: 'murals:write', handler: ({ params, body }) => {
+        const mural = find(this.murals, params[0], 'Mural');
+        Object.assign(mural, body, { updatedOn: Date.now() });
+        return { value: mural };
+      } },
+      { method: 'DELETE', pattern: /^\/murals\/([^/]+)$/, scope: 'murals:write', handler: ({ params }) => {
+        find(this.murals, params[0], 'Mural');
+        this.murals.delete(params[0]);
+        this.widgets.delete(params[0]);
+      } },
+      { method: 'POST', pattern: /^\/murals\/([^/]+)\/duplicate$/, status: 201, scope: 'murals:write', handler: ({ params, body }) => {
+        const source = find(this.murals, params[0], 'Mural');
+        if (body?.roomId) find(this.rooms, body.roomId, 'Room');
+        const { id, ...rest } = source;
+        const copy = this.addMural({ ...rest, title: body?.title || `${source.title} (copy)`, roomId: body?.roomId || source.roomId });
+        copyWidgets(this.getWidgets(source.id), copy.id);
+        return { value: copy };
+      } },
+
+      // Widgets
+      { method: 'GET', pattern: /^\/murals\/([^/]+)\/widgets$/, scope: 'murals:read', handler: ({ params, query }) => {
+        find(this.murals, params[0], 'Mural');
+        return this.page(this.getWidgets(params[0]), query);
+      } },
+      { method: 'GET', pattern: /^\/murals\/([^/]+)\/widgets\/([^/]+)$/, scope: 'murals:read', handler: ({ params }) => {
+        find(this.murals, params[0], 'Mural');
+        return { value: find(this.widgetsOf(params[0]), params[1], 'Widget') };
+      } },
+      { method: 'DELETE', pattern: /^\/murals\/([^/]+)\/widgets\/([^/]+)$/, scope: 'murals:write', handler: ({ params }) => {
+        find(this.murals, params[0], 'Mural');
+        find(this.widgetsOf(params[0]), params[1], 'Widget');
+        this.widgetsOf(params[0]).delete(params[1]);
+      } },
+      { method: 'POST', pattern: /^\/murals\/([^/]+)\/widgets\/([a-z-]+)$/, status: 201, scope: 'murals:write', handler: ({ params, body }) => {
+        find(this.murals, params[0], 'Mural');
+        const items = Array.isArray(body) ? body : [body];
+        const type = params[1].replace(/-/g, ' ');
+        const created = items.map(item => this.addWidget(params[0], { ...item, type }));
+        return { value: created };
+      } },
+      { method: 'PATCH', pattern: /^\/murals\/([^/]+)\/widgets\/([a-z-]+)\/([^/]+)$/, scope: 'murals:write', handler: ({ params, body }) => {
+        find(this.murals, params[0], 'Mural');
+        const widget = find(this.widgetsOf(params[0]), params[2], 'Widget');
+        if (widget.type.replace(/[\s_]+/g, '-').toLowerCase() !== params[1]) {
+          throw new FakeApiError(400, 'VALIDATION_ERROR', `Widget ${widget.id} is a ${widget.type}, not a ${params[1]}`);
+        }
+        Object.assign(widget, body);
+        return { value: widget };
+      } },
+
+      // Templates
+      { method: 'GET', pattern: /^\/templates$/, scope: 'templates:read', handler: ({ query }) =>
+        this.page(values(this.templates).filter(template => template.type === 'default').map(templateView), query) },
+      { method: 'POST', pattern: /^\/templates$/, status: 201, scope: 'templates:write', handler: ({ body }) => {
+        requireFields(body, ['muralId', 'name']);
+        const mural = find(this.murals, body.muralId, 'Mural');
+        const template = this.addTemplate({
+          name: body.name,
+          description: body.description,
+          type: 'custom',
+          workspaceId: mural.workspaceId,
+          widgets: this.getWidgets(mural.id).map(widget => ({ ...widget }))
+        });
+        return { value: templateView(template) };
+      } },
+      { method: 'DELETE', pattern: /^\/templates\/([^/]+)$/, scope: 'templates:write', handler: ({ params }) => {
+        find(this.templates, params[0], 'Template');
+        this.templates.delete(params[0]);
+      } },
+      { method: 'POST', pattern: /^\/templates\/([^/]+)\/murals$/, status: 201, scope: 'murals:write', handler: ({ params, body }) => {
+        const template = find(this.templates, params[0], 'Template');
+        requireFields(body, ['roomId']);
+        find(this.rooms, body.roomId, 'Room');
+        const mural = this.addMural({ title: body.title || template.name, roomId: body.roomId });
+        copyWidgets(template.widgets, mural.id);
+        return { value: mural };
+      } },
+      { method: 'GET', pattern: /^\/search\/([^/]+)\/templates$/, scope: 'templates:read', handler: ({ params, query }) => {
+        const text = (query.q || '').toLowerCase();
+        const templates = values(this.templates).filter(template =>
+          (template.type === 'default' || template.workspaceId === params[0]) && template.name.toLowerCase().includes(text));
+        return this.page(templates.map(templateView), query);
+      } }
+    ];
+  }
+}
+
+class FakeApiError extends Error {
+  constructor(status, code, message) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
@@ -12,14 +12,15 @@ const __dirname = path.dirname(__filename);
 /**
  * Modular Test Runner
  * 
- * Runs atomic e2e tests with support for:
+ * Runs atomic unit and e2e tests with support for:
  * - Individual tool testing (--tool=create-sticky-notes)
+ * - Offline unit tests only (--unit)
  * - Full suite execution
  * - Parallel execution (--parallel)
  * - Detailed reporting
  */
 
-// Available MCP tools (from src/index.ts)
+// Available MCP tools (from src/tools/)
 const MCP_TOOLS = [
   'list-workspaces',
   'get-workspace', 
@@ -30,12 +31,59 @@ const MCP_TOOLS = [
   'list-workspace-boards',
   'list-room-boards',
   'get-board',
+  'list-workspace-rooms',
+  'get-room',
+  'create-room',
+  'update-room',
+  'delete-room',
+  'create-mural',
+  'update-mural',
+  'duplicate-mural',
+  'delete-mural',
+  'list-templates',
+  'search-templates',
+  'create-template-from-mural',
+  'delete-template',
+  'create-mural-from-template',
   'check-user-scopes',
   'get-mural-widgets',
   'get-mural-widget', 
   'delete-widget',
   'create-sticky-notes',
-  'update-sticky-note'
+  'create-sticky-note-layout',
+  'create-text-boxes',
+  'create-titles',
+  'create-shapes',
+  'create-areas',
+  'create-arrows',
+  'create-tables',
+  'create-images',
+  'create-files',
+  'update-sticky-note',
+  'update-text-box',
+  'update-title',
+  'update-shape',
+  'update-image',
+  'update-file',
+  'update-area',
+  'update-arrow',
+  'update-comment',
+  'update-widget',
+  'delete-widgets',
+  'update-widgets',
+  'list-recent-operations',
+  'undo-operation',
+  'snapshot-mural',
+  'list-mural-snapshots',
+  'diff-mural',
+  'import-board',
+  'query-widgets',
+  'search-widgets',
+  'find-free-space',
+  'export-mural-outline',
+  'export-board',
+  'export-widgets-table',
+  'render-mural-svg'
 ];
 
 /**
@@ -45,6 +93,7 @@ function parseArgs() {
   const args = {
     tool: null,
     parallel: false,
+    unit: false,
     verbose: false,
     help: false
   };
@@ -54,6 +103,8 @@ function parseArgs() {
       args.tool = arg.split('=')[1];
     } else if (arg === '--parallel') {
       args.parallel = true;
+    } else if (arg === '--unit') {
+      args.unit = true;
     } else if (arg === '--verbose' || arg === '-v') {
       args.verbose = true;
     } else if (arg === '--help' || arg === '-h') {
@@ -76,6 +127,7 @@ function showHelp() {
   console.log('Options:');
   console.log('  --tool=<name>     Run test for specific MCP tool');
   console.log('  --parallel        Run tests in parallel (faster)');
+  console.log('  --unit            Run only offline unit tests (no credentials needed)');
   console.log('  --verbose, -v     Verbose output');
   console.log('  --help, -h        Show this help');
   console.log('');
@@ -83,6 +135,7 @@ function showHelp() {
   console.log('  node run-tests.js                           # Run all tests');
   console.log('  node run-tests.js --tool=create-sticky-notes # Run single tool test'); 
   console.log('  node run-tests.js --parallel                # Run all tests in parallel');
+  console.log('  node run-tests.js --unit                    # Run offline unit tests');
   console.log('  node run-tests.js --tool=test-connection -v # Run with verbose output');
   console.log('');
   console.log('Available MCP Tools:');
@@ -90,21 +143,22 @@ function showHelp() {
 }
 
 /**
- * Find available test files
+ * Find available test files in a suite directory (unit/ or e2e/)
  */
-async function findTestFiles() {
+async function findTestFiles(suite) {
   try {
-    const e2eDir = path.join(__dirname, 'e2e');
-    const files = await readdir(e2eDir);
+    const suiteDir = path.join(__dirname, suite);
+    const files = await readdir(suiteDir);
     
     return files
       .filter(file => file.endsWith('.test.js'))
       .map(file => ({
         tool: file.replace('.test.js', ''),
-        file: path.join(e2eDir, file)
+        file: path.join(suiteDir, file),
+        suite
       }));
   } catch (error) {
-    console.error('❌ Failed to read e2e directory:', error.message);
+    console.error(`❌ Failed to read ${suite} directory:`, error.message);
     return [];
   }
 }
@@ -234,23 +288,17 @@ async function main() {
     process.exit(0);
   }
   
-  console.log('🧪 Mural MCP E2E Test Runner');
+  console.log('🧪 Mural MCP Test Runner');
   console.log(`📅 ${new Date().toISOString()}`);
   
-  // Check environment
-  if (!process.env.MURAL_CLIENT_ID) {
-    console.error('\\n❌ MURAL_CLIENT_ID environment variable is required');
-    console.error('💡 Please set up your environment variables before running tests');
-    process.exit(1);
-  }
-  
-  console.log('✅ Environment check passed');
-  
   // Find available test files
-  const availableTests = await findTestFiles();
+  const availableTests = [
+    ...await findTestFiles('unit'),
+    ...(args.unit ? [] : await findTestFiles('e2e'))
+  ];
   
   if (availableTests.length === 0) {
-    console.error('\\n❌ No test files found in e2e/ directory');
+    console.error(`\\n❌ No test files found in ${args.unit ? 'unit/' : 'unit/ or e2e/'} directory`);
     process.exit(1);
   }
   
@@ -271,6 +319,17 @@ async function main() {
     console.log(`🎯 Running single test: ${args.tool}`);
   }
   
+  // E2E tests talk to the live Mural API; unit tests run offline
+  if (testsToRun.some(t => t.suite === 'e2e')) {
+    if (!process.env.MURAL_CLIENT_ID) {
+      console.error('\\n❌ MURAL_CLIENT_ID environment variable is required');
+      console.error('💡 Please set up your environment variables before running tests (or use --unit)');
+      process.exit(1);
+    }
+    
+    console.log('✅ Environment check passed');
+  }
+  
   // Run tests
   const startTime = Date.now();
   const results = args.parallel ? 
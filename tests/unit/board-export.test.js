@@ -0,0 +1,218 @@
+#!/usr/bin/env node
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { exportBoardDocument } from '../../build/board-export.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: board export
+ *
+ * Exports boards to the board document format and checks that importing the document,
+ * inline or through a file, into another mural re-creates the same board.
+ */
+export async function testBoardExport() {
+  console.log('🧪 Testing: board export');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const serverFields = ['id', 'muralId', 'createdBy', 'createdOn', 'updatedOn', 'startWidget', 'endWidget'];
+  const keysIn = value => Array.isArray(value)
+    ? value.flatMap(keysIn)
+    : value && typeof value === 'object' ? Object.entries(value).flatMap(([key, child]) => [key, ...keysIn(child)]) : [];
+
+  // Test 1: Document structure
+  console.log('\n📦 Test 1: Document structure');
+  try {
+    const widgets = [
+      { id: 'w-area', type: 'area', title: 'Ideas', x: 1000, y: 500, width: 600, height: 400, style: { backgroundColor: '#EEEEEE' }, createdBy: { id: 'u1' } },
+      { id: 'w-b', type: 'sticky note', text: 'Second', x: 1300, y: 600, width: 138, height: 138, style: {}, updatedOn: '2024-05-01' },
+      { id: 'w-a', type: 'sticky note', text: 'First', x: 1040.004, y: 600, width: 138, height: 138, shape: 'circle' },
+      { id: 'w-text', type: 'text box', htmlText: '<p>Notes &amp; more</p>', x: 1800, y: 520, width: 200, height: 60 },
+      { id: 'w-image', type: 'image', url: 'https://example.com/a.png', x: 1800, y: 700, width: 100, height: 100 },
+      { id: 'w-arrow', type: 'arrow', x: 0, y: 0, startWidget: 'w-a', endWidget: 'w-b', style: { color: '#333333' } },
+      { id: 'w-loose', type: 'arrow', x: 0, y: 0, startWidget: 'w-image', startX: 1850, startY: 750, endWidget: 'w-text' },
+      { id: 'w-dangling', type: 'arrow', x: 0, y: 0, startWidget: 'w-image', endWidget: 'w-text' }
+    ];
+    const { document, skipped } = exportBoardDocument(widgets, { muralId: 'm1', exportedAt: '2024-05-01T00:00:00.000Z' });
+    const [area, text, arrow, loose] = document.items;
+
+    addResult('Positions start at the top-left corner of the board',
+      area.x === 0 && area.y === 0 && text.x === 800 && text.y === 20, JSON.stringify(document.items.map(item => [item.x, item.y])));
+    addResult('Items inside areas are nested in reading order, relative to the area',
+      area.children?.map(child => `${child.text}@${child.x},${child.y}`).join() === 'First@40,100,Second@300,100',
+      JSON.stringify(area.children));
+    addResult('Arrow ends become refs, or points when the end is not exported',
+      arrow.from === 'sticky-1' && arrow.to === 'sticky-2' && area.children[0].ref === 'sticky-1' &&
+      loose.start?.x === 850 && loose.start?.y === 250 && loose.to === 'text-1' && text.ref === 'text-1',
+      JSON.stringify([arrow, loose]));
+    addResult('Server-side fields are stripped and HTML text flattened',
+      !keysIn(document.items).some(key => serverFields.includes(key)) && text.text === 'Notes & more' &&
+      area.children[0].shape === 'circle' && area.children[1].style === undefined,
+      keysIn(document.items).filter(key => serverFields.includes(key)).join());
+    addResult('Widgets import-board cannot re-create are reported',
+      skipped.map(widget => widget.widgetId).join() === 'w-image,w-dangling' && document.items.length === 4,
+      JSON.stringify(skipped));
+  } catch (error) {
+    addResult('Document structure', false, error.message);
+  }
+
+  // Test 2: Round trip through import-board
+  console.log('\n🔁 Test 2: Round trip');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const source = server.addMural({ roomId: room.id, title: 'Retro' });
+    const target = server.addMural({ roomId: room.id });
+    const area = server.addWidget(source.id, { type: 'area', title: 'Went well', x: 200, y: 200, width: 500, height: 400, style: { backgroundColor: '#E0F7FA' } });
+    const inner = server.addWidget(source.id, { type: 'area', title: 'Team', x: 240, y: 400, width: 300, height: 180 });
+    const note = server.addWidget(source.id, { text: 'Shipped', x: 260, y: 420, style: { backgroundColor: '#FFEB3B' } });
+    server.addWidget(source.id, { type: 'title', text: 'Sprint 12', x: 200, y: 100, width: 300, height: 60 });
+    server.addWidget(source.id, { type: 'shape', shape: 'diamond', text: 'Decide', x: 900, y: 200, width: 100, height: 100 });
+    server.addWidget(source.id, { type: 'table', rows: 2, columns: 2, data: [['Owner', 'Task'], ['Ana', 'Docs']], x: 900, y: 400, width: 360, height: 120 });
+    server.addWidget(source.id, { type: 'arrow', startWidget: note.id, endWidget: inner.id, style: { color: '#333333' } });
+    server.addWidget(source.id, { type: 'file', filename: 'notes.pdf', url: 'https://example.com/notes.pdf', x: 1400, y: 200 });
+
+    const client = await server.createClient();
+    const registry = new ToolRegistry(allTools);
+    const call = async (name, args) => {
+      const result = await registry.call(name, args, { client });
+      return { isError: result.isError, data: JSON.parse(result.content[0].text) };
+    };
+
+    const exported = await call('export-board', { muralId: source.id });
+    addResult('export-board returns the document with counts and source',
+      !exported.isError && exported.data.document.version === 1 && exported.data.document.source.title === 'Retro' &&
+      exported.data.counts.area === 2 && exported.data.counts.sticky === 1 && exported.data.skipped.length === 1,
+      JSON.stringify(exported.data.counts));
+
+    const imported = await call('import-board', { muralId: target.id, document: JSON.stringify(exported.data.document) });
+    const reexported = await call('export-board', { muralId: target.id });
+    addResult('Importing the export re-creates the same board',
+      !imported.isError && JSON.stringify(reexported.data.document.items) === JSON.stringify(exported.data.document.items),
+      imported.isError ? imported.data.message : JSON.stringify(reexported.data.document.items));
+
+    const copy = server.getWidgets(target.id);
+    const copiedArrow = copy.find(widget => widget.type === 'arrow');
+    const copiedInner = copy.find(widget => widget.title === 'Team');
+    addResult('Arrows attach to the re-created widgets',
+      copiedArrow?.endWidget === copiedInner?.id && copy.find(widget => widget.id === copiedArrow?.startWidget)?.text === 'Shipped',
+      JSON.stringify(copiedArrow));
+    addResult('The source board is left untouched',
+      server.getWidgets(source.id).find(widget => widget.id === area.id)?.x === 200);
+  } catch (error) {
+    addResult('Round trip', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Test 3: Backup files
+  console.log('\n💾 Test 3: Backup files');
+  const fileServer = new FakeMuralServer();
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mural-board-'));
+  try {
+    const workspace = fileServer.addWorkspace();
+    const room = fileServer.addRoom({ workspaceId: workspace.id });
+    const source = fileServer.addMural({ roomId: room.id, title: 'Planning' });
+    const target = fileServer.addMural({ roomId: room.id });
+    const area = fileServer.addWidget(source.id, { type: 'area', title: 'Backlog', x: 0, y: 0, width: 400, height: 300 });
+    const note = fileServer.addWidget(source.id, { text: 'Search', x: 40, y: 80 });
+    fileServer.addWidget(source.id, { type: 'arrow', startWidget: note.id, endWidget: area.id });
+
+    const client = await fileServer.createClient();
+    const registry = new ToolRegistry(allTools);
+    const call = async (name, args) => {
+      const result = await registry.call(name, args, { client });
+      return { isError: result.isError, data: JSON.parse(result.content[0].text) };
+    };
+
+    const filePath = path.join(directory, 'backups', 'planning.json');
+    const written = await call('export-board', { muralId: source.id, filePath });
+    const onDisk = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    addResult('export-board writes the document to a file instead of returning it',
+      !written.isError && written.data.filePath === filePath && written.data.document === undefined &&
+      onDisk.version === 1 && onDisk.source.title === 'Planning' && written.data.counts.sticky === 1,
+      JSON.stringify(written.data));
+
+    const clobber = await call('export-board', { muralId: source.id, filePath });
+    const replaced = await call('export-board', { muralId: source.id, filePath, overwrite: true });
+    addResult('Existing files are only replaced with overwrite',
+      clobber.isError && clobber.data.code === 'VALIDATION_ERROR' && !replaced.isError, clobber.data.message);
+
+    const imported = await call('import-board', { muralId: target.id, filePath });
+    const reexported = await call('export-board', { muralId: target.id });
+    addResult('import-board re-creates the board from the file',
+      !imported.isError && JSON.stringify(reexported.data.document.items) === JSON.stringify(onDisk.items),
+      imported.isError ? imported.data.message : JSON.stringify(reexported.data.document.items));
+
+    // A single-column CSV has no comma to detect it by
+    const csvPath = path.join(directory, 'notes.csv');
+    await fs.writeFile(csvPath, 'text\nFrom CSV\n');
+    const fromCsv = await call('import-board', { muralId: target.id, filePath: csvPath, dryRun: true });
+    const missing = await call('import-board', { muralId: target.id, filePath: path.join(directory, 'missing.json') });
+    const both = await call('import-board', { muralId: target.id, filePath, document: '[]' });
+    const neither = await call('import-board', { muralId: target.id });
+    addResult('Files are read by extension; missing files and ambiguous sources are rejected',
+      !fromCsv.isError && fromCsv.data.widgets[0].text === 'From CSV' &&
+      missing.isError && missing.data.code === 'VALIDATION_ERROR' &&
+      both.isError && both.data.code === 'INVALID_ARGUMENTS' && neither.isError && neither.data.code === 'INVALID_ARGUMENTS',
+      `${fromCsv.data.message} / ${missing.data.message} / ${both.data.code} / ${neither.data.code}`);
+  } catch (error) {
+    addResult('Backup files', false, error.message);
+  } finally {
+    await fileServer.cleanup();
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Board export working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testBoardExport()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+
+import { parseYaml } from '../../build/yaml.js';
+import { parseCsv } from '../../build/csv.js';
+import { parseBoardDocument, planBoardImport, detectFormat } from '../../build/board-import.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: board import
+ *
+ * Checks the YAML and CSV parsers and the import planner (relative
+ * positions, area sizing, creation order), then imports documents into the
+ * fake Mural API with import-board.
+ */
+export async function testBoardImport() {
+  console.log('🧪 Testing: board import');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const scaffold = [
+    '# Retro scaffold',
+    'items:',
+    '  - type: area',
+    '    ref: went-well',
+    '    title: "Went well"',
+    '    x: 0',
+    '    y: 0',
+    '    children:',
+    '      - {type: sticky, ref: first, text: Shipped on time, x: 40, y: 80}',
+    '      - type: sticky',
+    '        ref: second',
+    '        text: |',
+    '          Pairing',
+    '          sessions',
+    '        rightOf: first',
+    '  - type: area',
+    '    ref: improve',
+    '    title: To improve',
+    '    rightOf: went-well',
+    '    gap: 60',
+    '    width: 400',
+    '    height: 300',
+    '  - type: title',
+    '    text: Sprint 12 retro',
+    '    above: went-well',
+    '  - type: arrow',
+    '    from: first',
+    '    to: improve',
+    '    color: "#333333"'
+  ].join('\n');
+
+  // Test 1: Parsers
+  console.log('\n📄 Test 1: Parsers');
+  try {
+    const parsed = parseYaml('a: 1\nlist:\n  - x\n  - {y: "two", z: [3, true]}\ntext: >-\n  folded\n  line # not a comment\nq: \'it\'\'s\' # comment\n');
+    addResult('YAML mappings, sequences, flow collections and scalars',
+      JSON.stringify(parsed) === JSON.stringify({ a: 1, list: ['x', { y: 'two', z: [3, true] }], text: 'folded line # not a comment', q: "it's" }),
+      JSON.stringify(parsed));
+
+    let yamlError = '';
+    try {
+      parseYaml('a: 1\n  b: 2');
+    } catch (error) {
+      yamlError = error.message;
+    }
+    addResult('YAML errors name the line', yamlError.includes('line 2'), yamlError);
+
+    const rows = parseCsv('text,area\r\n"Hello, world",A\n"two\nlines ""quoted""",B\n\n');
+    addResult('CSV quoting, line breaks and blank lines',
+      JSON.stringify(rows) === JSON.stringify([['text', 'area'], ['Hello, world', 'A'], ['two\nlines "quoted"', 'B']]), JSON.stringify(rows));
+
+    addResult('Formats are detected from the content',
+      detectFormat('{"items": []}') === 'json' && detectFormat('text,area\nA,B') === 'csv' && detectFormat(scaffold) === 'yaml');
+  } catch (error) {
+    addResult('Parsers', false, error.message);
+  }
+
+  // Test 2: Planning
+  console.log('\n📐 Test 2: Planning');
+  try {
+    const plan = planBoardImport(parseBoardDocument(scaffold));
+    const byKey = Object.fromEntries(plan.widgets.map(widget => [widget.key, widget]));
+    addResult('Areas come first and arrows last',
+      plan.widgets.map(widget => widget.widgetType).join() === 'area,area,title,sticky-note,sticky-note,arrow',
+      plan.widgets.map(widget => widget.widgetType).join());
+    addResult('Positions are relative to parents and neighbours',
+      byKey.first.bounds.x === 40 && byKey.first.bounds.y === 80 && byKey.second.bounds.x === 40 + 138 + 20 && byKey.second.bounds.y === 80,
+      JSON.stringify([byKey.first.bounds, byKey.second.bounds]));
+    addResult('Areas without a size fit their children',
+      byKey['went-well'].bounds.width === 40 + 138 + 20 + 138 + 40 && byKey['went-well'].bounds.height === 80 + 138 + 40 &&
+      byKey.improve.bounds.x === byKey['went-well'].bounds.width + 60,
+      JSON.stringify(byKey['went-well'].bounds));
+    addResult('Items can be placed above others',
+      byKey['items[2]'].bounds.y === -20 - 60 && byKey['items[2]'].request.text === 'Sprint 12 retro', JSON.stringify(byKey['items[2]'].bounds));
+
+    const failures = [
+      ['items:\n  - {type: sticky, text: A, rightOf: nowhere}', 'unknown ref'],
+      ['items:\n  - {type: sticky, ref: a, text: A, rightOf: b}\n  - {type: sticky, ref: b, text: B, below: a}', 'Circular'],
+      ['items:\n  - {type: area, ref: a, in: b, x: 0, y: 0}\n  - {type: area, ref: b, in: a, x: 0, y: 0}', 'Circular nesting'],
+      ['items:\n  - {type: sticky, text: A}', 'needs x and y'],
+      ['items:\n  - {type: sticky, text: A, x: 0, y: 0, colour: red}', 'Invalid board document']
+    ].map(([document, expected]) => {
+      try {
+        planBoardImport(parseBoardDocument(document));
+        return `no error for ${expected}`;
+      } catch (error) {
+        return error.code === 'VALIDATION_ERROR' && error.message.includes(expected) ? '' : error.message;
+      }
+    }).filter(Boolean);
+    addResult('Bad documents are rejected with validation errors', failures.length === 0, failures.join(' | '));
+
+    const csv = parseBoardDocument('text,area,color\nIdea 1,Now,#FFEB3B\nIdea 2,Now,\nIdea 3,Later,\nLoose,,');
+    const areas = csv.items.filter(item => item.type === 'area');
+    addResult('CSV rows are grouped into areas by their area column',
+      areas.map(area => `${area.title}:${area.children.length}`).join() === 'Now:2,Later:1' &&
+      csv.items[0].text === 'Loose' && areas[1].rightOf === areas[0].ref && areas[0].children[0].color === '#FFEB3B',
+      JSON.stringify(csv.items));
+  } catch (error) {
+    addResult('Planning', false, error.message);
+  }
+
+  // Test 3: Tools against the fake API
+  console.log('\n🔌 Test 3: Tool calls');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    server.addWidget(mural.id, { id: 'existing', text: 'Already here', x: 0, y: 0 });
+
+    const client = await server.createClient();
+    const registry = new ToolRegistry(allTools);
+    const call = async (name, args) => {
+      const result = await registry.call(name, args, { client });
+      return { isError: result.isError, data: JSON.parse(result.content[0].text) };
+    };
+
+    const preview = await call('import-board', { muralId: mural.id, document: scaffold, dryRun: true, origin: { x: 1000, y: 500 } });
+    addResult('Dry run plans without creating',
+      !preview.isError && preview.data.widgets.length === 6 && preview.data.bounds.x === 1000 && server.getWidgets(mural.id).length === 1,
+      JSON.stringify(preview.data.bounds));
+
+    const imported = await call('import-board', { muralId: mural.id, document: scaffold, placement: 'auto' });
+    const posts = server.requests.filter(request => request.method === 'POST').map(request => request.path.split('/').pop());
+    const arrow = server.getWidgets(mural.id).find(widget => widget.type === 'arrow');
+    const existing = server.getWidgets(mural.id).find(widget => widget.id === 'existing');
+    const importedWidgets = server.getWidgets(mural.id).filter(widget => widget.id !== 'existing' && widget.type !== 'arrow');
+    addResult('Widgets are created in dependency order',
+      !imported.isError && posts.join() === 'area,title,sticky-note,arrow', `${posts.join()} ${JSON.stringify(imported.data.message)}`);
+    addResult('Arrow refs become real widget IDs',
+      arrow?.startWidget === imported.data.refs?.first && arrow?.endWidget === imported.data.refs?.improve, JSON.stringify(arrow));
+    addResult('Auto placement keeps the board clear of existing widgets',
+      importedWidgets.every(widget => widget.x >= existing.x + existing.width || widget.y >= existing.y + existing.height ||
+        widget.x + widget.width <= existing.x || widget.y + widget.height <= existing.y),
+      JSON.stringify(imported.data.bounds));
+
+    const undone = await call('undo-operation', { muralId: mural.id, operationId: imported.data.operationId });
+    addResult('The whole import is undone as one operation',
+      !undone.isError && undone.data.results.length === 6 && server.getWidgets(mural.id).length === 1, JSON.stringify(undone.data.message));
+
+    server.failNext({ status: 400, method: 'POST', path: '/widgets/arrow' });
+    const failed = await call('import-board', { muralId: mural.id, document: scaffold });
+    addResult('A failed import removes what it created',
+      failed.isError && failed.data.code === 'VALIDATION_ERROR' && server.getWidgets(mural.id).length === 1,
+      `${server.getWidgets(mural.id).length} widgets left`);
+  } catch (error) {
+    addResult('Tool calls', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Board import working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testBoardImport()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
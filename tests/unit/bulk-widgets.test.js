@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+
+import { settleWithConcurrency } from '../../build/concurrency.js';
+import { plannedChanges } from '../../build/tools/bulk-tools.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: bulk widget operations
+ *
+ * Checks the concurrency helper and dry-run diffs, then runs delete-widgets
+ * and update-widgets against the fake Mural API, including partial failures
+ * and a tight rate limit.
+ */
+export async function testBulkWidgets() {
+  console.log('🧪 Testing: bulk widget operations');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  // Test 1: Bounded concurrency
+  console.log('\n🚦 Test 1: Bounded concurrency');
+  try {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await settleWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async value => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5 * (8 - value)));
+      inFlight--;
+      if (value === 4) throw new Error('four');
+      return value * 10;
+    });
+    addResult('Never more than the limit in flight', peak === 3, `peak ${peak}`);
+    addResult('Results keep input order', results.map(result => result.value ?? 'x').join(',') === '10,20,30,x,50,60,70');
+    addResult('Failures are captured per item', results[3].status === 'rejected' && results[3].reason.message === 'four');
+  } catch (error) {
+    addResult('Bounded concurrency', false, error.message);
+  }
+
+  // Test 2: Dry-run diffs
+  console.log('\n🔍 Test 2: Dry-run diffs');
+  try {
+    const changes = plannedChanges(
+      { id: 'w', type: 'sticky note', text: 'Same', x: 0, style: { backgroundColor: '#FFF' } },
+      { text: 'Same', x: 100, style: { backgroundColor: '#F00', textColor: '#000' } }
+    );
+    addResult('Only changed fields are listed', JSON.stringify(Object.keys(changes)) === JSON.stringify(['x', 'style.backgroundColor', 'style.textColor']),
+      JSON.stringify(changes));
+    addResult('Changes show old and new values', changes.x.from === 0 && changes.x.to === 100);
+  } catch (error) {
+    addResult('Dry-run diffs', false, error.message);
+  }
+
+  // Test 3: Tools against the fake API
+  console.log('\n🔌 Test 3: Tool calls');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    const notes = Array.from({ length: 12 }, (_, i) => server.addWidget(mural.id, { id: `note-${i}`, text: `Note ${i}` }));
+    server.addWidget(mural.id, { id: 'grid', type: 'table', rows: 1, columns: 1, data: [['x']] });
+
+    // Tight local rate limit so concurrent requests have to wait for tokens
+    const client = await server.createClient({ rateLimitConfig: { userRequestsPerSecond: 4, persistState: false } });
+    const registry = new ToolRegistry(allTools);
+    const call = async (name, args) => {
+      const result = await registry.call(name, args, { client });
+      return { isError: result.isError, data: JSON.parse(result.content[0].text) };
+    };
+
+    const preview = await call('delete-widgets', { muralId: mural.id, widgetIds: ['note-0', 'missing'], dryRun: true });
+    addResult('Dry-run delete changes nothing',
+      preview.data.results[0].status === 'would-delete' && preview.data.failed === 1 && server.getWidgets(mural.id).length === 13,
+      JSON.stringify(preview.data));
+
+    const deleted = await call('delete-widgets', { muralId: mural.id, widgetIds: [...notes.slice(0, 8).map(note => note.id), 'missing'], concurrency: 5 });
+    const missing = deleted.data.results?.find(result => result.widgetId === 'missing');
+    addResult('Bulk delete reports partial failure',
+      !deleted.isError && deleted.data.succeeded === 8 && deleted.data.failed === 1 && missing?.error?.code === 'NOT_FOUND',
+      JSON.stringify(deleted.data));
+    addResult('Concurrent requests wait for rate-limit tokens instead of failing', server.getWidgets(mural.id).length === 5);
+
+    const recolor = { style: { backgroundColor: '#FF0000' } };
+    const dryUpdate = await call('update-widgets', {
+      muralId: mural.id,
+      updates: [{ widgetId: 'note-8', updates: recolor }, { widgetId: 'grid', updates: recolor }],
+      dryRun: true
+    });
+    addResult('Dry-run update lists changes and typed errors',
+      dryUpdate.data.results[0].changes?.['style.backgroundColor']?.to === '#FF0000' &&
+      dryUpdate.data.results[1].error?.code === 'VALIDATION_ERROR' &&
+      !server.getWidgets(mural.id).find(widget => widget.id === 'note-8').style);
+
+    const updated = await call('update-widgets', {
+      muralId: mural.id,
+      updates: [...notes.slice(8).map(note => ({ widgetId: note.id, updates: recolor })), { widgetId: 'note-0', updates: recolor }]
+    });
+    addResult('Bulk update applies to every widget it can',
+      updated.data.succeeded === 4 && updated.data.failed === 1 &&
+      server.getWidgets(mural.id).filter(widget => widget.style?.backgroundColor === '#FF0000').length === 4,
+      JSON.stringify(updated.data.message));
+  } catch (error) {
+    addResult('Tool calls', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Bulk widget operations working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testBulkWidgets()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
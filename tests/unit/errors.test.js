@@ -0,0 +1,158 @@
+#!/usr/bin/env node
+
+import {
+  MuralApiError,
+  MuralAuthError,
+  MuralScopeError,
+  MuralNotFoundError,
+  MuralValidationError,
+  MuralRateLimitError,
+  createApiError
+} from '../../build/errors.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+
+/**
+ * Unit Test: Error Hierarchy
+ *
+ * Checks that HTTP failures map onto the typed errors and that the tool
+ * registry serializes them into structured tool errors with a stable code.
+ */
+export async function testErrors() {
+  console.log('🧪 Testing: error hierarchy');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  function parseResult(result) {
+    return JSON.parse(result.content[0].text);
+  }
+
+  // Test 1: Status codes map onto error classes
+  console.log('\n📋 Test 1: HTTP status mapping');
+  try {
+    const cases = [
+      [400, MuralValidationError, 'VALIDATION_ERROR'],
+      [401, MuralAuthError, 'AUTH_ERROR'],
+      [403, MuralScopeError, 'INSUFFICIENT_SCOPE'],
+      [404, MuralNotFoundError, 'NOT_FOUND'],
+      [422, MuralValidationError, 'VALIDATION_ERROR'],
+      [429, MuralRateLimitError, 'RATE_LIMITED'],
+      [503, MuralApiError, 'SERVER_ERROR'],
+      [409, MuralApiError, 'API_ERROR']
+    ];
+
+    for (const [status, ErrorClass, code] of cases) {
+      const error = createApiError(status, `HTTP ${status}`, { endpoint: '/murals/m1', requestId: 'req-1' });
+      addResult(`${status} → ${code}`, error instanceof ErrorClass && error.code === code && error.status === status,
+        `Got ${error.name} (${error.code})`);
+    }
+
+    const notFound = createApiError(404, 'gone', { endpoint: '/murals/m1', requestId: 'req-1' });
+    addResult('Subclasses are MuralApiErrors', notFound instanceof MuralApiError && notFound instanceof Error);
+    addResult('Endpoint and request id kept', notFound.endpoint === '/murals/m1' && notFound.requestId === 'req-1');
+    addResult('Only server errors are retryable',
+      createApiError(503, 'x').retryable && !createApiError(404, 'x').retryable && !createApiError(429, 'x').retryable);
+  } catch (error) {
+    addResult('HTTP status mapping', false, error.message);
+  }
+
+  // Test 2: Scope errors carry the scope details
+  console.log('\n🔒 Test 2: Scope errors');
+  try {
+    const error = MuralScopeError.fromScopeCheck({
+      hasScope: false,
+      requiredScope: 'rooms:write',
+      availableScopes: ['rooms:read'],
+      message: 'User missing required scope: rooms:write'
+    });
+    const json = error.toJSON();
+    addResult('Scope error message names the scope', error.message.includes("'rooms:write'"), error.message);
+    addResult('Scope error serializes required scope', json.requiredScope === 'rooms:write' && json.code === 'INSUFFICIENT_SCOPE');
+  } catch (error) {
+    addResult('Scope errors', false, error.message);
+  }
+
+  // Test 3: The registry turns errors into structured tool results
+  console.log('\n📝 Test 3: Structured tool errors');
+  try {
+    const registry = new ToolRegistry(allTools);
+    const client = {
+      async checkScope(scope) {
+        const hasScope = scope === 'murals:read';
+        return { hasScope, requiredScope: scope, availableScopes: ['murals:read'], message: `checked ${scope}` };
+      },
+      async getMuralWidget(muralId, widgetId) {
+        throw createApiError(404, `Mural API request failed: HTTP 404: Not Found`, {
+          endpoint: `/murals/${muralId}/widgets/${widgetId}`,
+          requestId: 'req-404'
+        });
+      }
+    };
+
+    const notFound = parseResult(await registry.call('get-mural-widget', { muralId: 'm1', widgetId: 'w1' }, { client }));
+    addResult('API errors keep their code', notFound.code === 'NOT_FOUND' && notFound.status === 404, JSON.stringify(notFound));
+    addResult('API errors keep the request id', notFound.requestId === 'req-404');
+    addResult('Tool name still reported', notFound.tool === 'get-mural-widget' && notFound.error === true);
+
+    const scope = parseResult(await registry.call('delete-widget', { muralId: 'm1', widgetId: 'w1' }, { client }));
+    addResult('Registry scope check uses INSUFFICIENT_SCOPE', scope.code === 'INSUFFICIENT_SCOPE' && scope.requiredScope === 'murals:write',
+      JSON.stringify(scope));
+
+    const invalid = parseResult(await registry.call('get-mural-widget', { muralId: 'm1' }, { client }));
+    addResult('Bad arguments use INVALID_ARGUMENTS', invalid.code === 'INVALID_ARGUMENTS' && invalid.issues?.[0]?.path === 'widgetId',
+      JSON.stringify(invalid));
+
+    const unknown = parseResult(await registry.call('does-not-exist', {}, { client }));
+    addResult('Unknown tools use UNKNOWN_TOOL', unknown.code === 'UNKNOWN_TOOL');
+  } catch (error) {
+    addResult('Structured tool errors', false, error.message);
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Error hierarchy working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testErrors()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
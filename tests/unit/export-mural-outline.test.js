@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+
+import { renderMuralOutline } from '../../build/outline.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: export-mural-outline
+ *
+ * Checks grouping by area, reading order and Markdown rendering of the
+ * outline, then runs the tool against the fake Mural API.
+ */
+export async function testExportMuralOutline() {
+  console.log('🧪 Testing: export-mural-outline');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const retroWidgets = [
+    { id: 'area-1', type: 'area', title: 'What went well', x: 0, y: 0, width: 600, height: 400 },
+    { id: 'area-2', type: 'area', title: 'To improve', x: 700, y: 0, width: 600, height: 400 },
+    { id: 'note-1', type: 'sticky note', text: 'Fast deploys', x: 200, y: 110, width: 100, height: 100 },
+    { id: 'note-2', type: 'sticky note', text: 'Good\nteam spirit', x: 20, y: 100, width: 100, height: 100 },
+    { id: 'note-3', type: 'sticky note', text: 'Flaky CI', x: 720, y: 100, width: 100, height: 100 },
+    { id: 'title-1', type: 'title', text: 'Sprint 12', x: 0, y: -200, width: 400, height: 60 },
+    { id: 'table-1', type: 'table', data: [['Owner', 'Action'], ['Ana', 'Fix | CI']], x: 0, y: 500, width: 300, height: 100 },
+    { id: 'arrow-1', type: 'arrow', startWidget: 'note-3', endWidget: 'note-1', x: 0, y: 0 }
+  ];
+
+  // Test 1: Structure of the rendered outline
+  console.log('\n📋 Test 1: Outline rendering');
+  try {
+    const markdown = renderMuralOutline(retroWidgets, { title: 'Retro', includeConnections: true });
+    const lines = markdown.split('\n');
+
+    addResult('Mural title is the H1', lines[0] === '# Retro', lines[0]);
+    addResult('Titles become headings', lines.includes('## Sprint 12'));
+    addResult('Areas become sections in left-to-right order',
+      lines.indexOf('## What went well') > -1 && lines.indexOf('## What went well') < lines.indexOf('## To improve'));
+    addResult('Notes are grouped under their area',
+      lines.indexOf('- Flaky CI') > lines.indexOf('## To improve') && lines.indexOf('- Fast deploys') < lines.indexOf('## To improve'));
+    addResult('Notes in a row read left to right',
+      lines.indexOf('- Good team spirit') < lines.indexOf('- Fast deploys'), markdown);
+    addResult('Tables render as Markdown tables',
+      lines.includes('| Owner | Action |') && lines.includes('| --- | --- |') && lines.includes('| Ana | Fix \\| CI |'), markdown);
+    addResult('Connections are listed on request', lines.includes('- Flaky CI → Fast deploys'), markdown);
+    addResult('Arrows are not rendered as content', !markdown.includes('arrow-1'));
+
+    const withoutConnections = renderMuralOutline(retroWidgets);
+    addResult('Connections are omitted by default', !withoutConnections.includes('## Connections'));
+  } catch (error) {
+    addResult('Outline rendering', false, error.message);
+  }
+
+  // Test 2: Nested areas
+  console.log('\n🧩 Test 2: Nested areas');
+  try {
+    const markdown = renderMuralOutline([
+      { id: 'outer', type: 'area', title: 'Outer', x: 0, y: 0, width: 1000, height: 1000 },
+      { id: 'inner', type: 'area', title: 'Inner', x: 100, y: 100, width: 300, height: 300 },
+      { id: 'note', type: 'sticky note', text: 'Deep', x: 150, y: 150, width: 50, height: 50 }
+    ]);
+    const lines = markdown.split('\n');
+    addResult('Nested area is a subsection', lines.includes('## Outer') && lines.includes('### Inner'), markdown);
+    addResult('Note goes to the smallest area', lines.indexOf('- Deep') > lines.indexOf('### Inner'), markdown);
+  } catch (error) {
+    addResult('Nested areas', false, error.message);
+  }
+
+  // Test 3: The tool against the fake API
+  console.log('\n🔌 Test 3: Tool call');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id, title: 'Workshop board' });
+    server.addWidget(mural.id, { type: 'sticky note', text: 'Hello', x: 0, y: 0 });
+
+    const client = await server.createClient();
+    const result = await new ToolRegistry(allTools).call('export-mural-outline', { muralId: mural.id }, { client });
+    const text = result.content[0].text;
+    addResult('Tool returns Markdown text', !result.isError && text.startsWith('# Workshop board') && text.includes('- Hello'), text);
+  } catch (error) {
+    addResult('Tool call', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Outline export working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testExportMuralOutline()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
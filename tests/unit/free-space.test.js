@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+
+import { findFreeSpace, FreeSpace } from '../../build/layout.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: find-free-space
+ *
+ * Checks the free-space search on its own, then the find-free-space tool and
+ * placement "auto" on the create tools through the fake Mural API.
+ */
+export async function testFreeSpace() {
+  console.log('🧪 Testing: find-free-space');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const overlaps = (a, b) => a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+  const anyOverlap = rects => rects.some((a, i) => rects.slice(i + 1).some(b => overlaps(a, b)));
+  const content = { x: 0, y: 0, width: 300, height: 300 };
+
+  // Test 1: Free-space search
+  console.log('\n📏 Test 1: Free-space search');
+  try {
+    const empty = findFreeSpace([], { width: 100, height: 50 });
+    addResult('Empty board uses the origin', empty.x === 0 && empty.y === 0 && empty.width === 100);
+
+    const right = findFreeSpace([content], { width: 100, height: 100 });
+    addResult('Right of the content by default', right.x === 320 && right.y === 0, JSON.stringify(right));
+
+    const below = findFreeSpace([content], { width: 100, height: 100, direction: 'below' });
+    addResult('Below the content', below.x === 0 && below.y === 320, JSON.stringify(below));
+
+    const anchor = { x: 0, y: 0, width: 100, height: 100 };
+    const neighbour = { x: 120, y: 0, width: 100, height: 100 };
+    const near = findFreeSpace([anchor, neighbour], { width: 100, height: 100, near: anchor });
+    addResult('Near a widget whose side is taken', !anyOverlap([anchor, neighbour, near]) && Math.hypot(near.x, near.y) < 300, JSON.stringify(near));
+
+    const space = new FreeSpace([content]);
+    space.reserve({ x: 400, y: 0, width: 100, height: 100 });
+    addResult('Reserved space is no longer free', !space.isFree({ x: 450, y: 50, width: 10, height: 10 }) && space.isFree({ x: 600, y: 0, width: 10, height: 10 }));
+  } catch (error) {
+    addResult('Free-space search', false, error.message);
+  }
+
+  // Test 2: Tools against the fake API
+  console.log('\n🔌 Test 2: Tool calls');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    server.addWidget(mural.id, { id: 'existing', ...content });
+
+    const client = await server.createClient();
+    const registry = new ToolRegistry(allTools);
+
+    const found = await registry.call('find-free-space', { muralId: mural.id, width: 200, height: 100, nearWidgetId: 'existing', direction: 'below' }, { client });
+    const space = JSON.parse(found.content[0].text);
+    addResult('find-free-space returns a rectangle', !found.isError && space.x === 0 && space.y === 320, found.content[0].text);
+
+    const missing = await registry.call('find-free-space', { muralId: mural.id, width: 10, height: 10, nearWidgetId: 'nope' }, { client });
+    addResult('Unknown reference widget is NOT_FOUND', missing.isError && JSON.parse(missing.content[0].text).code === 'NOT_FOUND');
+
+    const auto = await registry.call('create-sticky-notes', {
+      muralId: mural.id,
+      placement: 'auto',
+      stickyNotes: [{ text: 'No position' }, { text: 'Wants the occupied spot', x: 50, y: 50 }, { text: 'Another' }]
+    }, { client });
+    const widgets = server.getWidgets(mural.id);
+    addResult('placement "auto" keeps new widgets clear of everything',
+      !auto.isError && widgets.length === 4 && !anyOverlap(widgets), auto.content[0].text);
+
+    const textBox = await registry.call('create-text-boxes', { muralId: mural.id, placement: 'auto', textBoxes: [{ text: 'Sized by default' }] }, { client });
+    const created = JSON.parse(textBox.content[0].text).widgets?.[0];
+    addResult('Auto-placed widgets get a size', created?.width === 200 && created?.height === 60 && !anyOverlap(server.getWidgets(mural.id)));
+
+    const manual = await registry.call('create-sticky-notes', { muralId: mural.id, stickyNotes: [{ text: 'Where?' }] }, { client });
+    addResult('Manual placement still requires x and y', manual.isError && JSON.parse(manual.content[0].text).code === 'INVALID_ARGUMENTS');
+  } catch (error) {
+    addResult('Tool calls', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Free-space placement working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testFreeSpace()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
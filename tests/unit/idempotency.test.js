@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { IdempotencyStore, widgetFingerprint, fingerprintFields } from '../../build/idempotency.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: idempotent widget creation
+ *
+ * Creates widgets with idempotency keys against the fake Mural API: repeated
+ * calls, conflicting keys, lost responses and keys left pending by an earlier
+ * call must never produce duplicates, also for imports, layouts and undo.
+ */
+export async function testIdempotency() {
+  console.log('🧪 Testing: idempotent widget creation');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  // Test 1: Fingerprints
+  console.log('\n🔑 Test 1: Fingerprints');
+  try {
+    const note = { x: 10.2, y: 20, text: 'Hello', shape: 'rectangle' };
+    addResult('Fingerprints ignore fields the API does not echo', widgetFingerprint('sticky-note', note) === widgetFingerprint('sticky-note', { ...note, shape: 'circle' }));
+    addResult('Content fingerprints ignore position',
+      widgetFingerprint('sticky-note', note, fingerprintFields(note, false)) === widgetFingerprint('sticky-note', { ...note, x: 500 }, fingerprintFields(note, false)));
+  } catch (error) {
+    addResult('Fingerprints', false, error.message);
+  }
+
+  // Test 2: Key file
+  console.log('\n💾 Test 2: Key file');
+  const fileDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mural-idempotency-file-'));
+  try {
+    const filePath = path.join(fileDir, 'idempotency.json');
+    const store = new IdempotencyStore(filePath);
+    await Promise.all(Array.from({ length: 20 }, (_, i) =>
+      store.markPending('m1', [{ key: `key-${i}`, fingerprint: `f${i}` }])));
+    const reloaded = new IdempotencyStore(filePath);
+    const saved = await Promise.all(Array.from({ length: 20 }, (_, i) => reloaded.get('m1', `key-${i}`)));
+    const leftovers = (await fs.readdir(fileDir)).filter(file => file !== 'idempotency.json');
+    addResult('Concurrent key updates are all saved, through a temp file',
+      saved.every(Boolean) && leftovers.length === 0, `${saved.filter(Boolean).length} saved, ${leftovers.join()}`);
+
+    await fs.writeFile(filePath, '{"m1:key-1": {"status": "pen');
+    const fresh = await new IdempotencyStore(filePath).get('m1', 'key-1');
+    const backups = (await fs.readdir(fileDir)).filter(file => file.startsWith('idempotency.json.corrupt-'));
+    addResult('A key file that does not parse is backed up, not discarded', fresh === undefined && backups.length === 1, backups.join());
+  } catch (error) {
+    addResult('Key file', false, error.message);
+  } finally {
+    await fs.rm(fileDir, { recursive: true, force: true });
+  }
+
+  // Test 3: Tools against the fake API
+  console.log('\n🔌 Test 3: Keyed creation');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    const client = await server.createClient();
+    const registry = new ToolRegistry(allTools);
+    const create = async (stickyNotes, args = {}) => {
+      const result = await registry.call('create-sticky-notes', { muralId: mural.id, stickyNotes, ...args }, { client });
+      return { isError: result.isError, data: JSON.parse(result.content[0].text) };
+    };
+    const countText = text => server.getWidgets(mural.id).filter(widget => widget.text === text).length;
+
+    const first = await create([{ x: 0, y: 0, text: 'Alpha', idempotencyKey: 'alpha' }, { x: 200, y: 0, text: 'Beta', idempotencyKey: 'beta' }]);
+    const again = await create([{ x: 0, y: 0, text: 'Alpha', idempotencyKey: 'alpha' }, { x: 200, y: 0, text: 'Beta', idempotencyKey: 'beta' }]);
+    addResult('Repeating a call returns the original widgets',
+      !again.isError && again.data.widgets.map(w => w.id).join() === first.data.widgets.map(w => w.id).join() && countText('Alpha') === 1,
+      JSON.stringify(again.data));
+
+    const auto = await create([{ text: 'Alpha', idempotencyKey: 'alpha' }], { placement: 'auto' });
+    addResult('Keys survive automatic placement moving the widget', auto.data.widgets?.[0]?.id === first.data.widgets[0].id);
+
+    const conflict = await create([{ x: 0, y: 0, text: 'Gamma', idempotencyKey: 'alpha' }]);
+    addResult('Reusing a key for different content is rejected', conflict.isError && conflict.data.code === 'VALIDATION_ERROR');
+
+    server.failNext({ status: 502, method: 'POST', path: '/widgets/sticky-note', afterHandling: true });
+    const retried = await create([{ x: 0, y: 400, text: 'Lost response', idempotencyKey: 'lost' }]);
+    addResult('A retry after a lost response adopts the widget instead of duplicating it',
+      !retried.isError && countText('Lost response') === 1 &&
+      retried.data.widgets[0].id === server.getWidgets(mural.id).find(widget => widget.text === 'Lost response').id,
+      JSON.stringify(retried.data));
+
+    server.failNext({ status: 502, method: 'POST', path: '/widgets/sticky-note', afterHandling: true });
+    const unkeyed = await create([{ x: 0, y: 600, text: 'Unkeyed' }]);
+    addResult('Without a key the same failure is reported instead of resent',
+      unkeyed.isError && countText('Unkeyed') === 1 && server.requests.filter(r => r.body?.[0]?.text === 'Unkeyed').length === 1,
+      JSON.stringify(unkeyed.data));
+
+    const beta = first.data.widgets[1].id;
+    server.widgetsOf(mural.id).delete(beta);
+    const recreated = await create([{ x: 200, y: 0, text: 'Beta', idempotencyKey: 'beta' }]);
+    addResult('A key whose widget was deleted creates it again', recreated.data.widgets?.[0]?.id !== beta && countText('Beta') === 1);
+  } catch (error) {
+    addResult('Keyed creation', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Test 4: Keys left pending by an earlier call
+  console.log('\n⏳ Test 4: Pending keys');
+  const pendingServer = new FakeMuralServer();
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mural-mcp-idempotency-'));
+  try {
+    const workspace = pendingServer.addWorkspace();
+    const room = pendingServer.addRoom({ workspaceId: workspace.id });
+    const mural = pendingServer.addMural({ roomId: room.id });
+    const filePath = path.join(dir, 'idempotency.json');
+
+    // An earlier call sent the request, then timed out before learning the widget ID
+    const request = { x: 50, y: 50, text: 'Timed out', shape: 'rectangle' };
+    await new IdempotencyStore(filePath).markPending(mural.id, [{
+      key: 'slow',
+      fingerprint: widgetFingerprint('sticky-note', request, fingerprintFields(request, false))
+    }]);
+    const created = pendingServer.addWidget(mural.id, { ...request, type: 'sticky note', createdOn: Date.now() });
+
+    const client = await pendingServer.createClient({ idempotencyFilePath: filePath });
+    const widgets = await client.createStickyNotes(mural.id, [{ ...request, idempotencyKey: 'slow' }]);
+    addResult('A pending key adopts the widget the earlier call created',
+      widgets[0]?.id === created.id && pendingServer.getWidgets(mural.id).length === 1);
+
+    const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    addResult('The key is recorded as created', stored[`${mural.id}:slow`]?.status === 'created' && stored[`${mural.id}:slow`].widgetId === created.id);
+  } catch (error) {
+    addResult('Pending keys', false, error.message);
+  } finally {
+    await pendingServer.cleanup();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  // Test 5: Operations that create through several requests
+  console.log('\n🧱 Test 5: Generated keys');
+  const keyServer = new FakeMuralServer();
+  try {
+    const workspace = keyServer.addWorkspace();
+    const room = keyServer.addRoom({ workspaceId: workspace.id });
+    const mural = keyServer.addMural({ roomId: room.id });
+    const client = await keyServer.createClient();
+    const registry = new ToolRegistry(allTools);
+    const call = async (name, args) => {
+      const result = await registry.call(name, args, { client });
+      return { isError: result.isError, data: JSON.parse(result.content[0].text) };
+    };
+    const countText = text => keyServer.getWidgets(mural.id).filter(widget => widget.text === text).length;
+
+    keyServer.failNext({ status: 502, method: 'POST', path: '/widgets/sticky-note', afterHandling: true });
+    const imported = await call('import-board', { muralId: mural.id, document: JSON.stringify([{ type: 'sticky', text: 'Imported', x: 0, y: 0 }]) });
+    addResult('import-board retries a lost response without duplicating widgets',
+      !imported.isError && countText('Imported') === 1, JSON.stringify(imported.data));
+
+    keyServer.failNext({ status: 502, method: 'POST', path: '/widgets/sticky-note', afterHandling: true });
+    const laidOut = await call('create-sticky-note-layout', { muralId: mural.id, notes: [{ text: 'Laid out' }], layout: 'grid', anchor: { type: 'point', x: 0, y: 1000 } });
+    addResult('Layouts retry a lost response without duplicating notes',
+      !laidOut.isError && countText('Laid out') === 1, JSON.stringify(laidOut.data));
+
+    const [note] = keyServer.getWidgets(mural.id).filter(widget => widget.text === 'Imported');
+    await call('delete-widget', { muralId: mural.id, widgetId: note.id });
+    keyServer.failNext({ status: 502, method: 'POST', path: '/widgets/sticky-note', afterHandling: true });
+    const undone = await call('undo-operation', { muralId: mural.id });
+    addResult('Undoing a delete retries a lost response without duplicating widgets',
+      !undone.isError && countText('Imported') === 1, JSON.stringify(undone.data));
+  } catch (error) {
+    addResult('Generated keys', false, error.message);
+  } finally {
+    await keyServer.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Idempotent creation working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testIdempotency()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: MuralClient against the fake Mural API
+ *
+ * Runs tools end to end through the registry and a real MuralClient whose
+ * transport is the in-memory fake server, so no credentials or network are needed.
+ */
+export async function testMuralClient() {
+  console.log('🧪 Testing: MuralClient with fake Mural API');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const server = new FakeMuralServer({ pageSize: 2 });
+  const registry = new ToolRegistry(allTools);
+  const workspace = server.addWorkspace({ name: 'Design' });
+  const room = server.addRoom({ workspaceId: workspace.id, name: 'Workshops' });
+
+  async function call(client, name, args) {
+    const result = await registry.call(name, args, { client });
+    return { isError: result.isError === true, data: JSON.parse(result.content[0].text) };
+  }
+
+  try {
+    const client = await server.createClient();
+
+    // Test 1: Read tools see seeded data
+    console.log('\n📋 Test 1: Listing seeded data');
+    try {
+      const workspaces = await call(client, 'list-workspaces', {});
+      addResult('list-workspaces unwraps value', workspaces.data.count === 1 && workspaces.data.workspaces[0].name === 'Design',
+        JSON.stringify(workspaces.data));
+
+      const rooms = await call(client, 'list-workspace-rooms', { workspaceId: workspace.id });
+      addResult('list-workspace-rooms finds the room', rooms.data.rooms?.[0]?.id === room.id, JSON.stringify(rooms.data));
+
+      const single = await call(client, 'get-workspace', { workspaceId: workspace.id });
+      addResult('get-workspace unwraps value', single.data.id === workspace.id, JSON.stringify(single.data));
+    } catch (error) {
+      addResult('Listing seeded data', false, error.message);
+    }
+
+    // Test 2: Create a mural and fill it with widgets
+    console.log('\n📝 Test 2: Mural and widget lifecycle');
+    let muralId;
+    try {
+      const created = await call(client, 'create-mural', { roomId: room.id, title: 'Retro' });
+      muralId = created.data.mural?.id;
+      addResult('create-mural returns the new mural', Boolean(muralId) && server.murals.has(muralId), JSON.stringify(created.data));
+
+      const notes = await call(client, 'create-sticky-notes', {
+        muralId,
+        stickyNotes: [1, 2, 3, 4, 5].map(index => ({ x: index * 200, y: 0, text: `Idea ${index}` }))
+      });
+      addResult('create-sticky-notes stores every note', notes.data.count === 5 && server.getWidgets(muralId).length === 5,
+        JSON.stringify(notes.data));
+
+      const firstPage = await call(client, 'get-mural-widgets', { muralId });
+      addResult('Single page honours the page size', firstPage.data.count === 2 && typeof firstPage.data.next === 'string',
+        JSON.stringify(firstPage.data));
+
+      const rest = await call(client, 'get-mural-widgets', { muralId, cursor: firstPage.data.next, fetchAll: true });
+      addResult('Cursor and fetchAll fetch the remainder', rest.data.count === 3 && rest.data.next === null, JSON.stringify(rest.data));
+
+      const widgetId = server.getWidgets(muralId)[0].id;
+      const updated = await call(client, 'update-widget', { muralId, widgetId, updates: { text: 'Changed' } });
+      addResult('update-widget patches the typed endpoint', !updated.isError && server.widgetsOf(muralId).get(widgetId).text === 'Changed',
+        JSON.stringify(updated.data));
+
+      const deleted = await call(client, 'delete-widget', { muralId, widgetId });
+      addResult('delete-widget handles empty responses', !deleted.isError && !server.widgetsOf(muralId).has(widgetId),
+        JSON.stringify(deleted.data));
+    } catch (error) {
+      addResult('Mural and widget lifecycle', false, error.message);
+    }
+
+    // Test 3: API failures surface as typed tool errors
+    console.log('\n🚫 Test 3: Error responses');
+    try {
+      const missing = await call(client, 'get-mural-widget', { muralId, widgetId: 'no-such-widget' });
+      addResult('404 becomes NOT_FOUND', missing.isError && missing.data.code === 'NOT_FOUND' && Boolean(missing.data.requestId),
+        JSON.stringify(missing.data));
+
+      server.failNext({ status: 429, retryAfter: 0, path: '/workspaces' });
+      const limited = await call(client, 'list-workspaces', {});
+      addResult('429 with Retry-After is retried', !limited.isError && limited.data.count === 1, JSON.stringify(limited.data));
+
+      server.failNext({ status: 503, path: '/workspaces' });
+      const flaky = await call(client, 'list-workspaces', {});
+      addResult('5xx is retried', !flaky.isError && flaky.data.count === 1, JSON.stringify(flaky.data));
+
+      server.failNext({ status: 400, path: '/workspaces' });
+      const before = server.requests.length;
+      const invalid = await call(client, 'list-workspaces', {});
+      addResult('4xx is not retried', invalid.isError && invalid.data.code === 'VALIDATION_ERROR' && server.requests.length === before + 1,
+        JSON.stringify(invalid.data));
+    } catch (error) {
+      addResult('Error responses', false, error.message);
+    }
+
+    // Test 4: Tokens and scopes
+    console.log('\n🔒 Test 4: Tokens and scopes');
+    try {
+      const readOnly = await server.createClient({ scopes: ['workspaces:read', 'murals:read'] });
+      const denied = await call(readOnly, 'create-room', { workspaceId: workspace.id, name: 'Nope' });
+      addResult('Missing scope is reported before any request', denied.data.code === 'INSUFFICIENT_SCOPE' && denied.data.requiredScope === 'rooms:write',
+        JSON.stringify(denied.data));
+
+      const expired = await server.createClient({ expired: true });
+      const refreshed = await call(expired, 'list-workspaces', {});
+      addResult('Expired tokens are refreshed through the OAuth endpoint', !refreshed.isError && refreshed.data.count === 1,
+        JSON.stringify(refreshed.data));
+    } catch (error) {
+      addResult('Tokens and scopes', false, error.message);
+    }
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 MuralClient working correctly against the fake API!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testMuralClient()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+
+import { diffWidgets, compareWidget } from '../../build/mural-diff.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: mural snapshots and diffs
+ *
+ * Checks the widget diff, then takes snapshots of a board on the fake Mural
+ * API with snapshot-mural and compares them with diff-mural.
+ */
+export async function testMuralDiff() {
+  console.log('🧪 Testing: mural snapshots and diffs');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  // Test 1: Widget diff
+  console.log('\n🔍 Test 1: Widget diff');
+  try {
+    const before = [
+      { id: 'a', type: 'sticky note', x: 0, y: 0, width: 100, height: 100, text: 'Alpha', style: { backgroundColor: '#FFF' } },
+      { id: 'b', type: 'sticky note', x: 200, y: 0, width: 100, height: 100, text: 'Beta' },
+      { id: 'c', type: 'sticky note', x: 400, y: 0, width: 100, height: 100, text: 'Gamma' }
+    ];
+    const after = [
+      { ...before[0], x: 50, text: 'Alpha 2', style: { backgroundColor: '#F00' } },
+      { ...before[1], x: 200.2, width: 150 },
+      { id: 'd', type: 'text box', x: 0, y: 300, text: 'Delta' }
+    ];
+    const diff = diffWidgets(before, after);
+    addResult('Added and removed widgets are found',
+      diff.added.map(widget => widget.id).join() === 'd' && diff.removed.map(widget => widget.id).join() === 'c');
+    const [first, second] = diff.changed;
+    addResult('Each change is classified',
+      first.kinds.join() === 'moved,restyled,text' && second.kinds.join() === 'resized', JSON.stringify(diff.changed.map(change => change.kinds)));
+    addResult('Changes carry old and new values',
+      first.moved.from.x === 0 && first.moved.to.x === 50 && first.restyled.backgroundColor.to === '#F00' && first.text.from === 'Alpha');
+    addResult('Sub-pixel moves and identical widgets are not changes',
+      compareWidget(before[2], { ...before[2], x: 400.3 }) === undefined && diffWidgets(before, before).unchanged === 3);
+  } catch (error) {
+    addResult('Widget diff', false, error.message);
+  }
+
+  // Test 2: Tools against the fake API
+  console.log('\n🔌 Test 2: Tool calls');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    const keep = server.addWidget(mural.id, { text: 'Keep', x: 0, y: 0 });
+    const move = server.addWidget(mural.id, { text: 'Move me', x: 200, y: 0 });
+    const drop = server.addWidget(mural.id, { text: 'Drop me', x: 400, y: 0 });
+
+    const client = await server.createClient();
+    const registry = new ToolRegistry(allTools);
+    const call = async (name, args) => {
+      const result = await registry.call(name, args, { client });
+      return { isError: result.isError, data: JSON.parse(result.content[0].text) };
+    };
+
+    const noSnapshots = await call('diff-mural', { muralId: mural.id });
+    addResult('Diffing without a snapshot is a not-found error', noSnapshots.isError && noSnapshots.data.code === 'NOT_FOUND',
+      JSON.stringify(noSnapshots.data));
+
+    const first = await call('snapshot-mural', { muralId: mural.id, label: 'Before the session' });
+    addResult('A snapshot saves every widget', !first.isError && first.data.snapshot.widgetCount === 3, JSON.stringify(first.data));
+
+    server.widgetsOf(mural.id).delete(drop.id);
+    Object.assign(move, { x: 600, y: 100 });
+    Object.assign(keep, { text: 'Kept, edited' });
+    server.addWidget(mural.id, { text: 'New idea', x: 0, y: 300 });
+
+    const live = await call('diff-mural', { muralId: mural.id });
+    addResult('A snapshot diffs against the live board',
+      !live.isError && live.data.to === 'live' && live.data.summary.added === 1 && live.data.summary.removed === 1 &&
+      live.data.summary.moved === 1 && live.data.summary.textEdited === 1 && live.data.removed[0].text === 'Drop me',
+      JSON.stringify(live.data.summary));
+
+    const second = await call('snapshot-mural', { muralId: mural.id });
+    const between = await call('diff-mural', { muralId: mural.id, from: first.data.snapshot.snapshotId, to: second.data.snapshot.snapshotId });
+    addResult('Two snapshots diff against each other',
+      !between.isError && JSON.stringify(between.data.summary) === JSON.stringify(live.data.summary), JSON.stringify(between.data.summary));
+
+    const listed = await call('list-mural-snapshots', { muralId: mural.id });
+    const latest = await call('diff-mural', { muralId: mural.id });
+    addResult('Snapshots are listed newest first and the latest is the default baseline',
+      listed.data.count === 2 && listed.data.snapshots[1].label === 'Before the session' &&
+      latest.data.from.snapshotId === second.data.snapshot.snapshotId && latest.data.summary.changed === 0,
+      JSON.stringify(listed.data.snapshots));
+
+    const earlier = await call('diff-mural', { muralId: mural.id, takenBefore: new Date(Date.now() - 3600 * 1000).toISOString() });
+    addResult('takenBefore only considers snapshots taken by then', earlier.isError && earlier.data.code === 'NOT_FOUND', JSON.stringify(earlier.data));
+  } catch (error) {
+    addResult('Tool calls', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Mural snapshots and diffs working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testMuralDiff()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: mural lifecycle tools
+ *
+ * Creates, updates, duplicates and deletes murals against the fake Mural API,
+ * including delete-mural's confirmation argument.
+ */
+export async function testMuralLifecycle() {
+  console.log('🧪 Testing: mural lifecycle tools');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const server = new FakeMuralServer();
+  const registry = new ToolRegistry(allTools);
+  const call = async (client, name, args) => {
+    const result = await registry.call(name, args, { client });
+    return { isError: result.isError === true, data: JSON.parse(result.content[0].text) };
+  };
+  const lastRequest = (method) => server.requests.findLast(request => request.method === method);
+
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const archive = server.addRoom({ workspaceId: workspace.id, name: 'Archive' });
+    const client = await server.createClient();
+
+    // Test 1: Create and update
+    console.log('\n📝 Test 1: Create and update');
+    const created = await call(client, 'create-mural', { roomId: room.id, title: 'Kickoff', backgroundColor: '#FAFAFAFF', infinite: true });
+    const createBody = lastRequest('POST').body;
+    const muralId = created.data.mural?.id;
+    addResult('create-mural posts the room, title and canvas settings',
+      !created.isError && lastRequest('POST').path === '/murals' && createBody.roomId === room.id && createBody.title === 'Kickoff' &&
+      createBody.backgroundColor === '#FAFAFAFF' && createBody.infinite === true && server.murals.has(muralId), JSON.stringify(createBody));
+
+    const renamed = await call(client, 'update-mural', { muralId, updates: { title: 'Kickoff workshop', description: 'Day one' } });
+    const patch = lastRequest('PATCH');
+    addResult('update-mural patches only the given fields',
+      !renamed.isError && patch.path === `/murals/${muralId}` && JSON.stringify(Object.keys(patch.body).sort()) === '["description","title"]' &&
+      server.murals.get(muralId).title === 'Kickoff workshop', JSON.stringify(patch.body));
+
+    // Test 2: Duplicate
+    console.log('\n📄 Test 2: Duplicate');
+    server.addWidget(muralId, { text: 'Agenda' });
+    const copy = await call(client, 'duplicate-mural', { muralId, title: 'Kickoff (team B)', roomId: archive.id });
+    const copyId = copy.data.mural?.id;
+    addResult('duplicate-mural copies the content into the given room',
+      !copy.isError && lastRequest('POST').path === `/murals/${muralId}/duplicate` && lastRequest('POST').body.title === 'Kickoff (team B)' &&
+      server.murals.get(copyId)?.roomId === archive.id && server.getWidgets(copyId).length === 1, JSON.stringify(copy.data));
+
+    // Test 3: Delete
+    console.log('\n🗑️  Test 3: Delete');
+    const before = server.requests.length;
+    const unconfirmed = await call(client, 'delete-mural', { muralId });
+    const declined = await call(client, 'delete-mural', { muralId, confirm: false });
+    addResult('delete-mural refuses without confirm: true and sends nothing',
+      unconfirmed.isError && unconfirmed.data.code === 'INVALID_ARGUMENTS' && unconfirmed.data.message.includes('confirm: true') &&
+      declined.isError && declined.data.code === 'INVALID_ARGUMENTS' && server.requests.length === before && server.murals.has(muralId),
+      JSON.stringify(unconfirmed.data));
+
+    const deleted = await call(client, 'delete-mural', { muralId, confirm: true });
+    addResult('delete-mural with confirm: true deletes the mural',
+      !deleted.isError && lastRequest('DELETE').path === `/murals/${muralId}` && !server.murals.has(muralId) && server.murals.has(copyId),
+      JSON.stringify(deleted.data));
+  } catch (error) {
+    addResult('Mural lifecycle tools', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Mural lifecycle tools working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testMuralLifecycle()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
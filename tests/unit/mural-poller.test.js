@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+
+import { MuralPoller } from '../../build/mural-poller.js';
+import { SUBSCRIBABLE_URIS } from '../../build/resources/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: Mural poller
+ *
+ * Subscribes to murals on the fake Mural API and drives the poller with explicit times:
+ * baselines, change notifications, backoff on quiet and failing murals, and the rate
+ * limit budget.
+ */
+export async function testMuralPoller() {
+  console.log('🧪 Testing: Mural poller');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const server = new FakeMuralServer();
+  const pollers = [];
+  const watch = (client, options = {}) => {
+    const changes = [];
+    const poller = new MuralPoller(client, (muralId, uris, diff) => {
+      changes.push({ muralId, uris, diff });
+    }, { intervalMs: 1000, maxIntervalMs: 4000, backoffFactor: 2, ...options });
+    pollers.push(poller);
+    return { poller, changes };
+  };
+  const widgetReads = (muralId) =>
+    server.requests.filter(request => request.path.includes(`/murals/${muralId}/widgets`)).length;
+
+  try {
+    const workspace = server.addWorkspace({ name: 'Research' });
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id, title: 'Retro' });
+    server.addWidget(mural.id, { text: 'Shipped on time', x: 0, y: 0 });
+    const client = await server.createClient();
+
+    // Test 1: Change detection
+    console.log('\n🔔 Test 1: Change detection');
+    const { poller, changes } = watch(client);
+    poller.subscribe(mural.id, `mural://mural/${mural.id}/widgets`);
+    poller.subscribe(mural.id, `mural://mural/${mural.id}/outline`);
+    const start = Date.now();
+    await poller.pollDue(start);
+    addResult('The first poll records a baseline without notifying',
+      changes.length === 0 && widgetReads(mural.id) === 1 && poller.subscriptions()[0].nextPollAt === start + 1000,
+      JSON.stringify(poller.subscriptions()));
+
+    await poller.pollDue(start + 500);
+    addResult('Murals are not polled before they are due', widgetReads(mural.id) === 1, `${widgetReads(mural.id)} reads`);
+
+    server.addWidget(mural.id, { text: 'Flaky tests', x: 200, y: 0 });
+    await poller.pollDue(start + 1000);
+    addResult('A change notifies every subscribed URI of the mural',
+      changes.length === 1 && changes[0].muralId === mural.id && changes[0].diff.added.length === 1 &&
+      changes[0].uris.join() === `mural://mural/${mural.id}/widgets,mural://mural/${mural.id}/outline`, JSON.stringify(changes));
+
+    // Test 2: Backoff
+    console.log('\n⏳ Test 2: Backoff');
+    const intervals = [];
+    let now = start + 1000;
+    for (let i = 0; i < 4; i++) {
+      now = poller.subscriptions()[0].nextPollAt;
+      await poller.pollDue(now);
+      intervals.push(poller.subscriptions()[0].intervalMs);
+    }
+    addResult('Quiet murals back off up to the maximum interval',
+      intervals.join() === '2000,4000,4000,4000' && changes.length === 1, intervals.join());
+
+    server.getWidgets(mural.id)[0].text = 'Shipped a day late';
+    now = poller.subscriptions()[0].nextPollAt;
+    await poller.pollDue(now);
+    addResult('A change resets the interval',
+      changes.length === 2 && changes[1].diff.changed.length === 1 && poller.subscriptions()[0].intervalMs === 1000,
+      JSON.stringify(poller.subscriptions()));
+
+    server.failNext({ status: 404, path: '/widgets' });
+    now = poller.subscriptions()[0].nextPollAt;
+    await poller.pollDue(now);
+    const failed = poller.subscriptions()[0];
+    addResult('Failed polls back off and keep the subscription',
+      failed.intervalMs === 2000 && failed.nextPollAt === now + 2000 && changes.length === 2, JSON.stringify(failed));
+
+    poller.unsubscribe(`mural://mural/${mural.id}/widgets`);
+    const remaining = poller.subscriptions();
+    poller.unsubscribe(`mural://mural/${mural.id}/outline`);
+    addResult('Murals are dropped with their last subscribed URI',
+      remaining.length === 1 && remaining[0].uris.join() === `mural://mural/${mural.id}/outline` && poller.subscriptions().length === 0,
+      JSON.stringify(remaining));
+
+    addResult('Only resources built from widgets can be subscribed to',
+      SUBSCRIBABLE_URIS.every(uri => uri.startsWith('mural://mural/{muralId}/')) && !SUBSCRIBABLE_URIS.includes('mural://mural/{muralId}'),
+      SUBSCRIBABLE_URIS.join());
+
+    // Test 3: Rate limit budget
+    console.log('\n🪙 Test 3: Rate limit budget');
+    const limitedClient = await server.createClient({ rateLimitConfig: { userRequestsPerSecond: 1 } });
+    const limited = watch(limitedClient);
+    const reads = widgetReads(mural.id);
+    limited.poller.subscribe(mural.id, `mural://mural/${mural.id}/widgets`);
+    now = limited.poller.subscriptions()[0].nextPollAt;
+    await limited.poller.pollDue(now);
+    addResult('Polls that would dip into the budget kept for tool calls are put off',
+      widgetReads(mural.id) === reads && limited.poller.subscriptions()[0].nextPollAt === now + 1000,
+      JSON.stringify(limited.poller.subscriptions()));
+
+    const big = server.addMural({ roomId: room.id, title: 'Big' });
+    for (let i = 0; i < 250; i++) {
+      server.addWidget(big.id, { text: `Note ${i}`, x: (i % 25) * 200, y: Math.floor(i / 25) * 200 });
+    }
+    const paged = watch(await server.createClient({ rateLimitConfig: { appRequestsPerMinute: 4 } }), { budgetShare: 0.5 });
+    paged.poller.subscribe(big.id, `mural://mural/${big.id}/widgets`);
+    now = paged.poller.subscriptions()[0].nextPollAt;
+    await paged.poller.pollDue(now);
+    addResult('A first poll stops at the budget however many pages the mural has',
+      widgetReads(big.id) === 2 && paged.poller.subscriptions()[0].nextPollAt === now + 1000, `${widgetReads(big.id)} pages read`);
+
+    const scoped = watch(await server.createClient({ scopes: ['workspaces:read'] }));
+    scoped.poller.subscribe(mural.id, `mural://mural/${mural.id}/widgets`);
+    await scoped.poller.pollDue(scoped.poller.subscriptions()[0].nextPollAt);
+    addResult('Polls without the murals:read scope fail without calling the API',
+      widgetReads(mural.id) === reads && scoped.poller.subscriptions()[0].intervalMs === 2000,
+      JSON.stringify(scoped.poller.subscriptions()));
+  } catch (error) {
+    addResult('Mural poller', false, error.message);
+  } finally {
+    pollers.forEach(poller => poller.stop());
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Mural poller working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testMuralPoller()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: pagination
+ *
+ * Lists murals and widgets from a fake Mural API with a page size of 2 and
+ * checks that the list tools and MuralClient follow next cursors, honour limit
+ * and hand back the cursor to continue from.
+ */
+export async function testPagination() {
+  console.log('🧪 Testing: pagination');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const server = new FakeMuralServer({ pageSize: 2 });
+  const registry = new ToolRegistry(allTools);
+  const call = async (client, name, args) => {
+    const result = await registry.call(name, args, { client });
+    return { isError: result.isError === true, data: JSON.parse(result.content[0].text) };
+  };
+
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const murals = Array.from({ length: 5 }, (_, i) => server.addMural({ roomId: room.id, title: `Board ${i + 1}` }));
+    const mural = murals[0];
+    for (let i = 0; i < 7; i++) {
+      server.addWidget(mural.id, { text: `Note ${i + 1}`, x: i * 200, y: 0 });
+    }
+    const client = await server.createClient();
+    const requestsTo = (apiPath, from) => server.requests.slice(from).filter(request => request.path === apiPath);
+
+    // Test 1: Cursors
+    console.log('\n➡️  Test 1: Cursors');
+    const first = await call(client, 'list-workspace-boards', { workspaceId: workspace.id });
+    addResult('Without fetchAll one page is returned with its next cursor',
+      !first.isError && first.data.count === 2 && typeof first.data.next === 'string', JSON.stringify(first.data));
+
+    let start = server.requests.length;
+    const rest = await call(client, 'list-workspace-boards', { workspaceId: workspace.id, cursor: first.data.next, fetchAll: true });
+    const followed = requestsTo(`/workspaces/${workspace.id}/murals`, start);
+    addResult('fetchAll follows next from the given cursor until it runs out',
+      rest.data.count === 3 && rest.data.next === null && followed.length === 2 &&
+      followed[0].query.next === first.data.next && followed[1].query.next !== first.data.next &&
+      [...first.data.boards, ...rest.data.boards].map(board => board.id).join() === murals.map(board => board.id).join(),
+      JSON.stringify(followed.map(request => request.query)));
+
+    start = server.requests.length;
+    const capped = await call(client, 'list-room-boards', { roomId: room.id, limit: 3, fetchAll: true });
+    const cappedRequests = requestsTo(`/rooms/${room.id}/murals`, start);
+    addResult('limit caps fetchAll and hands back the cursor to continue from',
+      capped.data.count === 3 && typeof capped.data.next === 'string' && cappedRequests.length === 2 && cappedRequests[1].query.limit === '1',
+      JSON.stringify(cappedRequests.map(request => request.query)));
+
+    // Test 2: Widgets and the client
+    console.log('\n🧩 Test 2: Widgets');
+    start = server.requests.length;
+    const widgets = await call(client, 'get-mural-widgets', { muralId: mural.id, fetchAll: true });
+    addResult('get-mural-widgets fetches every page of a large board',
+      widgets.data.count === 7 && widgets.data.next === null && requestsTo(`/murals/${mural.id}/widgets`, start).length === 4,
+      `${widgets.data.count} widgets`);
+
+    const all = await client.getMuralWidgets(mural.id);
+    addResult('getMuralWidgets returns the widgets of every page', all.length === 7, `${all.length} widgets`);
+  } catch (error) {
+    addResult('Pagination', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Pagination working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testPagination()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
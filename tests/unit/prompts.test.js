@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { PromptRegistry } from '../../build/prompt-registry.js';
+import { allPrompts } from '../../build/prompts/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: MCP prompts
+ *
+ * Lists the facilitation prompts and builds their messages against the fake Mural API.
+ */
+export async function testPrompts() {
+  console.log('🧪 Testing: MCP prompts');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const getError = async (promise) => {
+    try {
+      await promise;
+      return undefined;
+    } catch (error) {
+      return error;
+    }
+  };
+
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id, title: 'Sprint 12 retro' });
+    server.addWidget(mural.id, { type: 'area', title: 'Stop', x: 0, y: 0, width: 400, height: 300 });
+    server.addWidget(mural.id, { text: 'Merging on Fridays', x: 40, y: 80 });
+
+    const registry = new PromptRegistry(allPrompts);
+    const context = { client: await server.createClient() };
+
+    // Test 1: Listing
+    console.log('\n📋 Test 1: Listing');
+    const prompts = registry.list();
+    const cluster = prompts.find(prompt => prompt.name === 'cluster-stickies');
+    addResult('The facilitation prompts are listed',
+      ['summarize-board', 'cluster-stickies', 'plan-retro-board', 'action-items-from-board'].every(name => prompts.some(prompt => prompt.name === name)),
+      prompts.map(prompt => prompt.name).join());
+    addResult('Arguments come from the schema with descriptions and required flags',
+      prompts.every(prompt => prompt.arguments[0].name === 'muralId' && prompt.arguments[0].required) &&
+      cluster.arguments.find(argument => argument.name === 'area')?.required === false &&
+      Boolean(cluster.arguments.find(argument => argument.name === 'area')?.description), JSON.stringify(cluster.arguments));
+
+    // Test 2: Messages
+    console.log('\n💬 Test 2: Messages');
+    const results = await Promise.all(prompts.map(prompt => registry.get(prompt.name, { muralId: mural.id }, context)));
+    addResult('Every prompt starts with the board outline as a resource',
+      results.every(({ messages }) => messages[0].content.type === 'resource' &&
+        messages[0].content.resource.uri === `mural://mural/${mural.id}/outline` &&
+        messages[0].content.resource.text.includes('## Stop') && messages[0].content.resource.text.includes('- Merging on Fridays')),
+      JSON.stringify(results[0].messages[0]));
+    addResult('Instructions follow and name the board',
+      results.every(({ messages }) => messages.length === 2 && messages[1].role === 'user' && messages[1].content.text.includes('"Sprint 12 retro"')));
+
+    const scoped = await registry.get('cluster-stickies', { muralId: mural.id, area: 'Stop', clusters: '3' }, context);
+    addResult('Optional arguments shape the instructions',
+      scoped.messages[1].content.text.includes('limited to the area "Stop"') && scoped.messages[1].content.text.includes('about 3 clusters'),
+      scoped.messages[1].content.text);
+
+    // Test 3: Errors
+    console.log('\n🚫 Test 3: Errors');
+    const unknown = await getError(registry.get('no-such-prompt', {}, context));
+    const missingArgument = await getError(registry.get('summarize-board', {}, context));
+    const badArgument = await getError(registry.get('cluster-stickies', { muralId: mural.id, clusters: 'many' }, context));
+    addResult('Unknown prompts and bad arguments are invalid params',
+      [unknown, missingArgument, badArgument].every(error => error?.code === ErrorCode.InvalidParams) && missingArgument.data.code === 'INVALID_ARGUMENTS',
+      [unknown, missingArgument, badArgument].map(error => error?.message).join(' | '));
+    const missingMural = await getError(registry.get('summarize-board', { muralId: 'no-such-mural' }, context));
+    addResult('API failures keep their error code', missingMural?.data?.code === 'NOT_FOUND' && missingMural.data.prompt === 'summarize-board', missingMural?.message);
+  } catch (error) {
+    addResult('Prompts', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Prompts working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testPrompts()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+
+import { SpatialIndex } from '../../build/spatial-index.js';
+import { queryWidgets } from '../../build/widget-query.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: query-widgets
+ *
+ * Checks the spatial index and every query filter on a small board, then
+ * runs the tool against the fake Mural API.
+ */
+export async function testQueryWidgets() {
+  console.log('🧪 Testing: query-widgets');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const ana = { id: 'user-ana', firstName: 'Ana', lastName: 'Lima', email: 'ana@example.com' };
+  const ben = { id: 'user-ben', firstName: 'Ben', lastName: 'Ode', email: 'ben@example.com' };
+  const widgets = [
+    { id: 'ideas', type: 'area', title: 'Ideas', x: 0, y: 0, width: 400, height: 800 },
+    { id: 'risks', type: 'area', title: 'Risks', x: 500, y: 0, width: 400, height: 800 },
+    { id: 'idea-1', type: 'sticky note', text: 'A', x: 50, y: 50, width: 100, height: 100, createdBy: ana, createdOn: Date.parse('2024-05-01') },
+    { id: 'idea-2', type: 'sticky note', text: 'B', x: 50, y: 300, width: 100, height: 100, createdBy: ben, createdOn: Date.parse('2024-06-01') },
+    { id: 'idea-3', type: 'text', text: 'C', x: 350, y: 50, width: 100, height: 40, createdBy: ana, createdOn: '2024-07-01T10:00:00Z' },
+    { id: 'risk-1', type: 'sticky note', text: 'D', x: 550, y: 50, width: 100, height: 100, createdBy: ben, createdOn: Date.parse('2024-05-15') },
+    { id: 'far', type: 'sticky note', text: 'E', x: 5000, y: 5000, width: 100, height: 100 }
+  ];
+  const ids = result => result.widgets.map(widget => widget.id).join(',');
+
+  // Test 1: Spatial index
+  console.log('\n🗺️  Test 1: Spatial index');
+  try {
+    const index = new SpatialIndex(widgets, 128);
+    const found = index.search({ x: 40, y: 40, width: 20, height: 20 }).map(widget => widget.id).sort();
+    addResult('Search returns intersecting widgets once', found.join(',') === 'idea-1,ideas', found.join(','));
+    addResult('Far-away widgets are found', index.search({ x: 5050, y: 5050, width: 1, height: 1 }).length === 1);
+
+    const huge = new SpatialIndex([{ id: 'bg', type: 'shape', x: -1e6, y: -1e6, width: 2e6, height: 2e6 }], 16);
+    addResult('Oversized widgets are still found', huge.search({ x: 0, y: 0, width: 1, height: 1 }).length === 1);
+  } catch (error) {
+    addResult('Spatial index', false, error.message);
+  }
+
+  // Test 2: Spatial filters
+  console.log('\n📐 Test 2: Region, area and proximity');
+  try {
+    addResult('Inside area by title (center match)', ids(queryWidgets(widgets, { insideArea: 'ideas', types: ['sticky note'] })) === 'idea-1,idea-2');
+    addResult('Center match includes overhanging widgets', ids(queryWidgets(widgets, { insideArea: 'Ideas' })).includes('idea-3'));
+    addResult('"within" excludes overhanging widgets', !ids(queryWidgets(widgets, { insideArea: 'Ideas', match: 'within' })).includes('idea-3'));
+    addResult('Inside area by ID', ids(queryWidgets(widgets, { insideArea: 'risks' })) === 'risk-1');
+    addResult('Region filter', ids(queryWidgets(widgets, { region: { x: 0, y: 250, width: 180, height: 200 } })) === 'idea-2');
+    addResult('Near filter measures edge to edge',
+      ids(queryWidgets(widgets, { near: { widgetId: 'idea-1', distance: 150 }, types: ['sticky-note'] })) === 'idea-2',
+      ids(queryWidgets(widgets, { near: { widgetId: 'idea-1', distance: 150 }, types: ['sticky-note'] })));
+
+    let notFound = null;
+    try {
+      queryWidgets(widgets, { insideArea: 'Parking lot' });
+    } catch (error) {
+      notFound = error;
+    }
+    addResult('Unknown area is NOT_FOUND', notFound?.code === 'NOT_FOUND');
+  } catch (error) {
+    addResult('Spatial filters', false, error.message);
+  }
+
+  // Test 3: Metadata filters
+  console.log('\n🏷️  Test 3: Type, author and date');
+  try {
+    addResult('Type filter accepts API names', ids(queryWidgets(widgets, { types: ['text'] })) === 'idea-3');
+    addResult('Author by name', ids(queryWidgets(widgets, { createdBy: 'ana' })) === 'idea-1,idea-3');
+    addResult('Author by email', ids(queryWidgets(widgets, { createdBy: 'BEN@example.com' })) === 'risk-1,idea-2');
+    addResult('Date range with mixed timestamp formats',
+      ids(queryWidgets(widgets, { createdAfter: '2024-05-10', createdBefore: '2024-07-31' })) === 'idea-3,risk-1,idea-2',
+      ids(queryWidgets(widgets, { createdAfter: '2024-05-10', createdBefore: '2024-07-31' })));
+    addResult('A date-only upper bound includes that whole day',
+      ids(queryWidgets(widgets, { createdAfter: '2024-06-15', createdBefore: '2024-07-01' })) === 'idea-3' &&
+      ids(queryWidgets(widgets, { createdAfter: '2024-06-15', createdBefore: '2024-07-01T09:00:00Z' })) === '' &&
+      ids(queryWidgets(widgets, { updatedBefore: '2024-07-01' })).includes('idea-3'),
+      ids(queryWidgets(widgets, { createdAfter: '2024-06-15', createdBefore: '2024-07-01' })));
+
+    const limited = queryWidgets(widgets, { types: ['sticky-note'], limit: 2 });
+    addResult('Limit keeps the total', limited.widgets.length === 2 && limited.total === 4);
+  } catch (error) {
+    addResult('Metadata filters', false, error.message);
+  }
+
+  // Test 4: The tool against the fake API
+  console.log('\n🔌 Test 4: Tool call');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    widgets.forEach(widget => server.addWidget(mural.id, widget));
+
+    const client = await server.createClient();
+    const result = await new ToolRegistry(allTools).call('query-widgets', {
+      muralId: mural.id,
+      insideArea: 'Ideas',
+      types: ['sticky-note']
+    }, { client });
+    const data = JSON.parse(result.content[0].text);
+    addResult('Tool returns matches and the resolved area',
+      !result.isError && data.count === 2 && data.area?.id === 'ideas', result.content[0].text);
+
+    const invalid = await new ToolRegistry(allTools).call('query-widgets', { muralId: mural.id, createdAfter: 'yesterday' }, { client });
+    addResult('Invalid dates are rejected', invalid.isError && JSON.parse(invalid.content[0].text).code === 'INVALID_ARGUMENTS');
+  } catch (error) {
+    addResult('Tool call', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Widget queries working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testQueryWidgets()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+
+import { renderMuralSvg, wrapText } from '../../build/svg-render.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: render-mural-svg
+ *
+ * Checks how widgets are drawn into the SVG preview, region rendering and scaling, and
+ * the tool's resource, image and text outputs.
+ */
+export async function testRenderSvg() {
+  console.log('🧪 Testing: render-mural-svg');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const board = [
+    { id: 'area', type: 'area', title: 'R&D <ideas>', x: 0, y: 0, width: 800, height: 400 },
+    { id: 'a', type: 'sticky note', text: 'A fairly long sticky note that has to wrap', x: 40, y: 100, width: 138, height: 138, style: { backgroundColor: '#F8BBD0' } },
+    { id: 'b', type: 'sticky note', text: 'B', x: 400, y: 100, width: 138, height: 138 },
+    { id: 'circle', type: 'shape', shape: 'circle', x: 600, y: 100, width: 100, height: 100 },
+    { id: 'diamond', type: 'shape', shape: 'diamond', text: 'Go?', x: 600, y: 250, width: 100, height: 100 },
+    { id: 'far', type: 'text box', text: 'Far away', x: 3000, y: 2000, width: 200, height: 60 },
+    { id: 'arrow', type: 'arrow', x: 0, y: 0, startWidget: 'a', endWidget: 'b', style: { color: '#E53935' } }
+  ];
+
+  // Test 1: Drawing
+  console.log('\n🎨 Test 1: Drawing');
+  try {
+    addResult('Text wraps at spaces and breaks long words',
+      JSON.stringify(wrapText('one two three\nabcdefghij', 8)) === '["one two","three","abcdefgh","ij"]',
+      JSON.stringify(wrapText('one two three\nabcdefghij', 8)));
+
+    const { svg, bounds, widgetCount } = renderMuralSvg(board);
+    addResult('Shapes are drawn in their kind',
+      /<ellipse cx="650" cy="150" rx="50" ry="50"/.test(svg) && /<polygon points="650,250 700,300 650,350 600,300"/.test(svg), svg.slice(0, 300));
+    addResult('Areas are labelled frames and text is escaped',
+      svg.includes('stroke-dasharray') && svg.includes('R&amp;D &lt;ideas&gt;') && !svg.includes('<ideas>'));
+    addResult('Sticky notes are colored with wrapped text',
+      svg.includes('fill="#F8BBD0"') && (svg.match(/<tspan/g) ?? []).length >= 4);
+    addResult('Arrows run between the edges of connected widgets',
+      /<line x1="178" y1="169" x2="400" y2="169" stroke="#E53935"/.test(svg) && svg.includes('<marker id="arrowhead-0"'),
+      svg.match(/<line[^>]*>/)?.[0]);
+    addResult('The whole board is shown with a margin',
+      bounds.x === -40 && bounds.y === -40 && bounds.width === 3280 && widgetCount === 7, JSON.stringify(bounds));
+
+    const part = renderMuralSvg(board, { region: { x: 0, y: 0, width: 800, height: 400 }, maxSize: 400 });
+    addResult('A region only draws what it touches, scaled to maxSize',
+      part.widgetCount === 6 && !part.svg.includes('Far away') && part.scale === 0.5 && part.svg.includes('width="400" height="200"'),
+      `${part.widgetCount} widgets at ${part.scale}`);
+  } catch (error) {
+    addResult('Drawing', false, error.message);
+  }
+
+  // Test 2: Tool output
+  console.log('\n🔌 Test 2: Tool output');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    board.forEach(widget => server.addWidget(mural.id, widget));
+
+    const client = await server.createClient();
+    const registry = new ToolRegistry(allTools);
+
+    const resource = await registry.call('render-mural-svg', { muralId: mural.id }, { client });
+    const [embedded, summary] = resource.content;
+    addResult('The preview is an embedded SVG resource by default',
+      !resource.isError && embedded.type === 'resource' && embedded.resource.mimeType === 'image/svg+xml' &&
+      embedded.resource.uri === `mural://mural/${mural.id}/preview.svg` && embedded.resource.text.startsWith('<svg') &&
+      JSON.parse(summary.text).widgetCount === 7, JSON.stringify(resource.content).slice(0, 200));
+
+    const image = await registry.call('render-mural-svg', { muralId: mural.id, output: 'image', region: { x: 2900, y: 1900, width: 400, height: 300 } }, { client });
+    const decoded = Buffer.from(image.content[0].data, 'base64').toString('utf8');
+    addResult('Image output is base64 SVG of the region',
+      image.content[0].type === 'image' && image.content[0].mimeType === 'image/svg+xml' && decoded.includes('Far away') && !decoded.includes('R&amp;D'));
+
+    const text = await registry.call('render-mural-svg', { muralId: mural.id, output: 'text' }, { client });
+    addResult('Text output is the bare SVG', text.content.length === 1 && text.content[0].text.endsWith('</svg>'));
+  } catch (error) {
+    addResult('Tool output', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 SVG rendering working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testRenderSvg()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
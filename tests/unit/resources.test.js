@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceRegistry, defineResource, expandUriTemplate } from '../../build/resource-registry.js';
+import { allResources } from '../../build/resources/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: MCP resources
+ *
+ * Checks URI template matching in the resource registry, then lists and reads the
+ * workspace and mural resources against the fake Mural API.
+ */
+export async function testResources() {
+  console.log('🧪 Testing: MCP resources');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const readError = async (promise) => {
+    try {
+      await promise;
+      return undefined;
+    } catch (error) {
+      return error;
+    }
+  };
+
+  // Test 1: Registry
+  console.log('\n🗂️  Test 1: Registry');
+  try {
+    const registry = new ResourceRegistry([
+      defineResource({ name: 'thing', uriTemplate: 'test://thing/{id}', description: 'A thing', mimeType: 'text/plain', read: async ({ id }) => `thing ${id}` }),
+      defineResource({ name: 'thing-parts', uriTemplate: 'test://thing/{id}/parts', description: 'Parts', mimeType: 'text/plain', read: async ({ id }) => `parts of ${id}` })
+    ]);
+    const uri = expandUriTemplate('test://thing/{id}/parts', { id: 'a/b c' });
+    addResult('Templates expand and match with encoded segments',
+      uri === 'test://thing/a%2Fb%20c/parts' && registry.match(uri)?.params.id === 'a/b c' &&
+      registry.match('test://thing/x')?.definition.name === 'thing' && registry.match('test://thing/x/other') === undefined, uri);
+
+    let duplicate = '';
+    try {
+      registry.register(defineResource({ name: 'thing', uriTemplate: 'test://other/{id}', description: '', mimeType: 'text/plain', read: async () => '' }));
+    } catch (error) {
+      duplicate = error.message;
+    }
+    addResult('Duplicate resources are rejected', duplicate.includes('already registered'), duplicate);
+
+    const unknown = await readError(registry.read('test://nothing', {}));
+    addResult('Unknown URIs are invalid params', unknown?.code === ErrorCode.InvalidParams, unknown?.message);
+  } catch (error) {
+    addResult('Registry', false, error.message);
+  }
+
+  // Test 2: Mural resources
+  console.log('\n🔌 Test 2: Mural resources');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace({ name: 'Research' });
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id, title: 'Retro' });
+    server.addWidget(mural.id, { type: 'area', title: 'Went well', x: 0, y: 0, width: 400, height: 300 });
+    server.addWidget(mural.id, { text: 'Shipped on time', x: 40, y: 80 });
+
+    const registry = new ResourceRegistry(allResources);
+    const context = { client: await server.createClient() };
+
+    const templates = registry.listTemplates().map(template => template.uriTemplate);
+    addResult('Templates cover workspaces, murals, widgets, outlines and previews',
+      ['mural://workspace/{workspaceId}', 'mural://mural/{muralId}', 'mural://mural/{muralId}/widgets', 'mural://mural/{muralId}/outline', 'mural://mural/{muralId}/preview.svg']
+        .every(template => templates.includes(template)), templates.join());
+
+    const listed = await registry.list(context);
+    addResult('resources/list advertises workspaces and their murals',
+      listed.some(resource => resource.uri === `mural://workspace/${workspace.id}` && resource.name === 'Research' && resource.mimeType === 'application/json') &&
+      listed.some(resource => resource.uri === `mural://mural/${mural.id}` && resource.name === 'Retro'), JSON.stringify(listed));
+
+    const read = async (uri) => (await registry.read(uri, context)).contents[0];
+    const details = await read(`mural://workspace/${workspace.id}`);
+    const widgets = await read(`mural://mural/${mural.id}/widgets`);
+    const outline = await read(`mural://mural/${mural.id}/outline`);
+    const preview = await read(`mural://mural/${mural.id}/preview.svg`);
+    addResult('Workspaces list their murals with resource URIs',
+      JSON.parse(details.text).murals[0]?.uri === `mural://mural/${mural.id}`, details.text);
+    addResult('Murals, widgets, outlines and previews are readable',
+      JSON.parse((await read(`mural://mural/${mural.id}`)).text).title === 'Retro' &&
+      JSON.parse(widgets.text).length === 2 && outline.mimeType === 'text/markdown' && outline.text.includes('- Shipped on time') &&
+      preview.mimeType === 'image/svg+xml' && preview.text.startsWith('<svg'), outline.text);
+
+    const missing = await readError(registry.read('mural://mural/no-such-mural', context));
+    addResult('Missing murals are reported with the tool error code',
+      missing?.code === ErrorCode.InvalidParams && missing?.data?.code === 'NOT_FOUND', missing?.message);
+
+    const limited = { client: await server.createClient({ scopes: ['murals:read'] }) };
+    const forbidden = await readError(registry.read(`mural://workspace/${workspace.id}`, limited));
+    const partial = await registry.list(limited);
+    addResult('Scopes are checked before reading and listing',
+      forbidden?.data?.code === 'INSUFFICIENT_SCOPE' && partial.length === 0, `${forbidden?.message} / ${partial.length} listed`);
+  } catch (error) {
+    addResult('Mural resources', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Resources working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testResources()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
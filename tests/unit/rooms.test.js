@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: room tools
+ *
+ * Lists, gets, creates, updates and deletes rooms against the fake Mural API
+ * and checks the requests each tool sends.
+ */
+export async function testRooms() {
+  console.log('🧪 Testing: room tools');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const server = new FakeMuralServer();
+  const registry = new ToolRegistry(allTools);
+  const call = async (client, name, args) => {
+    const result = await registry.call(name, args, { client });
+    return { isError: result.isError === true, data: JSON.parse(result.content[0].text) };
+  };
+  const lastRequest = (method) => server.requests.findLast(request => request.method === method);
+
+  try {
+    const workspace = server.addWorkspace();
+    const other = server.addWorkspace();
+    const existing = server.addRoom({ workspaceId: workspace.id, name: 'Workshops' });
+    server.addRoom({ workspaceId: other.id, name: 'Elsewhere' });
+    const client = await server.createClient();
+
+    // Test 1: Reading rooms
+    console.log('\n📋 Test 1: Reading rooms');
+    const listed = await call(client, 'list-workspace-rooms', { workspaceId: workspace.id });
+    const single = await call(client, 'get-room', { roomId: existing.id });
+    addResult('Rooms are listed per workspace and fetched by ID',
+      listed.data.count === 1 && listed.data.rooms[0].id === existing.id && single.data.name === 'Workshops' &&
+      lastRequest('GET').path === `/rooms/${existing.id}`, JSON.stringify(listed.data));
+
+    // Test 2: Writing rooms
+    console.log('\n🏗️  Test 2: Writing rooms');
+    const created = await call(client, 'create-room', { workspaceId: workspace.id, name: 'Retros', description: 'Team retros' });
+    const createBody = lastRequest('POST').body;
+    addResult('create-room posts the room, open by default',
+      !created.isError && lastRequest('POST').path === '/rooms' &&
+      createBody.workspaceId === workspace.id && createBody.name === 'Retros' && createBody.type === 'open' && createBody.description === 'Team retros' &&
+      server.rooms.has(created.data.room?.id), JSON.stringify(createBody));
+
+    const roomId = created.data.room.id;
+    const updated = await call(client, 'update-room', { roomId, updates: { name: 'Sprint retros', confidential: true } });
+    const patch = lastRequest('PATCH');
+    addResult('update-room patches only the given fields',
+      !updated.isError && patch.path === `/rooms/${roomId}` && JSON.stringify(Object.keys(patch.body).sort()) === '["confidential","name"]' &&
+      server.rooms.get(roomId).name === 'Sprint retros', JSON.stringify(patch.body));
+
+    const deleted = await call(client, 'delete-room', { roomId });
+    addResult('delete-room deletes the room', !deleted.isError && lastRequest('DELETE').path === `/rooms/${roomId}` && !server.rooms.has(roomId),
+      JSON.stringify(deleted.data));
+
+    // Test 3: Checks
+    console.log('\n🚧 Test 3: Checks');
+    const before = server.requests.length;
+    const badType = await call(client, 'create-room', { workspaceId: workspace.id, name: 'Secret', type: 'hidden' });
+    const readOnly = await call(await server.createClient({ scopes: ['rooms:read'] }), 'delete-room', { roomId: existing.id });
+    addResult('Bad room types and missing rooms:write are rejected before any request',
+      badType.data.code === 'INVALID_ARGUMENTS' && readOnly.data.code === 'INSUFFICIENT_SCOPE' && server.requests.length === before &&
+      server.rooms.has(existing.id), `${badType.data.message} / ${readOnly.data.message}`);
+  } catch (error) {
+    addResult('Room tools', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Room tools working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testRooms()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+import { searchWidgets, createTextMatcher, matchSnippet } from '../../build/widget-search.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: search-widgets
+ *
+ * Checks substring, regex and fuzzy matching on widget text, then searches a
+ * mural and a whole workspace through the fake Mural API.
+ */
+export async function testSearchWidgets() {
+  console.log('🧪 Testing: search-widgets');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const widgets = [
+    { id: 'note-1', type: 'sticky note', text: 'Revisit pricing tiers before launch', x: 0, y: 0, width: 100, height: 100 },
+    { id: 'note-2', type: 'sticky note', text: 'Pricing page copy', x: 200, y: 0, width: 100, height: 100 },
+    { id: 'heading', type: 'title', text: 'Q3 planning', x: 0, y: -200, width: 300, height: 60 },
+    { id: 'rich', type: 'text', htmlText: '<p>Ticket <b>MUR-142</b> is blocked</p>', x: 0, y: 300, width: 200, height: 50 },
+    { id: 'grid', type: 'table', title: 'Plans', rows: 2, columns: 2, data: [['Tier', 'Price'], ['Team', '$10']], x: 400, y: 300, width: 200, height: 100 }
+  ];
+  const ids = hits => hits.map(hit => hit.widget.id).join(',');
+
+  // Test 1: Matching modes
+  console.log('\n🔎 Test 1: Matching modes');
+  try {
+    addResult('Substring ignores case by default', ids(searchWidgets(widgets, 'PRICING')) === 'note-1,note-2');
+    addResult('Case-sensitive substring', ids(searchWidgets(widgets, 'Pricing', { caseSensitive: true })) === 'note-2');
+    addResult('HTML text is searched without markup', ids(searchWidgets(widgets, 'MUR-142 is')) === 'rich');
+    addResult('Table cells are searched alongside the title', ids(searchWidgets(widgets, '$10')) === 'grid' && ids(searchWidgets(widgets, 'plans')) === 'grid');
+    addResult('Regex mode', ids(searchWidgets(widgets, 'MUR-\\d+', { mode: 'regex' })) === 'rich');
+    addResult('Empty regex matches are ignored', searchWidgets(widgets, 'x*', { mode: 'regex' }).length === 0);
+
+    const fuzzy = searchWidgets(widgets, 'pricng tier', { mode: 'fuzzy' });
+    addResult('Fuzzy tolerates typos and word endings', fuzzy[0]?.widget.id === 'note-1' && fuzzy[0].match.score < 1, ids(fuzzy));
+    addResult('Fuzzy rejects unrelated text', searchWidgets(widgets, 'retrospective', { mode: 'fuzzy' }).length === 0);
+    addResult('Type filter', ids(searchWidgets(widgets, 'p', { types: ['title'] })) === 'heading');
+
+    let invalid = null;
+    try {
+      createTextMatcher('(unclosed', { mode: 'regex' });
+    } catch (error) {
+      invalid = error;
+    }
+    addResult('Invalid regex is a validation error', invalid?.code === 'VALIDATION_ERROR');
+  } catch (error) {
+    addResult('Matching modes', false, error.message);
+  }
+
+  // Test 2: Snippets
+  console.log('\n✂️  Test 2: Snippets');
+  try {
+    const text = `${'a '.repeat(50)}pricing tiers${' b'.repeat(50)}`;
+    const snippet = matchSnippet(text, { index: 100, length: 13, score: 1 }, 10);
+    addResult('Snippet keeps context and marks truncation', snippet === '…a a a a a pricing tiers b b b b b…', snippet);
+  } catch (error) {
+    addResult('Snippets', false, error.message);
+  }
+
+  // Test 3: The tool against the fake API
+  console.log('\n🔌 Test 3: Tool call');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const roadmap = server.addMural({ roomId: room.id, workspaceId: workspace.id, title: 'Roadmap' });
+    const retro = server.addMural({ roomId: room.id, workspaceId: workspace.id, title: 'Retro' });
+    widgets.forEach(widget => server.addWidget(roadmap.id, widget));
+    server.addWidget(retro.id, { id: 'retro-1', type: 'sticky note', text: 'Customers confused by pricing tiers', x: 10, y: 20, width: 100, height: 100 });
+
+    const client = await server.createClient();
+    const registry = new ToolRegistry(allTools);
+
+    const workspaceResult = await registry.call('search-widgets', { workspaceId: workspace.id, query: 'pricing tiers' }, { client });
+    const data = JSON.parse(workspaceResult.content[0].text);
+    const retroHit = data.hits?.find(hit => hit.widgetId === 'retro-1');
+    addResult('Workspace search covers every mural',
+      !workspaceResult.isError && data.total === 2 && data.searchedMurals === 2, workspaceResult.content[0].text);
+    addResult('Hits carry the mural, snippet and position',
+      retroHit?.muralTitle === 'Retro' && retroHit.snippet.includes('pricing tiers') && retroHit.position.x === 10);
+
+    const muralResult = await registry.call('search-widgets', { muralId: roadmap.id, query: 'pricing', limit: 1 }, { client });
+    const muralData = JSON.parse(muralResult.content[0].text);
+    addResult('Mural search honours the limit', muralData.count === 1 && muralData.total === 2);
+
+    const both = await registry.call('search-widgets', { muralId: roadmap.id, workspaceId: workspace.id, query: 'x' }, { client });
+    addResult('Exactly one of muralId or workspaceId', both.isError && JSON.parse(both.content[0].text).code === 'INVALID_ARGUMENTS');
+  } catch (error) {
+    addResult('Tool call', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Widget search working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testSearchWidgets()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
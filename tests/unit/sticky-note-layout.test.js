@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+
+import { layoutStickyNotes } from '../../build/layout.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: create-sticky-note-layout
+ *
+ * Checks each layout and anchor of the layout engine for overlaps, then lays
+ * out notes inside an existing area through the fake Mural API.
+ */
+export async function testStickyNoteLayout() {
+  console.log('🧪 Testing: create-sticky-note-layout');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const note = (text, category) => ({ text, category, width: 120, height: 120 });
+  const overlaps = (a, b) => a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+  const anyOverlap = rects => rects.some((a, i) => rects.slice(i + 1).some(b => overlaps(a, b)));
+  const inside = (outer, r) => r.x >= outer.x && r.y >= outer.y && r.x + r.width <= outer.x + outer.width && r.y + r.height <= outer.y + outer.height;
+
+  // Test 1: Layouts
+  console.log('\n🧩 Test 1: Layouts');
+  try {
+    const grid = layoutStickyNotes(['a', 'b', 'c', 'd', 'e'].map(text => note(text)), { layout: 'grid', anchor: { type: 'point', x: 0, y: 0 } });
+    const columns = new Set(grid.notes.map(placed => placed.x)).size;
+    addResult('Grid is square-ish without overlaps', columns === 3 && !anyOverlap(grid.notes) && grid.notes[0].x === 0 && grid.notes[0].y === 0);
+
+    const notes = [note('Fix login', 'Doing'), note('Write docs', 'To do'), note('Ship v2', 'Doing')];
+    const byColumn = layoutStickyNotes(notes, { layout: 'columns', categories: ['To do', 'Doing'] });
+    addResult('Columns group notes by category in the requested order',
+      byColumn.notes[1].x < byColumn.notes[0].x && byColumn.notes[0].x === byColumn.notes[2].x && byColumn.notes[2].y > byColumn.notes[0].y);
+    addResult('Placements keep the input order', byColumn.notes.map(placed => placed.text).join(',') === 'Fix login,Write docs,Ship v2');
+
+    const kanban = layoutStickyNotes(notes, { layout: 'kanban', categories: ['To do', 'Doing', 'Done'] });
+    addResult('Kanban adds a header per column, including empty ones',
+      kanban.headers.map(header => header.text).join(',') === 'To do,Doing,Done' &&
+      kanban.notes.every(placed => placed.y > kanban.headers[0].y + kanban.headers[0].height));
+
+    const hub = { x: -60, y: -60, width: 120, height: 120 };
+    const radial = layoutStickyNotes(['a', 'b', 'c', 'd', 'e', 'f'].map(text => note(text)), {
+      layout: 'radial',
+      anchor: { type: 'point', x: 0, y: 0 },
+      obstacles: [hub]
+    });
+    const distances = radial.notes.map(placed => Math.round(Math.hypot(placed.x + 60, placed.y + 60)));
+    addResult('Radial rings the hub without touching it',
+      !anyOverlap([hub, ...radial.notes]) && distances.every(distance => distance === distances[0]));
+  } catch (error) {
+    addResult('Layouts', false, error.message);
+  }
+
+  // Test 2: Anchors and obstacles
+  console.log('\n⚓ Test 2: Anchors and obstacles');
+  try {
+    const blocker = { x: 0, y: 0, width: 300, height: 300 };
+    const moved = layoutStickyNotes([note('a'), note('b')], { layout: 'grid', anchor: { type: 'point', x: 50, y: 50 }, obstacles: [blocker] });
+    addResult('Point anchor moves to the nearest free spot', !anyOverlap([blocker, ...moved.notes]) && Math.abs(moved.bounds.x - 50) < 400);
+
+    const defaulted = layoutStickyNotes([note('a')], { layout: 'grid', obstacles: [blocker] });
+    addResult('Default anchor is right of the existing content', defaulted.notes[0].x > 300 && defaulted.notes[0].y === 0);
+
+    const region = { x: 1000, y: 0, width: 440, height: 600 };
+    const squatter = { x: 1020, y: 20, width: 120, height: 120 };
+    const filled = layoutStickyNotes(['a', 'b', 'c', 'd', 'e', 'f'].map(text => note(text)), {
+      layout: 'grid',
+      anchor: { type: 'region', bounds: region },
+      obstacles: [squatter]
+    });
+    addResult('Region layouts stay inside and fill around existing widgets',
+      filled.notes.every(placed => inside(region, placed)) && !anyOverlap([squatter, ...filled.notes]));
+
+    let tooSmall = null;
+    try {
+      layoutStickyNotes(['a', 'b', 'c'].map(text => note(text)), { layout: 'grid', anchor: { type: 'region', bounds: { x: 0, y: 0, width: 200, height: 200 } } });
+    } catch (error) {
+      tooSmall = error;
+    }
+    addResult('Too small a region is a validation error', tooSmall?.code === 'VALIDATION_ERROR');
+  } catch (error) {
+    addResult('Anchors and obstacles', false, error.message);
+  }
+
+  // Test 3: The tool against the fake API
+  console.log('\n🔌 Test 3: Tool call');
+  const server = new FakeMuralServer();
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    const area = server.addWidget(mural.id, { id: 'backlog', type: 'area', title: 'Backlog', x: 0, y: 0, width: 800, height: 600 });
+    const existing = server.addWidget(mural.id, { id: 'old', type: 'sticky note', text: 'Existing', x: 20, y: 20, width: 150, height: 150 });
+
+    const client = await server.createClient();
+    const registry = new ToolRegistry(allTools);
+    const result = await registry.call('create-sticky-note-layout', {
+      muralId: mural.id,
+      notes: [{ text: 'One', category: 'Now' }, { text: 'Two', category: 'Later' }, { text: 'Three', category: 'Now' }],
+      layout: 'kanban',
+      anchor: { type: 'area', area: 'backlog' }
+    }, { client });
+    const data = JSON.parse(result.content[0].text);
+    const created = server.getWidgets(mural.id).filter(widget => widget.id !== area.id && widget.id !== existing.id);
+    const notes = created.filter(widget => widget.type === 'sticky note');
+    addResult('Tool creates notes and kanban headers', !result.isError && data.count === 3 && data.headers?.length === 2, result.content[0].text);
+    addResult('Created widgets sit inside the area, clear of existing notes',
+      created.length === 5 && created.every(widget => inside(area, widget)) && !anyOverlap([existing, ...created]));
+    addResult('Notes are sized from their text', notes.every(widget => widget.width >= 120 && widget.height >= 60));
+
+    const [operation] = await client.getRecentOperations(mural.id);
+    addResult('Headers and notes are journaled as one operation',
+      operation?.entries.length === 5 && created.every(widget => operation.entries.some(entry => entry.widgetId === widget.id)), JSON.stringify(operation));
+
+    const viaCreate = await registry.call('create-sticky-notes', {
+      muralId: mural.id,
+      stickyNotes: [{ text: 'Four' }, { text: 'Five' }, { text: 'Six' }],
+      layout: { type: 'grid', columns: 3, anchor: { type: 'point', x: 1000, y: 0 } }
+    }, { client });
+    const gridNotes = JSON.parse(viaCreate.content[0].text).widgets ?? [];
+    addResult('create-sticky-notes lays out notes given a layout',
+      !viaCreate.isError && gridNotes.length === 3 && gridNotes.every(widget => widget.y === gridNotes[0].y && widget.x >= 1000) &&
+      !anyOverlap(server.getWidgets(mural.id).filter(widget => widget.type !== 'area')), viaCreate.content[0].text);
+
+    const positioned = await registry.call('create-sticky-notes', {
+      muralId: mural.id,
+      stickyNotes: [{ text: 'Seven', x: 0, y: 0 }],
+      layout: { type: 'grid' }
+    }, { client });
+    addResult('A layout and explicit positions are rejected together', positioned.isError, positioned.content[0].text);
+
+    const before = server.getWidgets(mural.id).length;
+    server.failNext({ status: 400, method: 'POST', path: '/widgets/sticky-note' });
+    const failed = await registry.call('create-sticky-note-layout', {
+      muralId: mural.id,
+      notes: [{ text: 'Eight', category: 'Now' }],
+      layout: 'kanban',
+      anchor: { type: 'point', x: 0, y: 2000 }
+    }, { client });
+    addResult('A failed layout removes the headers it created',
+      failed.isError && server.getWidgets(mural.id).length === before, `${server.getWidgets(mural.id).length} widgets, ${before} before`);
+  } catch (error) {
+    addResult('Tool call', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Sticky note layouts working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testStickyNoteLayout()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
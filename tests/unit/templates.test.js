@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: template tools
+ *
+ * Lists, searches, creates and deletes templates against the fake Mural API and creates
+ * murals from them by ID and by name.
+ */
+export async function testTemplates() {
+  console.log('🧪 Testing: template tools');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const server = new FakeMuralServer();
+  const registry = new ToolRegistry(allTools);
+  const call = async (client, name, args) => {
+    const result = await registry.call(name, args, { client });
+    return { isError: result.isError === true, data: JSON.parse(result.content[0].text) };
+  };
+  const lastRequest = (method) => server.requests.findLast(request => request.method === method);
+
+  try {
+    const workspace = server.addWorkspace();
+    const other = server.addWorkspace({ name: 'Other' });
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    server.addWidget(mural.id, { text: 'Goal' });
+    const retro = server.addTemplate({ name: 'Retrospective', widgets: [{ type: 'sticky note', text: 'Went well' }] });
+    server.addTemplate({ name: 'Retrospective (short)' });
+    server.addTemplate({ name: 'Team Charter', type: 'custom', workspaceId: workspace.id });
+    server.addTemplate({ name: 'Roadmap', type: 'custom', workspaceId: other.id });
+    const client = await server.createClient();
+
+    // Test 1: Listing and search
+    console.log('\n📋 Test 1: Listing and search');
+    const defaults = await call(client, 'list-templates', {});
+    const inWorkspace = await call(client, 'list-templates', { workspaceId: workspace.id });
+    const names = result => result.data.templates.map(template => template.name).sort().join();
+    addResult('list-templates returns the defaults, plus custom templates for a workspace',
+      !defaults.isError && names(defaults) === 'Retrospective,Retrospective (short)' &&
+      !inWorkspace.isError && names(inWorkspace) === 'Retrospective,Retrospective (short),Team Charter' &&
+      lastRequest('GET').path === `/workspaces/${workspace.id}/templates`, `${names(defaults)} / ${names(inWorkspace)}`);
+
+    const found = await call(client, 'search-templates', { workspaceId: workspace.id, query: 'charter' });
+    addResult('search-templates sends the query and returns matches',
+      !found.isError && lastRequest('GET').path === `/search/${workspace.id}/templates` && lastRequest('GET').query.q === 'charter' &&
+      names(found) === 'Team Charter', JSON.stringify(found.data));
+
+    // Test 2: Create and delete
+    console.log('\n💾 Test 2: Create and delete');
+    const saved = await call(client, 'create-template-from-mural', { muralId: mural.id, name: 'Kickoff', description: 'Our kickoff board' });
+    const templateId = saved.data.template?.id;
+    addResult('create-template-from-mural posts the mural, name and description',
+      !saved.isError && lastRequest('POST').path === '/templates' &&
+      JSON.stringify(lastRequest('POST').body) === JSON.stringify({ muralId: mural.id, name: 'Kickoff', description: 'Our kickoff board' }) &&
+      server.templates.get(templateId)?.workspaceId === workspace.id, JSON.stringify(saved.data));
+
+    const removed = await call(client, 'delete-template', { templateId });
+    addResult('delete-template deletes the template',
+      !removed.isError && lastRequest('DELETE').path === `/templates/${templateId}` && !server.templates.has(templateId),
+      JSON.stringify(removed.data));
+
+    // Test 3: Murals from templates
+    console.log('\n🧩 Test 3: Murals from templates');
+    const byId = await call(client, 'create-mural-from-template', { roomId: room.id, templateId: retro.id, title: 'Sprint 12 retro' });
+    addResult('create-mural-from-template creates a mural from a template ID',
+      !byId.isError && lastRequest('POST').path === `/templates/${retro.id}/murals` && lastRequest('POST').body.roomId === room.id &&
+      byId.data.mural.title === 'Sprint 12 retro' && server.getWidgets(byId.data.mural.id).length === 1, JSON.stringify(byId.data));
+
+    const byName = await call(client, 'create-mural-from-template', { roomId: room.id, templateName: 'team charter' });
+    const byExactName = await call(client, 'create-mural-from-template', { roomId: room.id, templateName: 'Retrospective' });
+    addResult('Template names resolve in the room\'s workspace, exact matches first',
+      !byName.isError && byName.data.templateId === [...server.templates.values()].find(t => t.name === 'Team Charter').id &&
+      !byExactName.isError && byExactName.data.templateId === retro.id, `${byName.data.message} / ${byExactName.data.message}`);
+
+    const ambiguous = await call(client, 'create-mural-from-template', { roomId: room.id, templateName: 'retro' });
+    const missing = await call(client, 'create-mural-from-template', { roomId: room.id, templateName: 'Roadmap' });
+    const both = await call(client, 'create-mural-from-template', { roomId: room.id, templateId: retro.id, templateName: 'Retrospective' });
+    addResult('Ambiguous, unknown or doubly given templates are rejected',
+      ambiguous.isError && ambiguous.data.code === 'VALIDATION_ERROR' && ambiguous.data.message.includes('Retrospective (short)') &&
+      missing.isError && missing.data.code === 'NOT_FOUND' && both.isError && both.data.code === 'INVALID_ARGUMENTS',
+      `${ambiguous.data.code} / ${missing.data.code} / ${both.data.code}`);
+  } catch (error) {
+    addResult('Template tools', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Template tools working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testTemplates()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
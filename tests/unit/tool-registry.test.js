@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+
+import { ToolRegistry, toInputSchema } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+
+/**
+ * Unit Test: Tool Registry
+ *
+ * Exercises schema derivation, dispatch, scope checks and error handling
+ * with a fake client, so no credentials or network are needed.
+ */
+export async function testToolRegistry() {
+  console.log('🧪 Testing: tool registry');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  function createFakeClient(scopes = ['murals:read', 'murals:write']) {
+    const calls = [];
+    return {
+      calls,
+      async checkScope(scope) {
+        const hasScope = scopes.includes(scope);
+        return {
+          hasScope,
+          requiredScope: scope,
+          availableScopes: scopes,
+          message: hasScope ? `User has required scope: ${scope}` : `User missing required scope: ${scope}`
+        };
+      },
+      async createStickyNotes(muralId, stickyNotes) {
+        calls.push({ method: 'createStickyNotes', muralId, stickyNotes });
+        return stickyNotes.map((note, index) => ({ id: `widget-${index}`, type: 'sticky note', ...note }));
+      },
+      async deleteWidget(muralId, widgetId) {
+        calls.push({ method: 'deleteWidget', muralId, widgetId });
+      }
+    };
+  }
+
+  const registry = new ToolRegistry(allTools);
+
+  // Test 1: Listing derives JSON Schema from zod
+  console.log('\n📋 Test 1: Tool listing');
+  try {
+    const tools = registry.list();
+    const names = tools.map(tool => tool.name);
+    addResult('Tool names are unique', new Set(names).size === names.length);
+
+    const allObjects = tools.every(tool => tool.inputSchema.type === 'object');
+    addResult('Every input schema is an object', allObjects);
+
+    const stickyNotes = tools.find(tool => tool.name === 'create-sticky-notes');
+    const items = stickyNotes?.inputSchema.properties?.stickyNotes;
+    addResult('create-sticky-notes is listed', Boolean(stickyNotes));
+    addResult('Array limits carried over', items?.maxItems === 1000 && items?.minItems === 1,
+      `Got min ${items?.minItems}, max ${items?.maxItems}`);
+    // x and y are optional in the schema because placement "auto" can fill them in
+    addResult('Required fields carried over',
+      JSON.stringify(items?.items?.required) === JSON.stringify(['text']),
+      JSON.stringify(items?.items?.required));
+    addResult('Defaults carried over', stickyNotes?.inputSchema.properties?.placement?.default === 'manual');
+    addResult('Nested objects are closed', items?.items?.properties?.style?.additionalProperties === false);
+    addResult('No $schema key in input schema', !('$schema' in (stickyNotes?.inputSchema || {})));
+  } catch (error) {
+    addResult('Tool listing', false, error.message);
+  }
+
+  // Test 2: Dispatch parses arguments and passes the context through
+  console.log('\n📝 Test 2: Dispatch to handler');
+  try {
+    const client = createFakeClient();
+    const result = await registry.call('create-sticky-notes', {
+      muralId: 'mural-1',
+      stickyNotes: [{ x: 10, y: 20, text: 'Hello' }]
+    }, { client });
+
+    addResult('Result is not an error', !result.isError, result.content?.[0]?.text);
+
+    const data = JSON.parse(result.content[0].text);
+    addResult('Result reports created count', data.count === 1, `Got ${data.count}`);
+
+    const sent = client.calls[0]?.stickyNotes?.[0];
+    addResult('Handler adds required shape field', sent?.shape === 'rectangle');
+    addResult('Handler calculates dimensions', typeof sent?.width === 'number' && typeof sent?.height === 'number');
+  } catch (error) {
+    addResult('Dispatch to handler', false, error.message);
+  }
+
+  // Test 3: Validation errors become tool errors
+  console.log('\n🚫 Test 3: Invalid arguments');
+  try {
+    const client = createFakeClient();
+    const result = await registry.call('create-sticky-notes', { muralId: 'mural-1', stickyNotes: [] }, { client });
+    addResult('Invalid arguments return isError', result.isError === true);
+    addResult('Handler not called on invalid arguments', client.calls.length === 0);
+  } catch (error) {
+    addResult('Invalid arguments', false, error.message);
+  }
+
+  // Test 4: Missing scope blocks the handler
+  console.log('\n🔒 Test 4: Scope enforcement');
+  try {
+    const client = createFakeClient(['murals:read']);
+    const result = await registry.call('delete-widget', { muralId: 'mural-1', widgetId: 'widget-1' }, { client });
+    const data = JSON.parse(result.content[0].text);
+
+    addResult('Missing scope returns isError', result.isError === true);
+    addResult('Error names the missing scope', data.message.includes('murals:write'), data.message);
+    addResult('Handler not called without scope', client.calls.length === 0);
+  } catch (error) {
+    addResult('Scope enforcement', false, error.message);
+  }
+
+  // Test 5: Unknown tools
+  console.log('\n❓ Test 5: Unknown tool');
+  try {
+    const result = await registry.call('does-not-exist', {}, { client: createFakeClient() });
+    const data = JSON.parse(result.content[0].text);
+    addResult('Unknown tool returns isError', result.isError === true);
+    addResult('Error identifies the tool', data.tool === 'does-not-exist' && data.message.includes('Unknown tool'));
+  } catch (error) {
+    addResult('Unknown tool', false, error.message);
+  }
+
+  // Test 6: Duplicate registration is rejected
+  console.log('\n♻️  Test 6: Duplicate registration');
+  try {
+    let threw = false;
+    try {
+      registry.register(allTools[0]);
+    } catch {
+      threw = true;
+    }
+    addResult('Registering a duplicate name throws', threw);
+
+    const schema = toInputSchema(allTools[0].schema);
+    addResult('toInputSchema is usable standalone', schema.type === 'object');
+  } catch (error) {
+    addResult('Duplicate registration', false, error.message);
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Tool registry working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testToolRegistry()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
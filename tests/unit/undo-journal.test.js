@@ -0,0 +1,218 @@
+#!/usr/bin/env node
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { OperationJournal, describeOperation, recreateRequest, restoreFields } from '../../build/journal.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: operation journal and undo
+ *
+ * Checks the journal helpers, then records creates, updates and deletes made
+ * through the tools against the fake Mural API and undoes them with
+ * undo-operation.
+ */
+export async function testUndoJournal() {
+  console.log('🧪 Testing: operation journal and undo');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  // Test 1: Journal helpers
+  console.log('\n📒 Test 1: Journal helpers');
+  try {
+    const summary = describeOperation('delete', [
+      { widgetId: 'a', widgetType: 'sticky note' },
+      { widgetId: 'b', widgetType: 'sticky note' },
+      { widgetId: 'c', widgetType: 'text box' }
+    ]);
+    addResult('Operations are summarized per widget type', summary === 'Deleted 2 sticky notes and 1 text box', summary);
+
+    const { widgetType, request } = recreateRequest({
+      id: 'w1', type: 'sticky note', x: 10, y: 20, width: 138, height: 138, text: 'Hi', style: { backgroundColor: '#FFF' },
+      muralId: 'm', createdOn: '2024-01-01', createdBy: { id: 'u' }
+    });
+    addResult('Deleted widgets map back to create requests',
+      widgetType === 'sticky-note' && request.text === 'Hi' && request.shape === 'rectangle' && !('id' in request) && !('createdBy' in request),
+      JSON.stringify(request));
+
+    let rejected = false;
+    try {
+      recreateRequest({ id: 'c1', type: 'comment', x: 0, y: 0 });
+    } catch (error) {
+      rejected = error.code === 'VALIDATION_ERROR';
+    }
+    addResult('Types the API cannot create are rejected', rejected);
+
+    const restore = restoreFields({ id: 'w1', type: 'sticky note', x: 1, y: 2, text: 'Old', style: { backgroundColor: '#FFF' } },
+      { text: 'New', title: 'Added', style: { textColor: '#000' } });
+    addResult('Updates are reversed field by field; fields and style keys they added are cleared',
+      JSON.stringify(restore) === JSON.stringify({ text: 'Old', title: null, style: { backgroundColor: '#FFF', textColor: null } }), JSON.stringify(restore));
+  } catch (error) {
+    addResult('Journal helpers', false, error.message);
+  }
+
+  // Test 2: Journal file
+  console.log('\n💾 Test 2: Journal file');
+  const fileDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mural-journal-file-'));
+  try {
+    const filePath = path.join(fileDir, 'journal.json');
+    const journal = new OperationJournal(filePath);
+    await Promise.all(Array.from({ length: 20 }, (_, i) =>
+      journal.record('m1', 'create', [{ widgetId: `w${i}`, widgetType: 'sticky note' }])));
+    const reloaded = await new OperationJournal(filePath).list('m1');
+    const leftovers = (await fs.readdir(fileDir)).filter(file => file !== 'journal.json');
+    addResult('Concurrent records are all saved, through a temp file',
+      reloaded.length === 20 && leftovers.length === 0, `${reloaded.length} saved, ${leftovers.join()}`);
+
+    await fs.writeFile(filePath, '{"m1": [{"id": "op-1", "entr');
+    const fresh = await new OperationJournal(filePath).list('m1');
+    const backups = (await fs.readdir(fileDir)).filter(file => file.startsWith('journal.json.corrupt-'));
+    const backup = backups[0] && await fs.readFile(path.join(fileDir, backups[0]), 'utf-8');
+    addResult('A journal file that does not parse is backed up, not discarded',
+      fresh.length === 0 && backup === '{"m1": [{"id": "op-1", "entr', backups.join());
+  } catch (error) {
+    addResult('Journal file', false, error.message);
+  } finally {
+    await fs.rm(fileDir, { recursive: true, force: true });
+  }
+
+  // Test 3: Tools against the fake API
+  console.log('\n🔌 Test 3: Tool calls');
+  const server = new FakeMuralServer();
+  const journalDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mural-journal-'));
+  const journalFilePath = path.join(journalDir, 'journal.json');
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    const other = server.addMural({ roomId: room.id });
+    const hub = server.addWidget(mural.id, { id: 'hub', text: 'Hub', x: 0, y: 0 });
+    const spoke = server.addWidget(mural.id, { id: 'spoke', text: 'Spoke', x: 300, y: 0 });
+    server.addWidget(mural.id, { id: 'link', type: 'arrow', startWidget: hub.id, endWidget: spoke.id, style: { color: '#000' } });
+
+    const client = await server.createClient({ journalFilePath });
+    const registry = new ToolRegistry(allTools);
+    const call = async (name, args) => {
+      const result = await registry.call(name, args, { client });
+      return { isError: result.isError, data: JSON.parse(result.content[0].text) };
+    };
+    const widget = id => server.getWidgets(mural.id).find(candidate => candidate.id === id);
+
+    await call('update-sticky-note', { muralId: mural.id, widgetId: hub.id, updates: { text: 'Renamed', style: { backgroundColor: '#F00' } } });
+    const undoUpdate = await call('undo-operation', { muralId: mural.id });
+    addResult('Undoing an update restores the previous values',
+      !undoUpdate.isError && widget(hub.id).text === 'Hub' && !widget(hub.id).style?.backgroundColor && undoUpdate.data.results[0].status === 'restored',
+      JSON.stringify(undoUpdate.data));
+
+    const scratch = server.addMural({ roomId: room.id });
+    const zone = server.addWidget(scratch.id, { type: 'area', x: 0, y: 0, width: 400, height: 300 });
+    await call('update-area', { muralId: scratch.id, widgetId: zone.id, updates: { title: 'Added' } });
+    const undoAdded = await call('undo-operation', { muralId: scratch.id });
+    addResult('Undoing an update clears fields it added',
+      !undoAdded.isError && !server.getWidgets(scratch.id)[0].title && server.requests.findLast(r => r.method === 'PATCH').body.title === null,
+      JSON.stringify(server.getWidgets(scratch.id)[0]));
+
+    await call('delete-widgets', { muralId: mural.id, widgetIds: [hub.id, 'link'] });
+    const undoDelete = await call('undo-operation', { muralId: mural.id });
+    const restoredHub = server.getWidgets(mural.id).find(candidate => candidate.text === 'Hub');
+    const restoredLink = server.getWidgets(mural.id).find(candidate => candidate.type === 'arrow');
+    addResult('Undoing a delete re-creates the widgets with new IDs',
+      !undoDelete.isError && restoredHub && restoredHub.id !== hub.id && undoDelete.data.results.every(result => result.status === 'recreated'),
+      JSON.stringify(undoDelete.data));
+    addResult('Re-created arrows point at re-created widgets',
+      restoredLink?.startWidget === restoredHub?.id && restoredLink?.endWidget === spoke.id, JSON.stringify(restoredLink));
+
+    const created = await call('create-sticky-notes', { muralId: mural.id, stickyNotes: [{ x: 0, y: 400, text: 'New' }] });
+    const newId = created.data.widgets[0].id;
+    await call('update-widgets', { muralId: mural.id, updates: [{ widgetId: newId, updates: { text: 'Edited' } }] });
+    const listed = await call('list-recent-operations', { muralId: mural.id });
+    const createOp = listed.data.operations?.find(operation => operation.kind === 'create');
+    addResult('Recent operations are listed newest first',
+      listed.data.operations?.map(operation => operation.kind).join(',') === 'update,create,delete,update' &&
+      listed.data.operations[2].undone && createOp?.summary === 'Created 1 sticky note',
+      JSON.stringify(listed.data.operations?.map(operation => [operation.kind, operation.summary, operation.undone])));
+
+    const blocked = await call('undo-operation', { muralId: mural.id, operationId: createOp.operationId });
+    const forced = await call('undo-operation', { muralId: mural.id, operationId: createOp.operationId, force: true });
+    addResult('Undoing under a later change needs force',
+      blocked.isError && blocked.data.code === 'VALIDATION_ERROR' && !forced.isError && !widget(newId), JSON.stringify(blocked.data));
+
+    const again = await call('undo-operation', { muralId: mural.id, operationId: createOp.operationId });
+    addResult('An operation can only be undone once', again.isError && again.data.code === 'VALIDATION_ERROR', JSON.stringify(again.data));
+
+    const elsewhere = await call('list-recent-operations', { muralId: other.id });
+    const reloaded = await server.createClient({ journalFilePath });
+    const persisted = await reloaded.getRecentOperations(mural.id);
+    addResult('The journal is scoped per mural and persisted',
+      elsewhere.data.count === 0 && persisted.length === 4, `${elsewhere.data.count} / ${persisted.length}`);
+
+    const pair = await call('create-sticky-notes', { muralId: mural.id, stickyNotes: [{ x: 0, y: 600, text: 'Keep' }, { x: 300, y: 600, text: 'Stuck' }] });
+    const [kept, stuck] = pair.data.widgets.map(created => created.id);
+    server.failNext({ status: 400, method: 'DELETE', path: `/widgets/${stuck}` });
+    const partial = await call('undo-operation', { muralId: mural.id });
+    const [pending] = await client.getRecentOperations(mural.id);
+    addResult('A partly failed undo leaves the operation open',
+      !partial.isError && partial.data.failed === 1 && !widget(kept) && widget(stuck) && !pending.undoneAt, JSON.stringify(partial.data));
+
+    const retried = await call('undo-operation', { muralId: mural.id });
+    addResult('Undoing again retries only the failed widgets',
+      !retried.isError && retried.data.results.length === 1 && retried.data.results[0].widgetId === stuck &&
+      retried.data.results[0].status === 'deleted' && !widget(stuck) && retried.data.operation.undone, JSON.stringify(retried.data));
+  } catch (error) {
+    addResult('Tool calls', false, error.message);
+  } finally {
+    await server.cleanup();
+    await fs.rm(journalDir, { recursive: true, force: true });
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Operation journal working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testUndoJournal()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
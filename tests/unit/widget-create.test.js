@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: widget create tools
+ *
+ * Calls every create-* tool against the fake Mural API and checks the endpoint
+ * and payload each one posts, plus their batch limits, argument checks and scope.
+ */
+export async function testWidgetCreate() {
+  console.log('🧪 Testing: widget create tools');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const server = new FakeMuralServer();
+  const registry = new ToolRegistry(allTools);
+  const call = async (client, name, args) => {
+    const result = await registry.call(name, args, { client });
+    return { isError: result.isError === true, data: JSON.parse(result.content[0].text) };
+  };
+
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    const client = await server.createClient();
+    const posts = () => server.requests.filter(request => request.method === 'POST' && request.path.startsWith(`/murals/${mural.id}/widgets/`));
+
+    // Test 1: Endpoints and payloads
+    console.log('\n📮 Test 1: Endpoints and payloads');
+    const hub = server.addWidget(mural.id, { id: 'hub', text: 'Hub' });
+    const cases = [
+      ['create-text-boxes', 'text-box', { textBoxes: [{ x: 0, y: 0, text: 'Note to self' }] }, body => body.text === 'Note to self'],
+      ['create-titles', 'title', { titles: [{ x: 0, y: 0, text: 'Agenda', style: { fontSize: 32 } }] }, body => body.text === 'Agenda' && body.style?.fontSize === 32],
+      ['create-shapes', 'shape', { shapes: [{ x: 0, y: 0, width: 100, height: 80, shape: 'diamond', text: 'Decide' }] }, body => body.shape === 'diamond' && body.width === 100],
+      ['create-areas', 'area', { areas: [{ x: 0, y: 0, width: 600, height: 400, title: 'Ideas' }] }, body => body.title === 'Ideas' && body.height === 400],
+      ['create-arrows', 'arrow', { arrows: [{ startWidget: hub.id, endX: 300, endY: 40 }] }, body => body.startWidget === 'hub' && body.endX === 300],
+      ['create-tables', 'table', { tables: [{ x: 0, y: 0, rows: 2, columns: 2, data: [['a', 'b'], ['c', 'd']] }] }, body => body.rows === 2 && body.data?.[1]?.[0] === 'c'],
+      ['create-images', 'image', { images: [{ x: 0, y: 0, url: 'https://example.com/cat.png', title: 'Cat' }] }, body => body.url === 'https://example.com/cat.png'],
+      ['create-files', 'file', { files: [{ x: 0, y: 0, url: 'https://example.com/brief.pdf', filename: 'brief.pdf' }] }, body => body.filename === 'brief.pdf']
+    ];
+    const wrong = [];
+    for (const [tool, endpoint, args, check] of cases) {
+      const before = posts().length;
+      const result = await call(client, tool, { muralId: mural.id, ...args });
+      const request = posts()[before];
+      if (result.isError || result.data.count !== 1 || request?.path !== `/murals/${mural.id}/widgets/${endpoint}` ||
+          !Array.isArray(request.body) || !check(request.body[0])) {
+        wrong.push(`${tool}: ${JSON.stringify(request ?? result.data)}`);
+      }
+    }
+    addResult('Each tool posts an array to its own widget endpoint', wrong.length === 0, wrong.join(' | '));
+
+    // Test 2: Argument checks
+    console.log('\n🚧 Test 2: Argument checks');
+    const before = posts().length;
+    const tooMany = await call(client, 'create-tables', {
+      muralId: mural.id,
+      tables: Array.from({ length: 101 }, () => ({ x: 0, y: 0, rows: 1, columns: 1 }))
+    });
+    addResult('Batches over the endpoint limit are rejected before any request',
+      tooMany.isError && tooMany.data.code === 'INVALID_ARGUMENTS' && posts().length === before, JSON.stringify(tooMany.data));
+
+    const looseArrow = await call(client, 'create-arrows', { muralId: mural.id, arrows: [{ startWidget: hub.id }] });
+    const overfull = await call(client, 'create-tables', { muralId: mural.id, tables: [{ x: 0, y: 0, rows: 1, columns: 1, data: [['a', 'b']] }] });
+    const unplaced = await call(client, 'create-text-boxes', { muralId: mural.id, textBoxes: [{ text: 'Where?' }] });
+    addResult('Arrow ends, table data and missing positions are checked',
+      [looseArrow, overfull, unplaced].every(result => result.isError && result.data.code === 'INVALID_ARGUMENTS') && posts().length === before,
+      [looseArrow, overfull, unplaced].map(result => result.data.message).join(' | '));
+
+    // Test 3: Scope
+    console.log('\n🔒 Test 3: Scope');
+    const readOnly = await server.createClient({ scopes: ['murals:read'] });
+    const denied = await call(readOnly, 'create-shapes', { muralId: mural.id, shapes: [{ x: 0, y: 0, width: 10, height: 10, shape: 'circle' }] });
+    addResult('Creating needs murals:write',
+      denied.isError && denied.data.code === 'INSUFFICIENT_SCOPE' && posts().length === before, JSON.stringify(denied.data));
+  } catch (error) {
+    addResult('Widget create tools', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Widget create tools working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testWidgetCreate()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: widget update tools
+ *
+ * Updates widgets of several types through the typed update tools and the
+ * generic update-widget against the fake Mural API, checking which endpoint
+ * each PATCH goes to.
+ */
+export async function testWidgetUpdate() {
+  console.log('🧪 Testing: widget update tools');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const server = new FakeMuralServer();
+  const registry = new ToolRegistry(allTools);
+  const call = async (client, name, args) => {
+    const result = await registry.call(name, args, { client });
+    return { isError: result.isError === true, data: JSON.parse(result.content[0].text) };
+  };
+
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    const shape = server.addWidget(mural.id, { type: 'shape', shape: 'circle', x: 0, y: 0 });
+    const area = server.addWidget(mural.id, { type: 'area', title: 'Ideas', x: 0, y: 0, width: 400, height: 300 });
+    const comment = server.addWidget(mural.id, { type: 'comment', text: 'Looks good', x: 10, y: 10 });
+    const table = server.addWidget(mural.id, { type: 'table', rows: 1, columns: 1, x: 0, y: 400 });
+    const sticky = server.addWidget(mural.id, { text: 'Sticky', x: 500, y: 0 });
+    const client = await server.createClient();
+    const patches = () => server.requests.filter(request => request.method === 'PATCH');
+
+    // Test 1: Typed update tools
+    console.log('\n✏️  Test 1: Typed update tools');
+    const areaUpdate = await call(client, 'update-area', { muralId: mural.id, widgetId: area.id, updates: { title: 'Themes', width: 600 } });
+    const commentUpdate = await call(client, 'update-comment', { muralId: mural.id, widgetId: comment.id, updates: { text: 'Ship it' } });
+    addResult('Typed tools PATCH their own endpoint with the given fields',
+      !areaUpdate.isError && !commentUpdate.isError &&
+      patches()[0]?.path === `/murals/${mural.id}/widgets/area/${area.id}` && patches()[0].body.title === 'Themes' && patches()[0].body.width === 600 && Object.keys(patches()[0].body).length === 2 &&
+      patches()[1]?.path === `/murals/${mural.id}/widgets/comment/${comment.id}` && comment.text === 'Ship it',
+      JSON.stringify(patches()));
+
+    const mismatch = await call(client, 'update-text-box', { muralId: mural.id, widgetId: sticky.id, updates: { text: 'Nope' } });
+    addResult('A typed tool on another widget type is an error', mismatch.isError && sticky.text === 'Sticky', JSON.stringify(mismatch.data));
+
+    // Test 2: update-widget
+    console.log('\n🔀 Test 2: update-widget');
+    const before = patches().length;
+    const moved = await call(client, 'update-widget', { muralId: mural.id, widgetId: shape.id, updates: { x: 250, style: { backgroundColor: '#FF0000' } } });
+    const lookup = server.requests.findLast(request => request.method === 'GET' && request.path === `/murals/${mural.id}/widgets/${shape.id}`);
+    addResult('update-widget looks the widget up and PATCHes the endpoint of its type',
+      !moved.isError && moved.data.widgetType === 'shape' && Boolean(lookup) &&
+      patches()[before]?.path === `/murals/${mural.id}/widgets/shape/${shape.id}` && shape.x === 250 && shape.style?.backgroundColor === '#FF0000',
+      JSON.stringify(moved.data));
+
+    const tableUpdate = await call(client, 'update-widget', { muralId: mural.id, widgetId: table.id, updates: { x: 10 } });
+    const missing = await call(client, 'update-widget', { muralId: mural.id, widgetId: 'no-such-widget', updates: { x: 10 } });
+    addResult('Tables and missing widgets are reported without a PATCH',
+      tableUpdate.isError && tableUpdate.data.code === 'VALIDATION_ERROR' && missing.isError && missing.data.code === 'NOT_FOUND' &&
+      patches().length === before + 1, `${tableUpdate.data.message} / ${missing.data.message}`);
+  } catch (error) {
+    addResult('Widget update tools', false, error.message);
+  } finally {
+    await server.cleanup();
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Widget update tools working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testWidgetUpdate()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { formatCsv, parseCsv } from '../../build/csv.js';
+import { widgetTableRows } from '../../build/widget-table.js';
+import { ToolRegistry } from '../../build/tool-registry.js';
+import { allTools } from '../../build/tools/index.js';
+import { FakeMuralServer } from '../helpers/fake-mural-server.js';
+
+/**
+ * Unit Test: export-widgets-table
+ *
+ * Checks CSV/TSV formatting and formula escaping, the widget table columns, and inline and
+ * file output of the export-widgets-table tool.
+ */
+export async function testWidgetsTable() {
+  console.log('🧪 Testing: export-widgets-table');
+  console.log('=' .repeat(50));
+
+  const testResults = {
+    passed: 0,
+    failed: 0,
+    total: 0,
+    details: []
+  };
+
+  function addResult(name, success, details = '') {
+    testResults.total++;
+    if (success) {
+      testResults.passed++;
+      console.log(`   ✅ ${name}`);
+    } else {
+      testResults.failed++;
+      console.log(`   ❌ ${name}: ${details}`);
+    }
+    testResults.details.push({ name, success, details });
+  }
+
+  const board = [
+    { id: 'area-1', type: 'area', title: 'Pains', x: 0, y: 0, width: 600, height: 400 },
+    { id: 'n-2', type: 'sticky note', text: 'Slow, "flaky" builds', x: 300, y: 100, width: 138, height: 138,
+      style: { backgroundColor: '#FFEB3B' }, createdBy: { id: 'u1', firstName: 'Ana', lastName: 'Lima' },
+      createdOn: 1714521600000, updatedOn: '2024-05-02T10:00:00.000Z', tags: ['infra', { id: 't2', text: 'ci' }] },
+    { id: 'n-1', type: 'sticky note', text: '=HYPERLINK("x")', x: 40, y: 100, width: 138, height: 138, createdBy: { id: 'u2', email: 'bo@example.com' } },
+    { id: 'n-3', type: 'sticky note', text: 'Outside', x: 900, y: 100, width: 138, height: 138 }
+  ];
+
+  // Test 1: Formatting
+  console.log('\n🧾 Test 1: Formatting');
+  try {
+    const rows = [['a', 'b,c'], ['line\nbreak', 'say "hi"'], ['tab\there', 3]];
+    addResult('CSV output parses back to the same rows',
+      JSON.stringify(parseCsv(formatCsv(rows))) === JSON.stringify(rows.map(row => row.map(String))), formatCsv(rows));
+    addResult('TSV quotes only fields with tabs, quotes or line breaks',
+      formatCsv(rows, '\t') === 'a\tb,c\r\n"line\nbreak"\t"say ""hi"""\r\n"tab\there"\t3\r\n', JSON.stringify(formatCsv(rows, '\t')));
+
+    const table = widgetTableRows(board);
+    const byId = Object.fromEntries(table.slice(1).map(row => [row[0], Object.fromEntries(table[0].map((column, i) => [column, row[i]]))]));
+    addResult('Rows follow reading order',
+      table.slice(1).map(row => row[0]).join() === 'area-1,n-1,n-2,n-3', table.slice(1).map(row => row[0]).join());
+    addResult('Color, area, author, timestamps and tags are filled in',
+      byId['n-2'].color === '#FFEB3B' && byId['n-2'].area === 'Pains' && byId['n-2'].author === 'Ana Lima' &&
+      byId['n-2'].createdOn === '2024-05-01T00:00:00.000Z' && byId['n-2'].tags === 'infra; ci' &&
+      byId['n-1'].author === 'bo@example.com' && byId['n-3'].area === '',
+      JSON.stringify(byId['n-2']));
+    addResult('Rows hold the raw text', byId['n-1'].text === '=HYPERLINK("x")', byId['n-1'].text);
+
+    const formulas = [['=HYPERLINK("x")', '+1', '-cmd', '@SUM(A1)', -5, 'a=b']];
+    addResult('Text that looks like a formula is escaped; numbers are not',
+      JSON.stringify(parseCsv(formatCsv(formulas))[0]) === JSON.stringify(['\'=HYPERLINK("x")', '\'+1', '\'-cmd', '\'@SUM(A1)', '-5', 'a=b']),
+      formatCsv(formulas));
+    addResult('Escaping can be turned off',
+      formatCsv(formulas, ',', { escapeFormulas: false }) === '"=HYPERLINK(""x"")",+1,-cmd,@SUM(A1),-5,a=b\r\n', formatCsv(formulas, ',', { escapeFormulas: false }));
+
+    const picked = widgetTableRows(board, { columns: ['text', 'area'], types: ['sticky-note'] });
+    addResult('Columns and types can be chosen; areas still resolve',
+      JSON.stringify(picked[0]) === '["text","area"]' && picked.length === 4 && picked[2][1] === 'Pains', JSON.stringify(picked));
+  } catch (error) {
+    addResult('Formatting', false, error.message);
+  }
+
+  // Test 2: Tool output
+  console.log('\n🔌 Test 2: Tool output');
+  const server = new FakeMuralServer();
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mural-table-'));
+  try {
+    const workspace = server.addWorkspace();
+    const room = server.addRoom({ workspaceId: workspace.id });
+    const mural = server.addMural({ roomId: room.id });
+    board.forEach(widget => server.addWidget(mural.id, widget));
+
+    const client = await server.createClient();
+    const registry = new ToolRegistry(allTools);
+
+    const inline = await registry.call('export-widgets-table', { muralId: mural.id, format: 'tsv', columns: ['id', 'text'], types: ['sticky note'] }, { client });
+    addResult('The table is returned inline by default',
+      !inline.isError && inline.content[0].text.split('\r\n')[0] === 'id\ttext' && inline.content[0].text.split('\r\n').length === 5,
+      JSON.stringify(inline.content[0].text));
+    addResult('Formulas in board text are escaped in the export',
+      parseCsv(inline.content[0].text, '\t')[1][1] === '\'=HYPERLINK("x")', JSON.stringify(inline.content[0].text));
+
+    const filePath = path.join(directory, 'nested', 'board.csv');
+    const written = await registry.call('export-widgets-table', { muralId: mural.id, filePath }, { client });
+    const result = JSON.parse(written.content[0].text);
+    const contents = await fs.readFile(filePath, 'utf8');
+    addResult('The table can be written to a local file',
+      !written.isError && result.rowCount === 4 && parseCsv(contents).length === 5 && contents.startsWith('id,type,text,color,area'),
+      result.message);
+
+    await fs.writeFile(filePath, 'keep me');
+    const clobber = await registry.call('export-widgets-table', { muralId: mural.id, filePath }, { client });
+    const kept = await fs.readFile(filePath, 'utf8');
+    const replaced = await registry.call('export-widgets-table', { muralId: mural.id, filePath, overwrite: true }, { client });
+    addResult('Existing files are only replaced with overwrite',
+      clobber.isError && JSON.parse(clobber.content[0].text).code === 'VALIDATION_ERROR' && kept === 'keep me' &&
+      !replaced.isError && (await fs.readFile(filePath, 'utf8')).startsWith('id,type'), clobber.content[0].text);
+  } catch (error) {
+    addResult('Tool output', false, error.message);
+  } finally {
+    await server.cleanup();
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+
+  // Results summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Results Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests: ${testResults.total}`);
+  console.log(`✅ Passed: ${testResults.passed}`);
+  console.log(`❌ Failed: ${testResults.failed}`);
+
+  const successRate = testResults.total > 0 ?
+    (testResults.passed / testResults.total * 100).toFixed(1) : 0;
+  console.log(`📈 Success rate: ${successRate}%`);
+
+  if (testResults.failed === 0) {
+    console.log('\n🎉 Widget tables working correctly!');
+    return true;
+  } else {
+    console.log('\n⚠️  Some tests failed. Check details above.');
+    return false;
+  }
+}
+
+// Run the test if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testWidgetsTable()
+    .then(success => process.exit(success ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Test execution failed:', error.message);
+      process.exit(1);
+    });
+}